@@ -0,0 +1,340 @@
+import { MessageType, ProtocolCapability } from '@shared/types';
+
+// Binary game protocol client for the browser, connecting over the server's WebSocket
+// transport. Each WebSocket frame carries one message in the same format as a UDP datagram.
+
+const PROTOCOL_VERSION = 2;
+
+// Delivery over the WebSocket is reliable and ordered, so the client only needs channel bits
+// in headers and server pings for latency
+const CLIENT_CAPABILITIES = ProtocolCapability.RELIABLE_CHANNELS | ProtocolCapability.SERVER_PINGS;
+
+// Server messages this client decodes, sent in the handshake so the server skips the rest
+const SUPPORTED_MESSAGE_TYPES = [
+  MessageType.SERVER_ACCEPT,
+  MessageType.SERVER_REJECT,
+  MessageType.SERVER_RELIABLE_ACK,
+  MessageType.SERVER_STATE_UPDATE,
+  MessageType.SERVER_PING,
+  MessageType.SERVER_PONG,
+];
+
+const RELIABLE_ORDERED_CHANNEL = 2;
+const PING_INTERVAL = 1000;
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Quat extends Vec3 {
+  w: number;
+}
+
+export interface GameEntity {
+  entityId: string;
+  entityType: string;
+  position: Vec3;
+  velocity: Vec3;
+  rotation: Quat;
+}
+
+export type GameClientStatus = 'disconnected' | 'connecting' | 'connected';
+
+export interface GameClientEvents {
+  onStatusChange?: (status: GameClientStatus, reason?: string) => void;
+  onStateUpdate?: (entities: GameEntity[], areaOfInterestId: string) => void;
+  onRtt?: (rtt: number) => void;
+}
+
+export interface GameClientOptions extends GameClientEvents {
+  username: string;
+  sessionToken?: string; // From POST /api/auth/login, required when the server enforces authentication
+  version?: string;
+}
+
+// Minimal little-endian writer for building messages
+class MessageWriter {
+  private bytes: number[] = [];
+
+  u8(value: number): this {
+    this.bytes.push(value & 0xff);
+    return this;
+  }
+
+  u16(value: number): this {
+    return this.u8(value).u8(value >>> 8);
+  }
+
+  u32(value: number): this {
+    return this.u16(value & 0xffff).u16(value >>> 16);
+  }
+
+  u64(value: number): this {
+    return this.u32(value % 0x100000000).u32(Math.floor(value / 0x100000000));
+  }
+
+  f32(value: number): this {
+    const view = new DataView(new ArrayBuffer(4));
+    view.setFloat32(0, value, true);
+    for (let i = 0; i < 4; i++) {
+      this.u8(view.getUint8(i));
+    }
+    return this;
+  }
+
+  string(value: string): this {
+    const encoded = new TextEncoder().encode(value);
+    this.u16(encoded.length);
+    encoded.forEach(byte => this.u8(byte));
+    return this;
+  }
+
+  vec3(v: Vec3): this {
+    return this.f32(v.x).f32(v.y).f32(v.z);
+  }
+
+  quat(q: Quat): this {
+    return this.f32(q.x).f32(q.y).f32(q.z).f32(q.w);
+  }
+
+  toArrayBuffer(): ArrayBuffer {
+    return new Uint8Array(this.bytes).buffer;
+  }
+}
+
+// Minimal little-endian reader for decoding messages
+class MessageReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(buffer: ArrayBuffer) {
+    this.view = new DataView(buffer);
+  }
+
+  u8(): number {
+    return this.view.getUint8(this.offset++);
+  }
+
+  u16(): number {
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  u64(): number {
+    const low = this.u32();
+    const high = this.u32();
+    return high * 0x100000000 + low;
+  }
+
+  f32(): number {
+    const value = this.view.getFloat32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  string(): string {
+    const length = this.u16();
+    const bytes = new Uint8Array(this.view.buffer, this.view.byteOffset + this.offset, length);
+    this.offset += length;
+    return new TextDecoder().decode(bytes);
+  }
+
+  vec3(): Vec3 {
+    return { x: this.f32(), y: this.f32(), z: this.f32() };
+  }
+
+  quat(): Quat {
+    return { x: this.f32(), y: this.f32(), z: this.f32(), w: this.f32() };
+  }
+}
+
+export class GameClient {
+  private socket: WebSocket | null = null;
+  private options: GameClientOptions;
+  private clientId = '';
+  private sequence = 0;
+  private nextPingId = 0;
+  private pendingPings: Map<number, number> = new Map();
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private status: GameClientStatus = 'disconnected';
+
+  constructor(options: GameClientOptions) {
+    this.options = options;
+  }
+
+  connect(url: string = GameClient.defaultUrl()): void {
+    if (this.socket) {
+      return;
+    }
+
+    this.setStatus('connecting');
+
+    const socket = new WebSocket(url);
+    socket.binaryType = 'arraybuffer';
+    socket.onopen = () => this.sendConnect();
+    socket.onmessage = event => {
+      if (event.data instanceof ArrayBuffer) {
+        this.handleMessage(event.data);
+      }
+    };
+    socket.onclose = event => this.handleClose(event.reason || 'connection_closed');
+    this.socket = socket;
+  }
+
+  disconnect(reason: string = 'client_disconnect'): void {
+    if (!this.socket) {
+      return;
+    }
+
+    if (this.status === 'connected') {
+      this.send(MessageType.CLIENT_DISCONNECT, writer => writer.string(reason));
+    }
+    this.socket.close(1000, reason);
+  }
+
+  // Report the client's own ship state (client movement authority)
+  sendState(position: Vec3, velocity: Vec3, rotation: Quat, inputSequence: number = 0): void {
+    this.send(MessageType.CLIENT_STATE_UPDATE, writer =>
+      writer.vec3(position).vec3(velocity).quat(rotation).u32(inputSequence)
+    );
+  }
+
+  // Send a control input (server movement authority)
+  sendInput(inputSequence: number, duration: number, thrust: Vec3, rotationInput: Vec3): void {
+    this.send(MessageType.CLIENT_INPUT, writer =>
+      writer.u32(inputSequence).u16(Math.max(0, Math.min(0xffff, Math.round(duration)))).vec3(thrust).vec3(rotationInput)
+    );
+  }
+
+  getClientId(): string {
+    return this.clientId;
+  }
+
+  getStatus(): GameClientStatus {
+    return this.status;
+  }
+
+  // WebSocket endpoint on the same host that served the page
+  static defaultUrl(): string {
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    return `${protocol}//${window.location.host}/ws`;
+  }
+
+  private sendConnect(): void {
+    this.send(MessageType.CLIENT_CONNECT, writer => {
+      writer
+        .string(this.options.username)
+        .string(this.options.version || '1.0.0')
+        .u16(PROTOCOL_VERSION)
+        .u32(CLIENT_CAPABILITIES)
+        .u8(SUPPORTED_MESSAGE_TYPES.length);
+      SUPPORTED_MESSAGE_TYPES.forEach(type => writer.u8(type));
+
+      if (this.options.sessionToken) {
+        writer.string(this.options.sessionToken);
+      }
+    });
+  }
+
+  private send(messageType: MessageType, writeBody: (writer: MessageWriter) => void): void {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    const writer = new MessageWriter()
+      .u8(messageType)
+      .u32(this.sequence)
+      .u64(Date.now())
+      .string(this.clientId);
+    this.sequence = (this.sequence + 1) >>> 0;
+
+    writeBody(writer);
+    this.socket.send(writer.toArrayBuffer());
+  }
+
+  private handleMessage(data: ArrayBuffer): void {
+    const reader = new MessageReader(data);
+    const typeByte = reader.u8();
+    const messageType = typeByte & 0x3f;
+    const channel = typeByte >> 6;
+    reader.u32(); // Sequence
+    reader.u64(); // Timestamp
+    reader.string(); // Client ID
+    if (channel === RELIABLE_ORDERED_CHANNEL) {
+      reader.u16(); // Order sequence, the stream already delivers in order
+    }
+
+    switch (messageType) {
+      case MessageType.SERVER_ACCEPT:
+        this.clientId = reader.string();
+        this.setStatus('connected');
+        this.pingTimer = setInterval(() => this.sendPing(), PING_INTERVAL);
+        break;
+
+      case MessageType.SERVER_REJECT:
+        this.disconnect(reader.string());
+        break;
+
+      case MessageType.SERVER_PING:
+        const pingId = reader.u32();
+        this.send(MessageType.CLIENT_PONG, writer => writer.u32(pingId));
+        break;
+
+      case MessageType.SERVER_PONG:
+        const sentAt = this.pendingPings.get(reader.u32());
+        if (sentAt !== undefined) {
+          this.pendingPings.clear();
+          this.options.onRtt?.(Date.now() - sentAt);
+        }
+        break;
+
+      case MessageType.SERVER_STATE_UPDATE:
+        const count = reader.u16();
+        const entities: GameEntity[] = [];
+        for (let i = 0; i < count; i++) {
+          entities.push({
+            entityId: reader.string(),
+            entityType: reader.string(),
+            position: reader.vec3(),
+            velocity: reader.vec3(),
+            rotation: reader.quat(),
+          });
+        }
+        this.options.onStateUpdate?.(entities, reader.string());
+        break;
+    }
+  }
+
+  private sendPing(): void {
+    const pingId = this.nextPingId;
+    this.nextPingId = (this.nextPingId + 1) >>> 0;
+    this.pendingPings.set(pingId, Date.now());
+    this.send(MessageType.CLIENT_PING, writer => writer.u32(pingId));
+  }
+
+  private handleClose(reason: string): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+
+    this.socket = null;
+    this.clientId = '';
+    this.pendingPings.clear();
+    this.setStatus('disconnected', reason);
+  }
+
+  private setStatus(status: GameClientStatus, reason?: string): void {
+    this.status = status;
+    this.options.onStatusChange?.(status, reason);
+  }
+}
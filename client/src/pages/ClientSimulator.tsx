@@ -17,6 +17,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Slider } from '@/components/ui/slider';
 import { 
   ArrowUp, 
@@ -30,13 +31,15 @@ import {
   Gauge,
   Map,
   MonitorPlay,
-  Target
+  Target,
+  Wifi
 } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Progress } from '@/components/ui/progress';
+import { GameClient, GameClientStatus } from '@/lib/gameClient';
 
 // Client simulator canvas component for visualizing the player's position
 const ClientView: React.FC<{ 
@@ -519,6 +522,91 @@ const ClientStats: React.FC<{ client: any }> = ({ client }) => {
   );
 };
 
+// Live game connection over the WebSocket transport
+const LiveConnection: React.FC<{
+  status: GameClientStatus,
+  clientId: string,
+  rtt: number | null,
+  entityCount: number,
+  error: string | null,
+  onConnect: (username: string, password: string) => void,
+  onDisconnect: () => void
+}> = ({ status, clientId, rtt, entityCount, error, onConnect, onDisconnect }) => {
+  const [username, setUsername] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center">
+          <Wifi className="mr-2 h-5 w-5" />
+          Live Connection
+        </CardTitle>
+        <CardDescription>
+          Join the simulation as a real player using the binary protocol over WebSocket
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between mb-4">
+          <span className="text-sm font-medium">Status:</span>
+          <Badge variant="outline" className={
+            status === 'connected' ? "bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300" :
+            status === 'connecting' ? "bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-300" :
+            "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300"
+          }>
+            {status}
+          </Badge>
+        </div>
+        
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertTitle>Connection failed</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        
+        {status === 'disconnected' ? (
+          <div className="space-y-3">
+            <div>
+              <Label className="block mb-2">Username</Label>
+              <Input value={username} onChange={e => setUsername(e.target.value)} />
+            </div>
+            <div>
+              <Label className="block mb-2">Password</Label>
+              <Input type="password" value={password} onChange={e => setPassword(e.target.value)} />
+            </div>
+            <Button
+              className="w-full"
+              disabled={!username}
+              onClick={() => onConnect(username, password)}
+            >
+              Connect
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Client ID:</span>
+              <span className="font-mono truncate ml-2">{clientId ? clientId.substring(0, 8) : '-'}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Round Trip:</span>
+              <span className="font-mono">{rtt !== null ? `${rtt} ms` : '-'}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Entities in View:</span>
+              <span className="font-mono">{entityCount}</span>
+            </div>
+            <Button className="w-full mt-2" variant="outline" onClick={onDisconnect}>
+              Disconnect
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
 export default function ClientSimulator() {
   // State for simulated client
   const [client, setClient] = useState<any>({
@@ -539,6 +627,15 @@ export default function ClientSimulator() {
   const [selectedArea, setSelectedArea] = useState<string>('');
   const [speed, setSpeed] = useState<number>(50);
   
+  // Live connection state
+  const gameClientRef = useRef<GameClient | null>(null);
+  const clientStateRef = useRef<any>(null);
+  const [liveStatus, setLiveStatus] = useState<GameClientStatus>('disconnected');
+  const [liveClientId, setLiveClientId] = useState<string>('');
+  const [liveRtt, setLiveRtt] = useState<number | null>(null);
+  const [liveEntityCount, setLiveEntityCount] = useState<number>(0);
+  const [liveError, setLiveError] = useState<string | null>(null);
+  
   // Fetch data
   const { data: areasData } = useQuery({
     queryKey: ['/api/aoi'],
@@ -817,6 +914,85 @@ export default function ClientSimulator() {
     }
   }, [earth, selectedArea, isRegistered]);
   
+  // Connect to the game server as a real player, logging in first if a password is given
+  const connectLive = async (username: string, password: string) => {
+    setLiveError(null);
+    
+    let sessionToken: string | undefined;
+    if (password) {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ username, password }),
+      });
+      const result = await response.json();
+      
+      if (!result.success) {
+        setLiveError(result.error || 'Login failed');
+        return;
+      }
+      sessionToken = result.data.token;
+    }
+    
+    const gameClient = new GameClient({
+      username,
+      sessionToken,
+      onStatusChange: (status, reason) => {
+        setLiveStatus(status);
+        setLiveClientId(gameClient.getClientId());
+        if (status === 'disconnected') {
+          gameClientRef.current = null;
+          setLiveRtt(null);
+          setLiveEntityCount(0);
+          if (reason && reason !== 'client_disconnect') {
+            setLiveError(reason);
+          }
+        }
+      },
+      onStateUpdate: entities => setLiveEntityCount(entities.length),
+      onRtt: setLiveRtt,
+    });
+    
+    gameClientRef.current = gameClient;
+    gameClient.connect();
+  };
+  
+  const disconnectLive = () => {
+    gameClientRef.current?.disconnect();
+  };
+  
+  // Keep the latest client state for the live connection without restarting its timer
+  useEffect(() => {
+    clientStateRef.current = client;
+  }, [client]);
+  
+  // Report the simulated ship to the server while connected
+  useEffect(() => {
+    if (liveStatus !== 'connected') return;
+    
+    const sendInterval = setInterval(() => {
+      const current = clientStateRef.current;
+      const gameClient = gameClientRef.current;
+      if (!current || !gameClient) return;
+      
+      const yaw = current.rotation?.y || 0;
+      gameClient.sendState(
+        current.position,
+        current.velocity,
+        { x: 0, y: Math.sin(yaw / 2), z: 0, w: Math.cos(yaw / 2) }
+      );
+    }, 100); // 10 updates per second
+    
+    return () => clearInterval(sendInterval);
+  }, [liveStatus]);
+  
+  // Close the live connection when leaving the page
+  useEffect(() => {
+    return () => gameClientRef.current?.disconnect();
+  }, []);
+  
   // Function to target and fly to a celestial body
   const handleTargetCelestialObject = (body: any) => {
     if (!body) return;
@@ -995,7 +1171,16 @@ export default function ClientSimulator() {
           </Tabs>
         </div>
         
-        <div className="col-span-1">
+        <div className="col-span-1 flex flex-col gap-6">
+          <LiveConnection
+            status={liveStatus}
+            clientId={liveClientId}
+            rtt={liveRtt}
+            entityCount={liveEntityCount}
+            error={liveError}
+            onConnect={connectLive}
+            onDisconnect={disconnectLive}
+          />
           <ClientControls 
             onMoveForward={handleMoveForward}
             onMoveBackward={handleMoveBackward}
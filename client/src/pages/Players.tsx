@@ -42,6 +42,20 @@ interface Player {
   port: number;
 }
 
+interface PlayerNetworkStats {
+  clientId: string;
+  connectedAt: number;
+  bytesIn: number;
+  bytesOut: number;
+  packetsIn: number;
+  packetsOut: number;
+  resends: number;
+  pendingReliable: number;
+  rtt: number | null;
+  jitter: number;
+  packetLoss: number;
+}
+
 export default function Players() {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedPlayer, setSelectedPlayer] = useState<Player | null>(null);
@@ -52,6 +66,12 @@ export default function Players() {
     staleTime: 5000,
   });
 
+  const { data: networkData } = useQuery<{ success: boolean; data?: PlayerNetworkStats }>({
+    queryKey: [`/api/players/${selectedPlayer?.clientId}/network`],
+    enabled: showDetailsDialog && !!selectedPlayer,
+    refetchInterval: 2000,
+  });
+
   const handleViewDetails = (player: Player) => {
     setSelectedPlayer(player);
     setShowDetailsDialog(true);
@@ -77,6 +97,12 @@ export default function Players() {
     return `${Math.floor(seconds / 86400)}d ago`;
   };
 
+  const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+  };
+
   const filterPlayers = (players: Player[]) => {
     if (!searchTerm) return players;
     
@@ -90,6 +116,7 @@ export default function Players() {
   };
 
   const players = data?.success ? (data.data as Player[]) : [];
+  const networkStats = networkData?.success ? networkData.data ?? null : null;
   const filteredPlayers = filterPlayers(players);
 
   return (
@@ -254,6 +281,52 @@ export default function Players() {
                   </div>
                 </div>
               </div>
+              
+              <div>
+                <h3 className="text-sm text-gray-400 mb-1">Network</h3>
+                {networkStats ? (
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span>RTT:</span>
+                      <span className="font-mono">
+                        {networkStats.rtt !== null ? `${networkStats.rtt.toFixed(0)} ms` : 'Not measured'}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Jitter:</span>
+                      <span className="font-mono">{networkStats.jitter.toFixed(1)} ms</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Packet Loss:</span>
+                      <span className="font-mono">{(networkStats.packetLoss * 100).toFixed(1)}%</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Resends:</span>
+                      <span className="font-mono">{networkStats.resends}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Received:</span>
+                      <span className="font-mono">
+                        {formatBytes(networkStats.bytesIn)} / {networkStats.packetsIn} pkts
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Sent:</span>
+                      <span className="font-mono">
+                        {formatBytes(networkStats.bytesOut)} / {networkStats.packetsOut} pkts
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Awaiting Ack:</span>
+                      <span className="font-mono">{networkStats.pendingReliable}</span>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-sm text-gray-500">
+                    {selectedPlayer.isConnected ? 'Loading network statistics...' : 'Player is not connected'}
+                  </div>
+                )}
+              </div>
             </div>
           )}
           
@@ -100,6 +100,14 @@ const ShipTemplateSchema = z.object({
   // Combat characteristics
   attackRange: z.number().min(0, "Attack range cannot be negative").max(5000, "Attack range cannot exceed 5,000m"),
   fleeThreshold: z.number().min(0, "Flee threshold must be at least 0").max(1, "Flee threshold cannot exceed 1"),
+  maxHull: z.number().min(1, "Hull must be at least 1").max(10000, "Hull cannot exceed 10,000"),
+  maxShield: z.number().min(0, "Shield cannot be negative").max(10000, "Shield cannot exceed 10,000"),
+  
+  // Weapon, ships with no damage don't attack
+  weaponDamage: z.number().min(0, "Weapon damage cannot be negative").max(1000, "Weapon damage cannot exceed 1,000"),
+  weaponRange: z.number().min(0, "Weapon range cannot be negative").max(5000, "Weapon range cannot exceed 5,000m"),
+  weaponCooldown: z.number().min(0, "Weapon cooldown cannot be negative").max(30000, "Weapon cooldown cannot exceed 30,000ms"),
+  projectileSpeed: z.number().min(0, "Projectile speed cannot be negative").max(5000, "Projectile speed cannot exceed 5,000m/s"),
   
   // Navigation characteristics
   waypointArrivalDistance: z.number().min(10, "Waypoint arrival distance must be at least 10m").max(1000, "Waypoint arrival distance cannot exceed 1,000m"),
@@ -124,6 +132,12 @@ const defaultShipTemplates: Record<string, ShipTemplate> = {
     signatureRadius: 100,
     attackRange: 300.0,
     fleeThreshold: 0.3,
+    maxHull: 400,
+    maxShield: 200,
+    weaponDamage: 25.0,
+    weaponRange: 600.0,
+    weaponCooldown: 1500,
+    projectileSpeed: 400.0,
     waypointArrivalDistance: 100.0,
     pathfindingUpdateInterval: 5000,
     obstacleAvoidanceDistance: 200.0,
@@ -141,6 +155,12 @@ const defaultShipTemplates: Record<string, ShipTemplate> = {
     signatureRadius: 200,
     attackRange: 0.0, // Non-combat
     fleeThreshold: 0.5,
+    maxHull: 800,
+    maxShield: 100,
+    weaponDamage: 0.0, // Unarmed
+    weaponRange: 0.0,
+    weaponCooldown: 0,
+    projectileSpeed: 0.0,
     waypointArrivalDistance: 150.0,
     pathfindingUpdateInterval: 7000,
     obstacleAvoidanceDistance: 300.0,
@@ -158,6 +178,12 @@ const defaultShipTemplates: Record<string, ShipTemplate> = {
     signatureRadius: 80,
     attackRange: 0.0, // Non-combat
     fleeThreshold: 0.7,
+    maxHull: 300,
+    maxShield: 50,
+    weaponDamage: 0.0, // Unarmed
+    weaponRange: 0.0,
+    weaponCooldown: 0,
+    projectileSpeed: 0.0,
     waypointArrivalDistance: 120.0,
     pathfindingUpdateInterval: 6000,
     obstacleAvoidanceDistance: 250.0,
@@ -175,6 +201,12 @@ const defaultShipTemplates: Record<string, ShipTemplate> = {
     signatureRadius: 150,
     attackRange: 0.0, // Non-combat
     fleeThreshold: 0.8,
+    maxHull: 500,
+    maxShield: 100,
+    weaponDamage: 0.0, // Unarmed
+    weaponRange: 0.0,
+    weaponCooldown: 0,
+    projectileSpeed: 0.0,
     waypointArrivalDistance: 80.0,
     pathfindingUpdateInterval: 10000,
     obstacleAvoidanceDistance: 350.0,
@@ -279,8 +311,15 @@ export default function ShipEditor() {
     setDialogOpen(true);
   };
   
+  // Templates saved before weapons existed lack those fields, use the defaults for their type
+  const withTypeDefaults = (template: ShipTemplate): ShipTemplate => ({
+    ...defaultShipTemplates[template.type as keyof typeof defaultShipTemplates],
+    ...template
+  });
+  
   // Handle editing an existing template
-  const handleEditTemplate = (template: ShipTemplate) => {
+  const handleEditTemplate = (stored: ShipTemplate) => {
+    const template = withTypeDefaults(stored);
     setSelectedTemplate(template);
     form.reset(template);
     setEditMode(true);
@@ -306,7 +345,7 @@ export default function ShipEditor() {
   // Duplicate a template
   const handleDuplicateTemplate = (template: ShipTemplate) => {
     const duplicatedTemplate = {
-      ...template,
+      ...withTypeDefaults(template),
       id: undefined, // Remove ID to create a new one
       name: `${template.name} (Copy)`
     };
@@ -334,6 +373,12 @@ export default function ShipEditor() {
       form.setValue("signatureRadius", defaultTemplate.signatureRadius);
       form.setValue("attackRange", defaultTemplate.attackRange);
       form.setValue("fleeThreshold", defaultTemplate.fleeThreshold);
+      form.setValue("maxHull", defaultTemplate.maxHull);
+      form.setValue("maxShield", defaultTemplate.maxShield);
+      form.setValue("weaponDamage", defaultTemplate.weaponDamage);
+      form.setValue("weaponRange", defaultTemplate.weaponRange);
+      form.setValue("weaponCooldown", defaultTemplate.weaponCooldown);
+      form.setValue("projectileSpeed", defaultTemplate.projectileSpeed);
       form.setValue("waypointArrivalDistance", defaultTemplate.waypointArrivalDistance);
       form.setValue("pathfindingUpdateInterval", defaultTemplate.pathfindingUpdateInterval);
       form.setValue("obstacleAvoidanceDistance", defaultTemplate.obstacleAvoidanceDistance);
@@ -1969,6 +2014,156 @@ export default function ShipEditor() {
                         </FormItem>
                       )}
                     />
+                    
+                    <FormField
+                      control={form.control}
+                      name="maxHull"
+                      render={({ field }) => (
+                        <FormItem>
+                          <div className="flex justify-between">
+                            <FormLabel>Hull</FormLabel>
+                            <span className="text-sm text-muted-foreground">
+                              {field.value}
+                            </span>
+                          </div>
+                          <FormControl>
+                            <Slider
+                              min={50}
+                              max={2000}
+                              step={50}
+                              value={[field.value]}
+                              onValueChange={(values) => field.onChange(values[0])}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <FormField
+                      control={form.control}
+                      name="maxShield"
+                      render={({ field }) => (
+                        <FormItem>
+                          <div className="flex justify-between">
+                            <FormLabel>Shield</FormLabel>
+                            <span className="text-sm text-muted-foreground">
+                              {field.value}
+                            </span>
+                          </div>
+                          <FormControl>
+                            <Slider
+                              min={0}
+                              max={1000}
+                              step={25}
+                              value={[field.value]}
+                              onValueChange={(values) => field.onChange(values[0])}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <FormField
+                      control={form.control}
+                      name="weaponDamage"
+                      render={({ field }) => (
+                        <FormItem>
+                          <div className="flex justify-between">
+                            <FormLabel>Weapon Damage</FormLabel>
+                            <span className="text-sm text-muted-foreground">
+                              {field.value}
+                            </span>
+                          </div>
+                          <FormControl>
+                            <Slider
+                              min={0}
+                              max={200}
+                              step={5}
+                              value={[field.value]}
+                              onValueChange={(values) => field.onChange(values[0])}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <FormField
+                      control={form.control}
+                      name="weaponRange"
+                      render={({ field }) => (
+                        <FormItem>
+                          <div className="flex justify-between">
+                            <FormLabel>Weapon Range (m)</FormLabel>
+                            <span className="text-sm text-muted-foreground">
+                              {field.value}
+                            </span>
+                          </div>
+                          <FormControl>
+                            <Slider
+                              min={0}
+                              max={2000}
+                              step={50}
+                              value={[field.value]}
+                              onValueChange={(values) => field.onChange(values[0])}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <FormField
+                      control={form.control}
+                      name="weaponCooldown"
+                      render={({ field }) => (
+                        <FormItem>
+                          <div className="flex justify-between">
+                            <FormLabel>Weapon Cooldown (ms)</FormLabel>
+                            <span className="text-sm text-muted-foreground">
+                              {field.value}
+                            </span>
+                          </div>
+                          <FormControl>
+                            <Slider
+                              min={0}
+                              max={10000}
+                              step={100}
+                              value={[field.value]}
+                              onValueChange={(values) => field.onChange(values[0])}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <FormField
+                      control={form.control}
+                      name="projectileSpeed"
+                      render={({ field }) => (
+                        <FormItem>
+                          <div className="flex justify-between">
+                            <FormLabel>Projectile Speed (m/s)</FormLabel>
+                            <span className="text-sm text-muted-foreground">
+                              {field.value}
+                            </span>
+                          </div>
+                          <FormControl>
+                            <Slider
+                              min={0}
+                              max={2000}
+                              step={50}
+                              value={[field.value]}
+                              onValueChange={(values) => field.onChange(values[0])}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                   </div>
                   
                   <Separator />
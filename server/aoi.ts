@@ -1,15 +1,21 @@
+import { EventEmitter } from 'events';
 import { Vector3 } from '@shared/math';
 import { AreaOfInterest, AreaOfInterestState } from '@shared/types';
 import { Player } from '@shared/schema';
+import { SpatialHash, Frustum } from './spatial';
 
 // Grid cell for spatial partitioning
 interface GridCell {
   x: number;
   y: number;
   z: number;
-  areaId: string;
+  areaIds: string[]; // Areas overlapping the cell, sub-areas overlap the area they were split from
 }
 
+// Largest radius of an area of interest. Registering an area visits every grid cell of its
+// bounding cube, so the cost grows with the cube of the radius.
+export const MAX_AREA_RADIUS = 20000;
+
 // Entity types that can be in an area of interest
 export type AOIEntity = {
   id: string;
@@ -17,31 +23,120 @@ export type AOIEntity = {
   type: 'player' | 'npc';
 };
 
+export interface AOITopologySettings {
+  clusterMinPlayers: number;      // Players outside all areas within dynamicAreaRadius of each other that get an area
+  dynamicAreaRadius: number;      // Radius of areas spawned for player clusters
+  dynamicAreaCapacity: number;
+  dynamicAreaUpdateFrequency: number;
+  minAreaRadius: number;          // Areas are not split into sub-areas smaller than this
+  maxMergedRadius: number;        // Largest area merging may produce, sub-areas stay within their parent
+  mergeThreshold: number;         // Fraction of capacity below which underused dynamic areas merge
+  emptyAreaLifetime: number;      // Milliseconds a dynamic area may go without players before it is removed
+}
+
+export interface AOIHysteresisSettings {
+  enterMargin: number; // How far inside an area an entity must be to enter it
+  exitMargin: number;  // How far outside its area an entity must be to leave it
+}
+
+// Payload of the areaEnter and areaExit events. A move from one area to another emits
+// areaExit and then areaEnter with the same transition.
+export interface AreaTransition {
+  entityId: string;
+  type: 'player' | 'npc';
+  fromAreaId?: string; // Absent when the entity was outside all areas
+  toAreaId?: string;   // Absent when the entity left all areas or was removed
+}
+
+// Configurable properties of an area, as edited by admins
+export interface AreaDefinition {
+  name: string;
+  center: Vector3;
+  radius: number;
+  capacityLimit: number;
+  updateFrequency: number;
+  celestialBodyId?: number; // Anchors the area to the body, see anchorArea
+  bodyOffset?: Vector3;
+}
+
+// A change to the set of areas made by AOIManager.rebalance
+export interface AreaTopologyChange {
+  type: 'spawned' | 'split' | 'merged' | 'retired';
+  areaId: string;           // Area spawned, split, merged into, or removed
+  relatedAreaIds: string[]; // Sub-areas created by a split, areas removed by a merge
+}
+
+// An area that moved with its celestial body, and the entities it took along
+export interface AreaMove {
+  areaId: string;
+  offset: Vector3;     // Displacement of the area, its sub-areas and their entities
+  entityIds: string[]; // Entities moved, already at their new positions in the AOI system
+}
+
 // Area of Interest Management
-export class AOIManager {
+// Emits 'areaEnter' and 'areaExit' with an AreaTransition whenever an entity changes area,
+// whether it moved or the areas around it changed
+export class AOIManager extends EventEmitter {
   // Map of area IDs to area information
   private areas: Map<string, AreaOfInterest> = new Map();
   
   // Map from entity ID to area ID
   private entityAreaMap: Map<string, string> = new Map();
   
+  // Map from area ID to the IDs of entities in it
+  private areaEntities: Map<string, Set<string>> = new Map();
+  
   // Spatial grid for faster lookups
   private grid: Map<string, GridCell> = new Map();
   private gridCellSize: number;
   
-  constructor(gridCellSize: number = 1000.0) {
+  // Every entity by position, including entities outside all areas
+  private entityIndex: SpatialHash<AOIEntity>;
+  
+  // Players outside all areas, candidates for new areas
+  private unassignedPlayers: Set<string> = new Set();
+  
+  // Since when each dynamic area has had no players
+  private emptySince: Map<string, number> = new Map();
+  private nextDynamicAreaId: number = 1;
+  private topology: AOITopologySettings;
+  private hysteresis: AOIHysteresisSettings;
+  
+  constructor(
+    gridCellSize: number = 1000.0,
+    entityCellSize: number = 2500.0,
+    topology: AOITopologySettings = {
+      clusterMinPlayers: 3,
+      dynamicAreaRadius: 5000,
+      dynamicAreaCapacity: 400,
+      dynamicAreaUpdateFrequency: 30,
+      minAreaRadius: 1000,
+      maxMergedRadius: MAX_AREA_RADIUS,
+      mergeThreshold: 0.5,
+      emptyAreaLifetime: 60000
+    },
+    hysteresis: AOIHysteresisSettings = {
+      enterMargin: 250,
+      exitMargin: 250
+    }
+  ) {
+    super();
     this.gridCellSize = gridCellSize;
+    this.entityIndex = new SpatialHash(entityCellSize);
+    this.topology = topology;
+    this.hysteresis = hysteresis;
   }
   
-  // Create a new area of interest
+  // Create a new area of interest. Entities already inside it are moved into it.
   createArea(
     id: string,
     name: string,
     center: Vector3,
     radius: number,
-    capacityLimit: number = 400
+    capacityLimit: number = 400,
+    updateFrequency: number = 60
   ): AreaOfInterest {
-    const area: AreaOfInterest = {
+    return this.addArea({
       id,
       name,
       center,
@@ -50,19 +145,101 @@ export class AOIManager {
       npcCount: 0,
       load: 0,
       latency: 0,
-      capacityLimit
-    };
-    
-    this.areas.set(id, area);
+      capacityLimit,
+      updateFrequency,
+      dynamic: false
+    });
+  }
+  
+  private addArea(area: AreaOfInterest): AreaOfInterest {
+    this.areas.set(area.id, area);
+    this.areaEntities.set(area.id, new Set());
     
     // Register area in grid cells it overlaps
     this.registerAreaInGrid(area);
     
+    this.reassignEntitiesNear(area.center, area.radius);
+    
     return area;
   }
   
+  // Change an area in place. Its grid cells are registered again, and its entities and those
+  // around its new bounds are moved to the areas they are now in.
+  updateArea(areaId: string, definition: AreaDefinition): boolean {
+    const area = this.areas.get(areaId);
+    if (!area) {
+      return false;
+    }
+    
+    this.unregisterAreaFromGrid(area);
+    
+    area.name = definition.name;
+    area.center = definition.center;
+    area.radius = definition.radius;
+    area.capacityLimit = definition.capacityLimit;
+    area.updateFrequency = definition.updateFrequency;
+    area.celestialBodyId = definition.celestialBodyId;
+    area.bodyOffset = definition.bodyOffset;
+    
+    this.registerAreaInGrid(area);
+    
+    Array.from(this.areaEntities.get(areaId) || []).forEach(entityId => this.reassignEntity(entityId));
+    this.reassignEntitiesNear(area.center, area.radius);
+    
+    return true;
+  }
+  
+  // Remove an area. Its entities move to the area they are now in, if any, and its sub-areas
+  // take its place under its own parent.
+  removeArea(areaId: string): boolean {
+    const area = this.areas.get(areaId);
+    if (!area) {
+      return false;
+    }
+    
+    this.areas.forEach(other => {
+      if (other.parentId === areaId) {
+        other.parentId = area.parentId;
+      }
+    });
+    
+    this.areas.delete(areaId);
+    this.unregisterAreaFromGrid(area);
+    this.emptySince.delete(areaId);
+    
+    const members = Array.from(this.areaEntities.get(areaId) || []);
+    this.areaEntities.delete(areaId);
+    members.forEach(entityId => this.reassignEntity(entityId));
+    
+    return true;
+  }
+  
   // Register an area in the spatial grid
   private registerAreaInGrid(area: AreaOfInterest): void {
+    this.forEachAreaCell(area, (cellKey, x, y, z) => {
+      const cell = this.grid.get(cellKey);
+      if (cell) {
+        cell.areaIds.push(area.id);
+      } else {
+        this.grid.set(cellKey, { x, y, z, areaIds: [area.id] });
+      }
+    });
+  }
+  
+  private unregisterAreaFromGrid(area: AreaOfInterest): void {
+    this.forEachAreaCell(area, cellKey => {
+      const cell = this.grid.get(cellKey);
+      if (!cell) return;
+      
+      cell.areaIds = cell.areaIds.filter(areaId => areaId !== area.id);
+      if (cell.areaIds.length === 0) {
+        this.grid.delete(cellKey);
+      }
+    });
+  }
+  
+  // Call back with every grid cell an area overlaps
+  private forEachAreaCell(area: AreaOfInterest, callback: (cellKey: string, x: number, y: number, z: number) => void): void {
     const centerX = Math.floor(area.center.x / this.gridCellSize);
     const centerY = Math.floor(area.center.y / this.gridCellSize);
     const centerZ = Math.floor(area.center.z / this.gridCellSize);
@@ -70,7 +247,6 @@ export class AOIManager {
     // Calculate cell range based on radius
     const radiusCells = Math.ceil(area.radius / this.gridCellSize);
     
-    // Register area in all cells it overlaps
     for (let x = centerX - radiusCells; x <= centerX + radiusCells; x++) {
       for (let y = centerY - radiusCells; y <= centerY + radiusCells; y++) {
         for (let z = centerZ - radiusCells; z <= centerZ + radiusCells; z++) {
@@ -82,8 +258,7 @@ export class AOIManager {
           );
           
           if (cellCenter.distance(area.center) <= area.radius + this.gridCellSize * 0.866) {
-            const cellKey = `${x},${y},${z}`;
-            this.grid.set(cellKey, { x, y, z, areaId: area.id });
+            callback(`${x},${y},${z}`, x, y, z);
           }
         }
       }
@@ -117,7 +292,18 @@ export class AOIManager {
     }
   }
   
-  // Find the area containing a position
+  // Recalculate each area's load from its entity count relative to its capacity
+  refreshAreaLoads(): void {
+    this.areas.forEach(area => {
+      const entityCount = area.playerCount + area.npcCount;
+      area.load = area.capacityLimit > 0
+        ? Math.min(100, (entityCount / area.capacityLimit) * 100)
+        : 0;
+    });
+  }
+  
+  // Find the area containing a position. Where areas overlap the smallest wins, so entities
+  // inside a sub-area belong to it rather than to the area it was split from.
   findAreaAtPosition(position: Vector3): AreaOfInterest | undefined {
     // First check grid for faster lookup
     const cellX = Math.floor(position.x / this.gridCellSize);
@@ -128,93 +314,119 @@ export class AOIManager {
     const cell = this.grid.get(cellKey);
     
     if (cell) {
-      const area = this.areas.get(cell.areaId);
-      
-      // Verify position is actually within area radius
-      if (area && position.distance(area.center) <= area.radius) {
+      const area = this.smallestAreaContaining(position, cell.areaIds.map(areaId => this.areas.get(areaId)!));
+      if (area) {
         return area;
       }
     }
     
     // Fall back to checking all areas if grid lookup didn't find a match
-    for (const area of this.areas.values()) {
-      if (position.distance(area.center) <= area.radius) {
-        return area;
+    return this.smallestAreaContaining(position, this.getAllAreas());
+  }
+  
+  private smallestAreaContaining(position: Vector3, candidates: AreaOfInterest[]): AreaOfInterest | undefined {
+    let best: AreaOfInterest | undefined;
+    candidates.forEach(area => {
+      // Verify position is actually within area radius
+      if (position.distance(area.center) <= area.radius && (!best || area.radius < best.radius)) {
+        best = area;
       }
-    }
-    
-    return undefined;
+    });
+    return best;
   }
   
   // Register an entity in an area
   registerEntity(entityId: string, position: Vector3, type: 'player' | 'npc'): string | undefined {
+    return this.updateEntityPosition(entityId, position, type);
+  }
+  
+  // Update entity position and area if needed. Entities not seen before are registered.
+  updateEntityPosition(entityId: string, position: Vector3, type: 'player' | 'npc'): string | undefined {
+    this.entityIndex.update(entityId, position, { id: entityId, position, type });
+    
     // Find area containing the position
-    const area = this.findAreaAtPosition(position);
+    return this.assignArea(entityId, type, this.selectArea(entityId, position));
+  }
+  
+  // Remove an entity from its area and the entity index
+  removeEntity(entityId: string, type: 'player' | 'npc'): void {
+    const areaId = this.entityAreaMap.get(entityId);
     
-    if (area) {
-      // Update entity-area mapping
-      this.entityAreaMap.set(entityId, area.id);
-      
-      // Update area counts
-      if (type === 'player') {
-        area.playerCount += 1;
-      } else {
-        area.npcCount += 1;
-      }
-      
-      return area.id;
+    this.leaveArea(entityId, type);
+    this.entityIndex.remove(entityId);
+    this.unassignedPlayers.delete(entityId);
+    
+    if (areaId) {
+      const transition: AreaTransition = { entityId, type, fromAreaId: areaId };
+      this.emit('areaExit', transition);
+    }
+  }
+  
+  // Area for an entity moving to a position. An entity only enters an area once it is
+  // enterMargin inside it, and only leaves its area once it is exitMargin outside it, so
+  // entities moving along an edge do not flap between areas.
+  private selectArea(entityId: string, position: Vector3): AreaOfInterest | undefined {
+    const candidate = this.findAreaAtPosition(position);
+    const currentAreaId = this.entityAreaMap.get(entityId);
+    const current = currentAreaId ? this.areas.get(currentAreaId) : undefined;
+    
+    if (candidate && candidate === current) {
+      return current;
     }
     
-    return undefined;
+    const entersCandidate = candidate !== undefined &&
+      position.distance(candidate.center) <= candidate.radius - this.hysteresis.enterMargin;
+    
+    // Still held by the current area, unless well inside a smaller area such as a sub-area
+    if (current && position.distance(current.center) <= current.radius + this.hysteresis.exitMargin) {
+      return entersCandidate && candidate!.radius < current.radius ? candidate : current;
+    }
+    
+    // Left the current area for whichever area it is in now, or is entering one from outside
+    return current || entersCandidate ? candidate : undefined;
   }
   
-  // Update entity position and area if needed
-  updateEntityPosition(entityId: string, position: Vector3, type: 'player' | 'npc'): string | undefined {
+  // Move an entity into an area, or out of all areas. Entities outside all areas stay
+  // indexed, so they are still relevant to entities near them.
+  private assignArea(entityId: string, type: 'player' | 'npc', area: AreaOfInterest | undefined): string | undefined {
     const currentAreaId = this.entityAreaMap.get(entityId);
+    if (area && area.id === currentAreaId) {
+      return currentAreaId;
+    }
     
-    // Find new area containing the position
-    const newArea = this.findAreaAtPosition(position);
+    this.leaveArea(entityId, type);
     
-    if (!newArea) {
-      // No area contains this position
-      if (currentAreaId) {
-        // Entity left all areas, remove it
-        this.removeEntity(entityId, type);
-      }
-      return undefined;
+    if (area) {
+      this.enterArea(entityId, area, type);
+    } else if (type === 'player') {
+      this.unassignedPlayers.add(entityId);
     }
     
-    if (currentAreaId !== newArea.id) {
-      // Entity moved to a new area
-      
-      // Remove from old area
-      if (currentAreaId) {
-        const oldArea = this.areas.get(currentAreaId);
-        if (oldArea) {
-          if (type === 'player') {
-            oldArea.playerCount = Math.max(0, oldArea.playerCount - 1);
-          } else {
-            oldArea.npcCount = Math.max(0, oldArea.npcCount - 1);
-          }
-        }
-      }
-      
-      // Add to new area
-      this.entityAreaMap.set(entityId, newArea.id);
-      if (type === 'player') {
-        newArea.playerCount += 1;
-      } else {
-        newArea.npcCount += 1;
-      }
-      
-      return newArea.id;
+    const transition: AreaTransition = { entityId, type, fromAreaId: currentAreaId, toAreaId: area?.id };
+    if (currentAreaId) {
+      this.emit('areaExit', transition);
+    }
+    if (area) {
+      this.emit('areaEnter', transition);
     }
     
-    return currentAreaId;
+    return area?.id;
   }
   
-  // Remove an entity from its area
-  removeEntity(entityId: string, type: 'player' | 'npc'): void {
+  private enterArea(entityId: string, area: AreaOfInterest, type: 'player' | 'npc'): void {
+    this.entityAreaMap.set(entityId, area.id);
+    this.areaEntities.get(area.id)?.add(entityId);
+    this.unassignedPlayers.delete(entityId);
+    
+    // Update area counts
+    if (type === 'player') {
+      area.playerCount += 1;
+    } else {
+      area.npcCount += 1;
+    }
+  }
+  
+  private leaveArea(entityId: string, type: 'player' | 'npc'): void {
     const areaId = this.entityAreaMap.get(entityId);
     
     if (areaId) {
@@ -230,10 +442,28 @@ export class AOIManager {
       }
       
       // Remove mapping
+      this.areaEntities.get(areaId)?.delete(entityId);
       this.entityAreaMap.delete(entityId);
     }
   }
   
+  // Find the area for an entity again after the areas around it changed. Entities whose area
+  // is gone go straight to the area they are in, without waiting to be enterMargin inside it.
+  private reassignEntity(entityId: string): void {
+    const entity = this.entityIndex.get(entityId);
+    if (!entity) return;
+    
+    const currentAreaId = this.entityAreaMap.get(entityId);
+    const area = currentAreaId && this.areas.has(currentAreaId)
+      ? this.selectArea(entityId, entity.position)
+      : this.findAreaAtPosition(entity.position);
+    this.assignArea(entity.id, entity.type, area);
+  }
+  
+  private reassignEntitiesNear(center: Vector3, radius: number): void {
+    this.entityIndex.queryRadius(center, radius).forEach(entity => this.reassignEntity(entity.id));
+  }
+  
   // Get the area an entity is in
   getEntityArea(entityId: string): AreaOfInterest | undefined {
     const areaId = this.entityAreaMap.get(entityId);
@@ -245,12 +475,28 @@ export class AOIManager {
     return undefined;
   }
   
-  // Get entities that should be replicated to a given entity
-  getRelevantEntities(
-    observerEntityId: string,
-    allEntities: AOIEntity[]
-  ): AOIEntity[] {
-    const observerAreaId = this.entityAreaMap.get(observerEntityId);
+  // Get the last known position of an entity
+  getEntityPosition(entityId: string): Vector3 | undefined {
+    return this.entityIndex.getPosition(entityId);
+  }
+  
+  // Get entities within a distance of a point, optionally of one type
+  getEntitiesInRadius(center: Vector3, radius: number, type?: 'player' | 'npc'): AOIEntity[] {
+    const entities = this.entityIndex.queryRadius(center, radius);
+    return type ? entities.filter(entity => entity.type === type) : entities;
+  }
+  
+  // Get entities inside a view frustum (see createViewFrustum), optionally of one type
+  getEntitiesInFrustum(frustum: Frustum, type?: 'player' | 'npc'): AOIEntity[] {
+    const entities = this.entityIndex.queryFrustum(frustum);
+    return type ? entities.filter(entity => entity.type === type) : entities;
+  }
+  
+  // Get entities that should be replicated to a given entity: the observer itself, every
+  // entity in its area, and entities in other areas or outside all areas within its area's radius.
+  // With an area ID, gets the entities that would be relevant if the observer were in that area.
+  getRelevantEntities(observerEntityId: string, areaId?: string): AOIEntity[] {
+    const observerAreaId = areaId || this.entityAreaMap.get(observerEntityId);
     
     if (!observerAreaId) {
       return []; // Observer is not in any AOI
@@ -261,31 +507,322 @@ export class AOIManager {
       return []; // Observer area no longer exists
     }
     
-    // Get observer position (must be in allEntities)
-    const observer = allEntities.find(e => e.id === observerEntityId);
-    
+    const observer = this.entityIndex.get(observerEntityId);
     if (!observer) {
-      return []; // Observer not found in entity list
+      return []; // Observer has no known position
+    }
+    
+    const relevant: Map<string, AOIEntity> = new Map();
+    
+    // Include entities in the same AOI
+    this.areaEntities.get(observerAreaId)?.forEach(entityId => {
+      const entity = this.entityIndex.get(entityId);
+      if (entity) {
+        relevant.set(entityId, entity);
+      }
+    });
+    
+    // Include nearby entities even if they're in a different AOI
+    this.entityIndex.queryRadius(observer.position, observerArea.radius).forEach(entity => {
+      relevant.set(entity.id, entity);
+    });
+    
+    return Array.from(relevant.values());
+  }
+  
+  // Keep an area at a fixed offset from a celestial body. It moves there on the next
+  // followCelestialBodies call.
+  anchorArea(areaId: string, celestialBodyId: number, bodyOffset: Vector3): boolean {
+    const area = this.areas.get(areaId);
+    if (!area) {
+      return false;
     }
     
-    return allEntities.filter(entity => {
-      // Always include the observer itself
-      if (entity.id === observerEntityId) {
-        return true;
+    area.celestialBodyId = celestialBodyId;
+    area.bodyOffset = bodyOffset;
+    return true;
+  }
+  
+  // Move body-anchored areas to their bodies' current positions (see
+  // CelestialManager.getCurrentPositions). Sub-areas and the entities in them are carried
+  // along, so positions relative to the area stay the same; the owners of those entities
+  // must apply the returned offsets to their own state.
+  followCelestialBodies(bodyPositions: Map<number, { position: Vector3 }>): AreaMove[] {
+    const moves: AreaMove[] = [];
+    
+    this.getAllAreas().forEach(area => {
+      if (area.celestialBodyId === undefined || !area.bodyOffset) return;
+      
+      const body = bodyPositions.get(area.celestialBodyId);
+      if (!body) return;
+      
+      const offset = body.position.add(area.bodyOffset).subtract(area.center);
+      if (offset.sqrMagnitude() > 0) {
+        moves.push(this.moveArea(area, offset));
+      }
+    });
+    
+    return moves;
+  }
+  
+  private moveArea(area: AreaOfInterest, offset: Vector3): AreaMove {
+    const movedAreas = [area].concat(this.getDescendantAreas(area.id));
+    
+    const entityIds: string[] = [];
+    movedAreas.forEach(movedArea => {
+      this.areaEntities.get(movedArea.id)?.forEach(entityId => entityIds.push(entityId));
+      
+      this.unregisterAreaFromGrid(movedArea);
+      movedArea.center = movedArea.center.add(offset);
+      this.registerAreaInGrid(movedArea);
+    });
+    
+    entityIds.forEach(entityId => {
+      const entity = this.entityIndex.get(entityId);
+      if (entity) {
+        const position = entity.position.add(offset);
+        this.entityIndex.update(entityId, position, { id: entityId, position, type: entity.type });
+      }
+    });
+    
+    // Carried entities normally stay where they are, but the areas now also cover new ground
+    entityIds.forEach(entityId => this.reassignEntity(entityId));
+    movedAreas.forEach(movedArea => this.reassignEntitiesNear(movedArea.center, movedArea.radius));
+    
+    return { areaId: area.id, offset, entityIds };
+  }
+  
+  private getDescendantAreas(areaId: string): AreaOfInterest[] {
+    const children = this.getAllAreas().filter(area => area.parentId === areaId);
+    return children.concat(...children.map(child => this.getDescendantAreas(child.id)));
+  }
+  
+  // Adapt the areas to where entities are: spawn areas for clusters of players outside all
+  // areas, split areas over capacity, merge underused dynamic areas and remove dynamic areas
+  // that stayed empty. Entities are moved into their new areas before this returns.
+  rebalance(now: number = Date.now()): AreaTopologyChange[] {
+    const changes: AreaTopologyChange[] = [];
+    
+    this.splitOverloadedAreas(changes);
+    this.mergeUnderusedAreas(changes);
+    this.retireEmptyAreas(now, changes);
+    this.spawnClusterAreas(changes);
+    
+    return changes;
+  }
+  
+  // Split each area over capacity into two sub-areas of half its radius, one per half of its
+  // entities along the axis they are spread furthest on. The area itself stays and keeps the
+  // entities outside both sub-areas. An area is only split once, further load splits the sub-areas.
+  private splitOverloadedAreas(changes: AreaTopologyChange[]): void {
+    this.getAllAreas().forEach(area => {
+      const members = this.getAreaMembers(area.id);
+      const childRadius = area.radius / 2;
+      
+      if (members.length <= area.capacityLimit || childRadius < this.topology.minAreaRadius || this.hasSubAreas(area.id)) {
+        return;
+      }
+      
+      const axis = this.widestAxis(members);
+      const sorted = members.slice().sort((a, b) => a.position[axis] - b.position[axis]);
+      const half = Math.ceil(sorted.length / 2);
+      
+      const subAreaIds = [sorted.slice(0, half), sorted.slice(half)].map((group, index) => {
+        const subArea = this.addArea({
+          id: this.createDynamicAreaId(),
+          name: `${area.name} ${index + 1}`,
+          center: this.centroid(group),
+          radius: childRadius,
+          playerCount: 0,
+          npcCount: 0,
+          load: 0,
+          latency: 0,
+          capacityLimit: area.capacityLimit,
+          updateFrequency: area.updateFrequency,
+          dynamic: true,
+          parentId: area.id
+        });
+        return subArea.id;
+      });
+      
+      changes.push({ type: 'split', areaId: area.id, relatedAreaIds: subAreaIds });
+    });
+  }
+  
+  // Fold underused sub-areas back into their parent, and replace pairs of touching underused
+  // dynamic areas with the same parent by one area enclosing both
+  private mergeUnderusedAreas(changes: AreaTopologyChange[]): void {
+    // Sub-areas split off in this pass get a chance to take in entities first
+    const splitAreaIds: Set<string> = new Set();
+    changes.forEach(change => {
+      if (change.type === 'split') {
+        change.relatedAreaIds.forEach(areaId => splitAreaIds.add(areaId));
+      }
+    });
+    
+    this.getAllAreas().forEach(area => {
+      if (!this.areas.has(area.id) || !area.dynamic || splitAreaIds.has(area.id) || this.hasSubAreas(area.id)) {
+        return; // Already merged away, just split off, or still has sub-areas of its own
+      }
+      
+      const count = this.getEntityCount(area.id);
+      const parent = area.parentId ? this.areas.get(area.parentId) : undefined;
+      
+      if (parent && count + this.getEntityCount(parent.id) < parent.capacityLimit * this.topology.mergeThreshold) {
+        this.removeArea(area.id);
+        changes.push({ type: 'merged', areaId: parent.id, relatedAreaIds: [area.id] });
+        return;
+      }
+      
+      const maxRadius = parent ? parent.radius : this.topology.maxMergedRadius;
+      
+      const neighbor = this.getAllAreas().find(other => {
+        if (other.id === area.id || !other.dynamic || other.parentId !== area.parentId || this.hasSubAreas(other.id)) {
+          return false;
+        }
+        
+        const capacity = Math.min(area.capacityLimit, other.capacityLimit);
+        return other.center.distance(area.center) <= area.radius + other.radius &&
+          count + this.getEntityCount(other.id) < capacity * this.topology.mergeThreshold &&
+          this.enclosingRadius(area, other) <= maxRadius;
+      });
+      
+      if (!neighbor) {
+        return;
+      }
+      
+      // Smallest sphere containing both
+      const radius = this.enclosingRadius(area, neighbor);
+      const distance = area.center.distance(neighbor.center);
+      const center = distance > 0
+        ? area.center.add(neighbor.center.subtract(area.center).multiply((radius - area.radius) / distance))
+        : area.center;
+      
+      const merged = this.addArea({
+        id: this.createDynamicAreaId(),
+        name: area.name,
+        center,
+        radius,
+        playerCount: 0,
+        npcCount: 0,
+        load: 0,
+        latency: 0,
+        capacityLimit: Math.min(area.capacityLimit, neighbor.capacityLimit),
+        updateFrequency: Math.max(area.updateFrequency, neighbor.updateFrequency),
+        dynamic: true,
+        parentId: area.parentId
+      });
+      
+      this.removeArea(area.id);
+      this.removeArea(neighbor.id);
+      changes.push({ type: 'merged', areaId: merged.id, relatedAreaIds: [area.id, neighbor.id] });
+    });
+  }
+  
+  // Remove dynamic areas without sub-areas that have had no players for emptyAreaLifetime
+  private retireEmptyAreas(now: number, changes: AreaTopologyChange[]): void {
+    this.getAllAreas().forEach(area => {
+      if (!area.dynamic || this.hasSubAreas(area.id)) {
+        return;
       }
       
-      // Include entities in the same AOI
-      const entityAreaId = this.entityAreaMap.get(entity.id);
-      if (entityAreaId === observerAreaId) {
-        return true;
+      if (area.playerCount > 0) {
+        this.emptySince.delete(area.id);
+        return;
       }
       
-      // Include nearby entities even if they're in a different AOI
-      const distance = entity.position.distance(observer.position);
-      return distance <= observerArea.radius;
+      const emptySince = this.emptySince.get(area.id);
+      if (emptySince === undefined) {
+        this.emptySince.set(area.id, now);
+      } else if (now - emptySince >= this.topology.emptyAreaLifetime) {
+        this.removeArea(area.id);
+        changes.push({ type: 'retired', areaId: area.id, relatedAreaIds: [] });
+      }
+    });
+  }
+  
+  // Give each group of at least clusterMinPlayers players outside all areas, all within
+  // dynamicAreaRadius of one of them, an area centered on the group
+  private spawnClusterAreas(changes: AreaTopologyChange[]): void {
+    Array.from(this.unassignedPlayers).forEach(playerId => {
+      const position = this.entityIndex.getPosition(playerId);
+      if (!position || !this.unassignedPlayers.has(playerId)) {
+        return; // Gone, or taken in by an area spawned for an earlier cluster
+      }
+      
+      const cluster = this.entityIndex.queryRadius(position, this.topology.dynamicAreaRadius)
+        .filter(entity => entity.type === 'player' && this.unassignedPlayers.has(entity.id));
+      
+      if (cluster.length < this.topology.clusterMinPlayers) {
+        return;
+      }
+      
+      const id = this.createDynamicAreaId();
+      this.addArea({
+        id,
+        name: `Cluster ${id.slice('aoi-dyn-'.length)}`,
+        center: this.centroid(cluster),
+        radius: this.topology.dynamicAreaRadius,
+        playerCount: 0,
+        npcCount: 0,
+        load: 0,
+        latency: 0,
+        capacityLimit: this.topology.dynamicAreaCapacity,
+        updateFrequency: this.topology.dynamicAreaUpdateFrequency,
+        dynamic: true
+      });
+      
+      changes.push({ type: 'spawned', areaId: id, relatedAreaIds: [] });
     });
   }
   
+  private createDynamicAreaId(): string {
+    let id: string;
+    do {
+      id = `aoi-dyn-${this.nextDynamicAreaId++}`;
+    } while (this.areas.has(id));
+    return id;
+  }
+  
+  private hasSubAreas(areaId: string): boolean {
+    return this.getAllAreas().some(area => area.parentId === areaId);
+  }
+  
+  private getAreaMembers(areaId: string): AOIEntity[] {
+    const members: AOIEntity[] = [];
+    this.areaEntities.get(areaId)?.forEach(entityId => {
+      const entity = this.entityIndex.get(entityId);
+      if (entity) {
+        members.push(entity);
+      }
+    });
+    return members;
+  }
+  
+  private getEntityCount(areaId: string): number {
+    return this.areaEntities.get(areaId)?.size || 0;
+  }
+  
+  private centroid(entities: AOIEntity[]): Vector3 {
+    const sum = entities.reduce((total, entity) => total.add(entity.position), Vector3.zero());
+    return sum.multiply(1 / entities.length);
+  }
+  
+  private widestAxis(entities: AOIEntity[]): 'x' | 'y' | 'z' {
+    const axes: ('x' | 'y' | 'z')[] = ['x', 'y', 'z'];
+    const extents = axes.map(axis => {
+      const values = entities.map(entity => entity.position[axis]);
+      return Math.max(...values) - Math.min(...values);
+    });
+    return axes[extents.indexOf(Math.max(...extents))];
+  }
+  
+  // Radius of the smallest sphere containing two areas
+  private enclosingRadius(a: AreaOfInterest, b: AreaOfInterest): number {
+    const distance = a.center.distance(b.center);
+    return Math.max(a.radius, b.radius, (distance + a.radius + b.radius) / 2);
+  }
+  
   // Convert internal AreaOfInterest to network-friendly AreaOfInterestState
   areaToState(area: AreaOfInterest): AreaOfInterestState {
     return {
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AuthManager, verifyAdminSecret } from './auth';
+
+const auth = new AuthManager('test-secret');
+
+describe('passwords', () => {
+  it('verifies a hashed password', async () => {
+    const stored = await auth.hashPassword('correct horse');
+    assert.ok(auth.isPasswordHashed(stored));
+    assert.equal(await auth.verifyPassword('correct horse', stored), true);
+    assert.equal(await auth.verifyPassword('battery staple', stored), false);
+  });
+
+  it('salts every hash', async () => {
+    assert.notEqual(await auth.hashPassword('password'), await auth.hashPassword('password'));
+  });
+
+  it('rejects unhashed passwords, even when they match', async () => {
+    assert.equal(auth.isPasswordHashed('password'), false);
+    assert.equal(await auth.verifyPassword('password', 'password'), false);
+    assert.equal(await auth.verifyPassword('scrypt$', 'scrypt$'), false);
+  });
+
+  it('rejects malformed hashes for any password', async () => {
+    const stored = await auth.hashPassword('correct horse');
+    const [, saltHex, hashHex] = stored.split('$');
+    const malformed = [
+      'scrypt$ab$zz',
+      'scrypt$zz$' + hashHex,
+      `scrypt$${saltHex}$${hashHex.substring(0, 32)}`,
+      `scrypt$${saltHex}$${hashHex}$`,
+      `scrypt$${saltHex}$${hashHex.substring(1)}`
+    ];
+    for (const value of malformed) {
+      assert.equal(auth.isPasswordHashed(value), false, value);
+      assert.equal(await auth.verifyPassword('anything', value), false, value);
+    }
+  });
+});
+
+describe('admin secret', () => {
+  it('matches only the configured secret', () => {
+    assert.equal(verifyAdminSecret('letmein', 'letmein'), true);
+    assert.equal(verifyAdminSecret('letmeout', 'letmein'), false);
+    assert.equal(verifyAdminSecret(undefined, 'letmein'), false);
+  });
+
+  it('matches nothing without a configured secret', () => {
+    assert.equal(verifyAdminSecret('', ''), false);
+    assert.equal(verifyAdminSecret('letmein', undefined), false);
+  });
+});
@@ -0,0 +1,181 @@
+import { createHmac, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { User } from '@shared/schema';
+
+// Length of the truncated HMAC appended to authenticated datagrams
+export const DATAGRAM_MAC_LENGTH = 16;
+
+const PASSWORD_HASH_PREFIX = 'scrypt';
+const PASSWORD_KEY_LENGTH = 64;
+const HEX_PATTERN = /^(?:[0-9a-f]{2})+$/i;
+
+// Hashing runs on the libuv thread pool, so logins don't stall the game loop
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+// Claims carried inside a session token
+export interface SessionClaims {
+  sessionId: string;
+  userId: number;
+  username: string;
+  address: string;   // Client address the token is bound to
+  expiresAt: number; // Milliseconds since epoch
+}
+
+// What a client receives after logging in over HTTP
+export interface IssuedSession {
+  token: string;
+  sessionKey: string; // Base64 key the client uses to sign its datagrams
+  expiresAt: number;
+}
+
+export type TokenVerificationResult =
+  | { valid: true; claims: SessionClaims; sessionKey: Buffer }
+  | { valid: false; reason: string };
+
+// Strip the IPv4-mapped IPv6 prefix so HTTP and UDP addresses compare equal
+export function normalizeAddress(address: string): string {
+  return address.startsWith('::ffff:') ? address.substring(7) : address;
+}
+
+// Compute the MAC trailer for a datagram
+export function signDatagram(sessionKey: Buffer, data: Buffer): Buffer {
+  return createHmac('sha256', sessionKey).update(data).digest().subarray(0, DATAGRAM_MAC_LENGTH);
+}
+
+// Check a datagram's MAC trailer, returning the payload without it if valid
+export function verifyDatagram(sessionKey: Buffer, datagram: Buffer): Buffer | null {
+  if (datagram.length <= DATAGRAM_MAC_LENGTH) {
+    return null;
+  }
+
+  const payload = datagram.subarray(0, datagram.length - DATAGRAM_MAC_LENGTH);
+  const mac = datagram.subarray(datagram.length - DATAGRAM_MAC_LENGTH);
+
+  return timingSafeEqual(mac, signDatagram(sessionKey, payload)) ? payload : null;
+}
+
+// Check a secret presented by an admin request. Both sides are hashed first so the comparison takes
+// the same time whatever their lengths. Without a configured secret nothing matches.
+export function verifyAdminSecret(presented: string | undefined, secret: string | undefined): boolean {
+  if (!secret || !presented) {
+    return false;
+  }
+
+  const digest = (value: string) => createHmac('sha256', 'admin-secret').update(value).digest();
+  return timingSafeEqual(digest(presented), digest(secret));
+}
+
+// Authentication manager for password checks and signed session tokens
+export class AuthManager {
+  private secret: Buffer;
+  private tokenLifetime: number;
+
+  constructor(secret?: string, tokenLifetime: number = 12 * 60 * 60 * 1000) {
+    if (secret) {
+      this.secret = Buffer.from(secret, 'utf8');
+    } else {
+      // Tokens signed with a random secret do not survive a restart
+      console.warn('SESSION_SECRET is not set, using a random secret for session tokens');
+      this.secret = randomBytes(32);
+    }
+    this.tokenLifetime = tokenLifetime;
+  }
+
+  // Hash a password for storage
+  async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+    return `${PASSWORD_HASH_PREFIX}$${salt.toString('hex')}$${hash.toString('hex')}`;
+  }
+
+  // Whether a stored password is a hash. Accounts created before hashing was introduced store
+  // the password as-is, and cannot log in until an admin resets it.
+  isPasswordHashed(storedPassword: string): boolean {
+    const [prefix, saltHex, hashHex, ...rest] = storedPassword.split('$');
+    return prefix === PASSWORD_HASH_PREFIX && rest.length === 0 &&
+      HEX_PATTERN.test(saltHex ?? '') && HEX_PATTERN.test(hashHex ?? '') &&
+      hashHex.length === PASSWORD_KEY_LENGTH * 2;
+  }
+
+  // Check a password against a stored hash. Unhashed passwords never match.
+  async verifyPassword(password: string, storedPassword: string): Promise<boolean> {
+    if (!this.isPasswordHashed(storedPassword)) {
+      return false;
+    }
+
+    const [, saltHex, hashHex] = storedPassword.split('$');
+    const expected = Buffer.from(hashHex, 'hex');
+    if (expected.length !== PASSWORD_KEY_LENGTH) {
+      return false;
+    }
+
+    const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+    return timingSafeEqual(actual, expected);
+  }
+
+  // Issue a session token for a user, bound to the address they logged in from
+  issueSession(user: User, address: string): IssuedSession {
+    const claims: SessionClaims = {
+      sessionId: randomUUID(),
+      userId: user.id,
+      username: user.username,
+      address: normalizeAddress(address),
+      expiresAt: Date.now() + this.tokenLifetime
+    };
+
+    const payload = Buffer.from(JSON.stringify(claims), 'utf8').toString('base64url');
+    const signature = this.sign(payload).toString('base64url');
+
+    return {
+      token: `${payload}.${signature}`,
+      sessionKey: this.deriveSessionKey(claims.sessionId).toString('base64'),
+      expiresAt: claims.expiresAt
+    };
+  }
+
+  // Verify a session token presented by a client at the given address
+  verifyToken(token: string, address: string): TokenVerificationResult {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) {
+      return { valid: false, reason: 'Malformed session token' };
+    }
+
+    const expected = this.sign(payload);
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      return { valid: false, reason: 'Invalid session token' };
+    }
+
+    let claims: SessionClaims;
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch (error) {
+      return { valid: false, reason: 'Malformed session token' };
+    }
+
+    if (claims.expiresAt < Date.now()) {
+      return { valid: false, reason: 'Session token expired' };
+    }
+
+    if (claims.address !== normalizeAddress(address)) {
+      return { valid: false, reason: 'Session token was issued to a different address' };
+    }
+
+    return {
+      valid: true,
+      claims,
+      sessionKey: this.deriveSessionKey(claims.sessionId)
+    };
+  }
+
+  private sign(payload: string): Buffer {
+    return createHmac('sha256', this.secret).update(payload).digest();
+  }
+
+  // The datagram key is derived from the session so it never needs to be stored
+  private deriveSessionKey(sessionId: string): Buffer {
+    return createHmac('sha256', this.secret).update(`datagram:${sessionId}`).digest();
+  }
+}
+
+export const authManager = new AuthManager(process.env.SESSION_SECRET);
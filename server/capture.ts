@@ -0,0 +1,163 @@
+import fs from 'fs';
+import path from 'path';
+import { CaptureStatus } from '@shared/types';
+import { WireWriter, WireReader } from './codec';
+
+// Captures are only written to and read from this directory, relative to the working directory
+export const CAPTURE_DIRECTORY = 'captures';
+
+// Start of every capture file, followed by the records
+const CAPTURE_MAGIC = Buffer.from('SMMOCAP1', 'ascii');
+
+// What a record describes: a datagram or stream message received or sent, the client ID a
+// connect was assigned, or a stream connection that closed
+export type CaptureRecordKind = 'received' | 'sent' | 'assigned' | 'closed';
+export type CaptureTransport = 'udp' | 'stream';
+
+// Order is part of the file format, new values must be appended
+const RECORD_KINDS: CaptureRecordKind[] = ['received', 'sent', 'assigned', 'closed'];
+const TRANSPORTS: CaptureTransport[] = ['udp', 'stream'];
+
+export interface CaptureRecord {
+  time: number;      // Milliseconds since epoch
+  kind: CaptureRecordKind;
+  transport: CaptureTransport;
+  address: string;   // Remote address and port
+  port: number;
+  clientId: string;  // Empty for datagrams from unknown clients
+  data: Buffer;      // The datagram as it was on the wire, including any MAC trailer
+}
+
+export interface CaptureSettings {
+  maxBytes: number; // The capture stops itself once the file reaches this size
+}
+
+// Records every datagram the UDP server receives and sends to a capture file, so protocol
+// issues can be inspected offline or replayed into a fresh server (see server/replay.ts).
+// Record layout: time u64, kind u8, transport u8, address string, port u16, client ID string,
+// data length u32, then the data.
+export class PacketCapture {
+  private settings: CaptureSettings;
+  private stream: fs.WriteStream;
+  private startedAt: number = Date.now();
+  private records: number = 0;
+  private bytes: number = CAPTURE_MAGIC.length;
+  private active: boolean = true;
+
+  constructor(
+    readonly file: string,
+    settings: CaptureSettings = {
+      maxBytes: 256 * 1024 * 1024
+    }
+  ) {
+    this.settings = settings;
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    this.stream = fs.createWriteStream(file);
+    this.stream.on('error', (err) => {
+      console.error(`Packet capture ${file} failed: ${err.message}`);
+      this.active = false;
+    });
+    this.stream.write(CAPTURE_MAGIC);
+  }
+
+  // Append a record. Returns false once the capture has stopped, including when this record
+  // would have exceeded the size limit.
+  record(
+    kind: CaptureRecordKind,
+    transport: CaptureTransport,
+    address: string,
+    port: number,
+    clientId: string,
+    data: Buffer = Buffer.alloc(0)
+  ): boolean {
+    if (!this.active) {
+      return false;
+    }
+
+    const writer = new WireWriter(64 + data.length);
+    writer.u64(Date.now());
+    writer.u8(RECORD_KINDS.indexOf(kind));
+    writer.u8(TRANSPORTS.indexOf(transport));
+    writer.string(address);
+    writer.u16(port);
+    writer.string(clientId);
+    writer.u32(data.length);
+    writer.bytes(data);
+    const buffer = writer.toBuffer();
+
+    if (this.bytes + buffer.length > this.settings.maxBytes) {
+      this.active = false;
+      return false;
+    }
+
+    this.stream.write(buffer);
+    this.records++;
+    this.bytes += buffer.length;
+    return true;
+  }
+
+  getStatus(): CaptureStatus {
+    return {
+      file: this.file,
+      startedAt: this.startedAt,
+      records: this.records,
+      bytes: this.bytes,
+      active: this.active
+    };
+  }
+
+  // Stop recording and wait until everything has been written
+  close(): Promise<CaptureStatus> {
+    this.active = false;
+    return new Promise(resolve => {
+      this.stream.end(() => resolve(this.getStatus()));
+    });
+  }
+}
+
+// Path for a capture file name from an admin request, or null if the name would leave the
+// capture directory. Without a name, one is made from the current time.
+export function resolveCapturePath(name?: string): string | null {
+  const fileName = name || `capture-${new Date().toISOString().replace(/[:.]/g, '-')}.smcap`;
+  if (path.basename(fileName) !== fileName || fileName.startsWith('.')) {
+    return null;
+  }
+  return path.resolve(CAPTURE_DIRECTORY, fileName);
+}
+
+// Read all records of a capture file. A record cut off at the end of the file, as left by a
+// server that stopped while capturing, is ignored.
+export function readCapture(file: string): CaptureRecord[] {
+  const contents = fs.readFileSync(file);
+  if (contents.length < CAPTURE_MAGIC.length || !contents.subarray(0, CAPTURE_MAGIC.length).equals(CAPTURE_MAGIC)) {
+    throw new Error(`${file} is not a packet capture`);
+  }
+
+  const reader = new WireReader(contents, CAPTURE_MAGIC.length);
+  const records: CaptureRecord[] = [];
+  while (reader.remaining() > 0) {
+    try {
+      const time = reader.u64();
+      const kind = RECORD_KINDS[reader.u8()];
+      const transport = TRANSPORTS[reader.u8()];
+      const address = reader.string();
+      const port = reader.u16();
+      const clientId = reader.string();
+      const data = reader.bytes(reader.u32());
+
+      if (!kind || !transport) {
+        throw new Error(`Unknown record kind or transport at offset ${reader.offset}`);
+      }
+
+      records.push({ time, kind, transport, address, port, clientId, data });
+    } catch (error) {
+      if (error instanceof RangeError) {
+        console.warn(`Ignoring truncated record at the end of ${file}`);
+        break;
+      }
+      throw error;
+    }
+  }
+
+  return records;
+}
@@ -0,0 +1,161 @@
+// Reliability bookkeeping for the UDP channels: duplicate detection and ack
+// bitfields, in-order delivery and RTT-based retransmission timeouts.
+
+const SEQUENCE_MODULO = 0x100000000; // Message sequences are 32-bit
+const ORDER_SEQUENCE_MODULO = 0x10000; // Ordered channel sequences are 16-bit
+
+// Number of earlier sequences covered by an ack bitfield
+export const ACK_BITFIELD_SIZE = 32;
+
+// Whether sequence a comes after sequence b, tolerating wrap-around
+export function isSequenceNewer(a: number, b: number, modulo: number = SEQUENCE_MODULO): boolean {
+  const diff = (a - b + modulo) % modulo;
+  return diff > 0 && diff < modulo / 2;
+}
+
+// Distance from b forward to a, tolerating wrap-around
+export function sequenceDistance(a: number, b: number, modulo: number = SEQUENCE_MODULO): number {
+  return (a - b + modulo) % modulo;
+}
+
+// Tracks which sequences have been received recently, for deduplication and acks
+export class ReceiveWindow {
+  private latest: number | null = null;
+  private history: number = 0; // Bit i set means latest - (i + 1) was received
+
+  // Record a received sequence, returning false if it was already seen or is too old to tell
+  record(sequence: number): boolean {
+    if (this.latest === null) {
+      this.latest = sequence;
+      return true;
+    }
+
+    if (sequence === this.latest) {
+      return false;
+    }
+
+    if (isSequenceNewer(sequence, this.latest)) {
+      const shift = sequenceDistance(sequence, this.latest);
+      // The previous latest becomes bit (shift - 1) of the history
+      this.history = shift > ACK_BITFIELD_SIZE
+        ? 0
+        : ((shift === ACK_BITFIELD_SIZE ? 0 : this.history << shift) | (1 << (shift - 1))) >>> 0;
+      this.latest = sequence;
+      return true;
+    }
+
+    const distance = sequenceDistance(this.latest, sequence);
+    if (distance > ACK_BITFIELD_SIZE) {
+      return false; // Outside the window, assume it is a stale duplicate
+    }
+
+    const bit = 1 << (distance - 1);
+    if (this.history & bit) {
+      return false;
+    }
+
+    this.history = (this.history | bit) >>> 0;
+    return true;
+  }
+
+  // Latest received sequence and a bitfield of the 32 before it
+  getAck(): { sequence: number, bitfield: number } | null {
+    if (this.latest === null) {
+      return null;
+    }
+
+    return { sequence: this.latest, bitfield: this.history };
+  }
+}
+
+// Buffers messages on the ordered channel until they can be delivered in sequence
+export class OrderedReceiveBuffer<T> {
+  private expected: number = 0;
+  private pending: Map<number, T> = new Map();
+
+  constructor(private maxPending: number = 256) {}
+
+  // Add a message, returning every message that is now deliverable in order
+  push(orderSequence: number, message: T): T[] {
+    if (orderSequence !== this.expected) {
+      // Old messages were already delivered, future ones wait for the gap to fill
+      if (isSequenceNewer(orderSequence, this.expected, ORDER_SEQUENCE_MODULO) &&
+          this.pending.size < this.maxPending) {
+        this.pending.set(orderSequence, message);
+      }
+      return [];
+    }
+
+    const deliverable = [message];
+    this.expected = (this.expected + 1) % ORDER_SEQUENCE_MODULO;
+
+    let next = this.pending.get(this.expected);
+    while (next !== undefined) {
+      this.pending.delete(this.expected);
+      deliverable.push(next);
+      this.expected = (this.expected + 1) % ORDER_SEQUENCE_MODULO;
+      next = this.pending.get(this.expected);
+    }
+
+    return deliverable;
+  }
+}
+
+// Retransmission timeout settings in milliseconds
+export interface RetransmitSettings {
+  initialTimeout: number; // Used until the first RTT sample
+  minTimeout: number;
+  maxTimeout: number;
+}
+
+// Smoothed RTT estimate and retransmission timeout (Jacobson/Karels)
+export class RttEstimator {
+  private smoothedRtt: number | null = null;
+  private rttVariance: number = 0;
+  private timeout: number;
+
+  constructor(
+    private settings: RetransmitSettings = {
+      initialTimeout: 1000,
+      minTimeout: 200,
+      maxTimeout: 3000
+    }
+  ) {
+    this.timeout = settings.initialTimeout;
+  }
+
+  // Add an RTT sample from a message that was acknowledged without being resent
+  addSample(rtt: number): void {
+    if (this.smoothedRtt === null) {
+      this.smoothedRtt = rtt;
+      this.rttVariance = rtt / 2;
+    } else {
+      this.rttVariance = 0.75 * this.rttVariance + 0.25 * Math.abs(this.smoothedRtt - rtt);
+      this.smoothedRtt = 0.875 * this.smoothedRtt + 0.125 * rtt;
+    }
+
+    this.timeout = Math.min(
+      this.settings.maxTimeout,
+      Math.max(this.settings.minTimeout, this.smoothedRtt + 4 * this.rttVariance)
+    );
+  }
+
+  // Timeout before resending a message that has been sent the given number of times
+  getTimeout(attempts: number): number {
+    // Exponential backoff for repeated losses
+    return Math.min(this.settings.maxTimeout, this.timeout * Math.pow(2, Math.max(0, attempts - 1)));
+  }
+
+  getSmoothedRtt(): number | null {
+    return this.smoothedRtt;
+  }
+
+  getRttVariance(): number {
+    return this.rttVariance;
+  }
+}
+
+// Sequence for the next message on the ordered channel
+export function nextOrderSequence(current: number): number {
+  return (current + 1) % ORDER_SEQUENCE_MODULO;
+}
@@ -0,0 +1,597 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Vector3, Quaternion } from '@shared/math';
+import { MESSAGE_SCHEMAS } from '@shared/messages';
+import {
+  DeliveryChannel, MessageType, MissionType, MissionStatus, MissionDeltaField, MissionState, MissionDelta,
+  ServerMissionUpdateMessage, ServerMissionDeltaMessage, ServerSanityCheckMessage, ClientSanityCheckResponseMessage
+} from '@shared/types';
+import { FieldList, Field, WireType } from '@shared/wire';
+import { BinarySerializerImpl } from './udp';
+import { SanityCheckType } from './sanity';
+
+// Round trips every message layout through the serializer, and checks that truncated and
+// corrupted datagrams are rejected instead of decoding into garbage
+
+const serializer = new BinarySerializerImpl();
+
+const ORIGIN = new Vector3(1000, -2000, 300);
+const CHANNELS = [DeliveryChannel.UNRELIABLE, DeliveryChannel.RELIABLE_UNORDERED, DeliveryChannel.RELIABLE_ORDERED];
+
+// Largest decoding error of quantized transforms (half a quantization step, plus float error)
+const POSITION_TOLERANCE = 1 / 32 + 1e-6;
+const VELOCITY_TOLERANCE = 1 / 20 + 1e-6;
+const ROTATION_TOLERANCE = 0.003;
+
+const MESSAGE_TYPES = Object.keys(MESSAGE_SCHEMAS).map(Number) as MessageType[];
+
+function schemaOf(messageType: MessageType): FieldList {
+  return (MESSAGE_SCHEMAS as Record<number, FieldList>)[messageType];
+}
+
+function layoutOf(fields: FieldList): [string, Field][] {
+  return Object.keys(fields).map(name => {
+    const entry = fields[name];
+    return [name, 'type' in entry ? entry as Field : { type: entry as WireType }];
+  });
+}
+
+function isOptional(field: Field): boolean {
+  return !!field.trailing || field.mask !== undefined || !!field.emptyAsAbsent || field.type.kind === 'origin';
+}
+
+// Deterministic generator, so failures reproduce
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Sample values, exactly representable in their wire types
+class Sampler {
+  private counter = 0;
+
+  constructor(private quantized: boolean, private complete: boolean) {}
+
+  fields(fields: FieldList): any {
+    const value: any = {};
+    const layout = layoutOf(fields);
+
+    layout.forEach(([name, field]) => {
+      const kind = field.type.kind;
+      if (kind === 'padding' || (kind === 'mask' && !field.type.exposed)) {
+        return;
+      }
+      if (kind === 'origin') {
+        if (this.quantized && this.complete) {
+          value[name] = ORIGIN;
+        }
+        return;
+      }
+      if (kind === 'mask') {
+        value[name] = 0; // Exposed, set below from the fields it covers
+        return;
+      }
+      if (isOptional(field) && !this.complete) {
+        return;
+      }
+      value[name] = this.value(field.type);
+    });
+
+    // Exposed masks carry a bit for every masked field that is present
+    layout.forEach(([name, field]) => {
+      if (field.mask !== undefined && value[name] !== undefined && typeof value[field.mask] === 'number') {
+        value[field.mask] |= field.bit!;
+      }
+    });
+
+    return value;
+  }
+
+  value(type: WireType): any {
+    const n = ++this.counter;
+    switch (type.kind) {
+      case 'u8':
+        return n % 0xFF;
+      case 'u16':
+        return 1000 + n;
+      case 'u32':
+        return 0x80000000 + n;
+      case 'u64':
+        return 1760000000000 + n;
+      case 'f32':
+        return Math.fround(n * 1.37);
+      case 'f64':
+        return n * 1.1;
+      case 'string':
+        return n % 2 === 0 ? `value-${n}` : `värde-${n}-★`;
+      case 'vec3':
+        return this.vector(n * 10.3);
+      case 'position':
+        return this.vector(n * 10.3, ORIGIN);
+      case 'velocity':
+        return this.vector(n * 1.7);
+      case 'quat':
+      case 'rotation':
+        return this.rotation(n);
+      case 'bytes':
+        return Buffer.alloc(type.length!, n);
+      case 'rest':
+        return Buffer.from([n, n + 1, n + 2, 0, 0xFF]);
+      case 'enum':
+        return type.values![n % type.values!.length];
+      case 'array':
+        return [this.value(type.element!), this.value(type.element!)];
+      case 'struct':
+        return this.fields(type.fields!);
+      case 'flag':
+        return n % 2 === 0;
+      default:
+        throw new Error(`No sample for wire type ${type.kind}`);
+    }
+  }
+
+  private vector(scale: number, offset: Vector3 = Vector3.zero()): Vector3 {
+    return new Vector3(
+      Math.fround(offset.x + scale),
+      Math.fround(offset.y - scale * 0.5),
+      Math.fround(offset.z + scale * 0.25)
+    );
+  }
+
+  // Unit quaternion whose largest component is positive, so smallest-three keeps its sign
+  private rotation(n: number): Quaternion {
+    const x = Math.sin(n) * 0.3;
+    const y = Math.cos(n) * 0.2;
+    const z = 0.1;
+    const w = Math.sqrt(1 - x * x - y * y - z * z);
+    return new Quaternion(Math.fround(x), Math.fround(y), Math.fround(z), Math.fround(w));
+  }
+}
+
+function sampleMessage(messageType: MessageType, channel: DeliveryChannel, quantized: boolean, complete: boolean): any {
+  const header: any = {
+    messageType,
+    channel,
+    sequence: 0xFFFFFF00 + messageType,
+    timestamp: 1760000000000 + messageType,
+    clientId: `client-${messageType}`
+  };
+  if (channel === DeliveryChannel.RELIABLE_ORDERED) {
+    header.orderSequence = 0xFFFF - messageType;
+  }
+
+  return { ...header, ...new Sampler(quantized, complete).fields(schemaOf(messageType)) };
+}
+
+// What decoding a sample gives back: absent trailing fields with a `missing` value decode as it,
+// and quantized messages always carry an origin
+function expectedFields(fields: FieldList, value: any, quantized: boolean): any {
+  const expected: any = { ...value };
+  layoutOf(fields).forEach(([name, field]) => {
+    if (expected[name] === undefined && field.trailing && field.missing !== undefined) {
+      expected[name] = field.missing;
+    }
+    if (expected[name] === undefined && field.type.kind === 'origin' && quantized) {
+      expected[name] = Vector3.zero();
+    }
+    if (expected[name] !== undefined && field.type.kind === 'struct') {
+      expected[name] = expectedFields(field.type.fields!, expected[name], quantized);
+    }
+  });
+  return expected;
+}
+
+function assertNumber(actual: number, expected: number, tolerance: number, path: string): void {
+  if (Number.isNaN(expected)) {
+    assert.ok(Number.isNaN(actual), `${path}: expected NaN, got ${actual}`);
+    return;
+  }
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${path}: expected ${expected}, got ${actual}`);
+}
+
+function assertVector(actual: any, expected: Vector3, tolerance: number, path: string): void {
+  assert.ok(actual instanceof Vector3, `${path}: expected a Vector3`);
+  assertNumber(actual.x, expected.x, tolerance, `${path}.x`);
+  assertNumber(actual.y, expected.y, tolerance, `${path}.y`);
+  assertNumber(actual.z, expected.z, tolerance, `${path}.z`);
+}
+
+// q and -q are the same rotation, and smallest-three may return either
+function assertRotation(actual: any, expected: Quaternion, tolerance: number, path: string): void {
+  assert.ok(actual instanceof Quaternion, `${path}: expected a Quaternion`);
+  const dot = actual.x * expected.x + actual.y * expected.y + actual.z * expected.z + actual.w * expected.w;
+  const sign = tolerance > 0 && dot < 0 ? -1 : 1;
+  assertNumber(actual.x * sign, expected.x, tolerance, `${path}.x`);
+  assertNumber(actual.y * sign, expected.y, tolerance, `${path}.y`);
+  assertNumber(actual.z * sign, expected.z, tolerance, `${path}.z`);
+  assertNumber(actual.w * sign, expected.w, tolerance, `${path}.w`);
+}
+
+// Compares a decoded value with the expected one, allowing for quantization where the layout
+// and mode call for it
+function assertValue(type: WireType, actual: any, expected: any, quantized: boolean, path: string): void {
+  switch (type.kind) {
+    case 'f32':
+    case 'f64':
+      assertNumber(actual, expected, 0, path);
+      return;
+    case 'vec3':
+      assertVector(actual, expected, 0, path);
+      return;
+    case 'position':
+      assertVector(actual, expected, quantized ? POSITION_TOLERANCE : 0, path);
+      return;
+    case 'velocity':
+      assertVector(actual, expected, quantized ? VELOCITY_TOLERANCE : 0, path);
+      return;
+    case 'quat':
+      assertRotation(actual, expected, 0, path);
+      return;
+    case 'rotation':
+      assertRotation(actual, expected, quantized ? ROTATION_TOLERANCE : 0, path);
+      return;
+    case 'array':
+      assert.ok(Array.isArray(actual), `${path}: expected an array`);
+      assert.equal(actual.length, expected.length, `${path}: length`);
+      expected.forEach((element: any, i: number) => assertValue(type.element!, actual[i], element, quantized, `${path}[${i}]`));
+      return;
+    case 'struct':
+      assertFields(type.fields!, actual, expected, quantized && !type.fullPrecision, path);
+      return;
+    default:
+      assert.deepEqual(actual, expected, path);
+  }
+}
+
+function assertFields(fields: FieldList, actual: any, expected: any, quantized: boolean, path: string): void {
+  const layout = layoutOf(fields);
+  const names = layout.map(([name]) => name);
+
+  Object.keys(actual).forEach(name => {
+    assert.ok(names.includes(name), `${path}: unexpected field '${name}'`);
+  });
+
+  layout.forEach(([name, field]) => {
+    const fieldPath = path ? `${path}.${name}` : name;
+    if (expected[name] === undefined) {
+      assert.equal(actual[name], undefined, `${fieldPath}: expected to be absent`);
+      return;
+    }
+    assert.notEqual(actual[name], undefined, `${fieldPath}: missing`);
+
+    if (field.type.kind === 'origin') {
+      assertVector(actual[name], expected[name], 0, fieldPath);
+    } else if (field.type.kind === 'mask' || field.type.kind === 'flag') {
+      assert.equal(actual[name], expected[name], fieldPath);
+    } else {
+      assertValue(field.type, actual[name], expected[name], quantized, fieldPath);
+    }
+  });
+}
+
+const HEADER_FIELDS = ['messageType', 'channel', 'sequence', 'timestamp', 'clientId', 'orderSequence'];
+
+// Compares a decoded message with the expected one
+function assertMessage(actual: any, expected: any, quantized: boolean): void {
+  HEADER_FIELDS.forEach(name => assert.equal(actual[name], expected[name], `header ${name}`));
+
+  const body = (message: any) => {
+    const fields: any = { ...message };
+    HEADER_FIELDS.forEach(name => delete fields[name]);
+    return fields;
+  };
+
+  const schema = schemaOf(expected.messageType);
+  const hasOrigin = layoutOf(schema).some(([, field]) => field.type.kind === 'origin');
+  assertFields(schema, body(actual), expectedFields(schema, body(expected), quantized), quantized && hasOrigin, '');
+}
+
+// A decoded datagram is only acceptable if it is a well-formed message: every field has a value
+// and encoding it again decodes to the same message
+function assertWellFormed(message: any, quantized: boolean): void {
+  assert.ok(message.messageType in MessageType, `unknown message type ${message.messageType}`);
+
+  const walk = (value: any, path: string) => {
+    assert.notEqual(value, undefined, `${path} decoded as undefined`);
+    if (value !== null && typeof value === 'object' && !Buffer.isBuffer(value)) {
+      Object.keys(value).forEach(key => walk(value[key], `${path}.${key}`));
+    }
+  };
+  walk(message, 'message');
+
+  const options = { quantized };
+  const again = serializer.deserializeMessage(serializer.serializeMessage(message, options), options);
+  assertMessage(again, message, quantized);
+}
+
+function decodeOrReject(buffer: Buffer, quantized: boolean): void {
+  let message: any;
+  try {
+    message = serializer.deserializeMessage(buffer, { quantized });
+  } catch (error) {
+    assert.ok(error instanceof RangeError, `expected a RangeError, got ${error}`);
+    return;
+  }
+  assertWellFormed(message, quantized);
+}
+
+describe('message codec round trips', () => {
+  [false, true].forEach(quantized => {
+    const mode = quantized ? 'quantized' : 'unquantized';
+
+    MESSAGE_TYPES.forEach(messageType => {
+      it(`${MessageType[messageType]} with every field (${mode})`, () => {
+        CHANNELS.forEach(channel => {
+          const message = sampleMessage(messageType, channel, quantized, true);
+          const options = { quantized };
+          const decoded = serializer.deserializeMessage(serializer.serializeMessage(message, options), options);
+          assertMessage(decoded, message, quantized);
+        });
+      });
+
+      it(`${MessageType[messageType]} with only required fields (${mode})`, () => {
+        const message = sampleMessage(messageType, DeliveryChannel.UNRELIABLE, quantized, false);
+        const options = { quantized };
+        const decoded = serializer.deserializeMessage(serializer.serializeMessage(message, options), options);
+        assertMessage(decoded, message, quantized);
+      });
+    });
+  });
+
+  it('rejects unknown message types', () => {
+    assert.throws(() => serializer.deserializeMessage(serializer.serializeMessage({
+      messageType: 63, channel: DeliveryChannel.UNRELIABLE, sequence: 1, timestamp: 1, clientId: ''
+    })), RangeError);
+  });
+
+  it('fails on a missing required field', () => {
+    const message = sampleMessage(MessageType.CLIENT_DISCONNECT, DeliveryChannel.UNRELIABLE, false, true);
+    delete message.reason;
+    assert.throws(() => serializer.serializeMessage(message), TypeError);
+  });
+});
+
+describe('message codec rejects bad input', () => {
+  it('rejects an out-of-range enum index', () => {
+    const message = sampleMessage(MessageType.SERVER_SANITY_CHECK, DeliveryChannel.UNRELIABLE, false, true);
+    message.checkType = 'position';
+    const buffer = serializer.serializeMessage(message);
+
+    // checkType follows the header and the u32 check ID
+    const headerLength = serializer.serializeMessageHeader(message).length;
+    buffer[headerLength + 4] = 200;
+    assert.throws(() => serializer.deserializeMessage(buffer), RangeError);
+  });
+
+  it('rejects an unknown delivery channel', () => {
+    const buffer = serializer.serializeMessage(sampleMessage(MessageType.CLIENT_PING, DeliveryChannel.UNRELIABLE, false, true));
+    buffer[0] |= 3 << 6;
+    assert.throws(() => serializer.deserializeMessage(buffer), RangeError);
+  });
+
+  it('rejects a handshake group that ends partway through', () => {
+    const message = sampleMessage(MessageType.CLIENT_CONNECT, DeliveryChannel.UNRELIABLE, false, false);
+    message.protocolVersion = 2;
+    message.capabilities = 0;
+    message.supportedMessageTypes = [];
+    const buffer = serializer.serializeMessage(message);
+
+    // Drop the supported message type count, the last byte of the group
+    assert.throws(() => serializer.deserializeMessage(buffer.subarray(0, buffer.length - 1)), RangeError);
+  });
+
+  [false, true].forEach(quantized => {
+    const mode = quantized ? 'quantized' : 'unquantized';
+
+    it(`rejects or cleanly decodes every truncation of every message (${mode})`, () => {
+      MESSAGE_TYPES.forEach(messageType => {
+        CHANNELS.forEach(channel => {
+          const buffer = serializer.serializeMessage(sampleMessage(messageType, channel, quantized, true), { quantized });
+          for (let length = 0; length < buffer.length; length++) {
+            decodeOrReject(buffer.subarray(0, length), quantized);
+          }
+        });
+      });
+    });
+  });
+
+  it('rejects or cleanly decodes random buffers', () => {
+    const random = createRandom(0x5EED);
+    for (let i = 0; i < 5000; i++) {
+      const buffer = Buffer.alloc(Math.floor(random() * 96));
+      for (let j = 0; j < buffer.length; j++) {
+        buffer[j] = Math.floor(random() * 256);
+      }
+
+      // Mostly valid types and short client IDs, so the fuzzing reaches the message bodies
+      if (buffer.length >= 15 && random() < 0.9) {
+        buffer[0] = MESSAGE_TYPES[Math.floor(random() * MESSAGE_TYPES.length)] | (Math.floor(random() * 3) << 6);
+        buffer.writeUInt16LE(Math.floor(random() * 4), 13);
+      }
+
+      decodeOrReject(buffer, false);
+    }
+  });
+
+  it('rejects or cleanly decodes corrupted messages', () => {
+    const random = createRandom(0xC0FFEE);
+    MESSAGE_TYPES.forEach(messageType => {
+      const original = serializer.serializeMessage(sampleMessage(messageType, DeliveryChannel.UNRELIABLE, false, true));
+      for (let i = 0; i < 200; i++) {
+        const buffer = Buffer.from(original);
+        const corruptions = 1 + Math.floor(random() * 3);
+        for (let j = 0; j < corruptions; j++) {
+          buffer[Math.floor(random() * buffer.length)] = Math.floor(random() * 256);
+        }
+        decodeOrReject(buffer, false);
+      }
+    });
+  });
+});
+
+function roundTrip<T>(message: T): any {
+  return serializer.deserializeMessage(serializer.serializeMessage(message));
+}
+
+describe('mission messages', () => {
+  const header = {
+    sequence: 41,
+    timestamp: 1760000000000,
+    clientId: 'pilot-1',
+    channel: DeliveryChannel.RELIABLE_ORDERED,
+    orderSequence: 7
+  };
+
+  const mission: MissionState = {
+    missionId: 'mission-1',
+    name: 'Escort the ore hauler',
+    description: 'Keep the hauler alive until it docks at Ceres.',
+    type: MissionType.ESCORT,
+    status: MissionStatus.ACTIVE,
+    difficulty: 4,
+    reward: 12500,
+    startLocationId: 3,
+    endLocationId: 9,
+    progressValue: 0.25,
+    progressTarget: 1,
+    startTime: 1760000000.5,
+    expiryTime: 1760003600.5,
+    assignedFleetId: 'fleet-12',
+    completeTime: 1760001800.25
+  };
+
+  it('round trips SERVER_MISSION_UPDATE', () => {
+    const unassigned: MissionState = { ...mission, missionId: 'mission-2', type: MissionType.PATROL, status: MissionStatus.EXPIRED };
+    delete unassigned.assignedFleetId;
+    delete unassigned.completeTime;
+
+    const message: ServerMissionUpdateMessage = {
+      ...header,
+      messageType: MessageType.SERVER_MISSION_UPDATE,
+      missions: [mission, unassigned]
+    };
+
+    assert.deepEqual(roundTrip(message), message);
+  });
+
+  it('round trips an empty SERVER_MISSION_UPDATE', () => {
+    const message: ServerMissionUpdateMessage = { ...header, messageType: MessageType.SERVER_MISSION_UPDATE, missions: [] };
+    assert.deepEqual(roundTrip(message), message);
+  });
+
+  it('round trips every mission type and status', () => {
+    const missions = Object.values(MissionType).map((type, i) => ({
+      ...mission,
+      missionId: `mission-${type}`,
+      type,
+      status: Object.values(MissionStatus)[i % Object.values(MissionStatus).length]
+    }));
+    const message: ServerMissionUpdateMessage = { ...header, messageType: MessageType.SERVER_MISSION_UPDATE, missions };
+
+    assert.deepEqual(roundTrip(message), message);
+  });
+
+  it('round trips SERVER_MISSION_DELTA with every field mask combination', () => {
+    const fields: [MissionDeltaField, Partial<MissionDelta>][] = [
+      [MissionDeltaField.STATUS, { status: MissionStatus.COMPLETED }],
+      [MissionDeltaField.PROGRESS, { progressValue: 0.75 }],
+      [MissionDeltaField.ASSIGNED_FLEET, { assignedFleetId: 'fleet-7' }],
+      [MissionDeltaField.EXPIRY_TIME, { expiryTime: 1760007200.5 }],
+      [MissionDeltaField.COMPLETE_TIME, { completeTime: 1760002400.75 }]
+    ];
+
+    for (let fieldMask = 0; fieldMask < 1 << fields.length; fieldMask++) {
+      const delta: MissionDelta = { missionId: `mission-${fieldMask}`, fieldMask };
+      fields.forEach(([bit, value]) => {
+        if (fieldMask & bit) {
+          Object.assign(delta, value);
+        }
+      });
+
+      const message: ServerMissionDeltaMessage = {
+        ...header,
+        messageType: MessageType.SERVER_MISSION_DELTA,
+        missions: [delta],
+        removedMissionIds: fieldMask % 3 === 0 ? [] : ['mission-old']
+      };
+
+      assert.deepEqual(roundTrip(message), message, `field mask ${fieldMask}`);
+    }
+  });
+
+  it('round trips an unassigned fleet in SERVER_MISSION_DELTA as an empty ID', () => {
+    const message: ServerMissionDeltaMessage = {
+      ...header,
+      messageType: MessageType.SERVER_MISSION_DELTA,
+      missions: [{ missionId: 'mission-1', fieldMask: MissionDeltaField.ASSIGNED_FLEET, assignedFleetId: '' }],
+      removedMissionIds: []
+    };
+
+    assert.deepEqual(roundTrip(message), message);
+  });
+
+  it('only sends the fields in the mask', () => {
+    const delta: MissionDelta = { missionId: 'mission-1', fieldMask: MissionDeltaField.PROGRESS, progressValue: 0.5, status: MissionStatus.FAILED };
+    const message: ServerMissionDeltaMessage = { ...header, messageType: MessageType.SERVER_MISSION_DELTA, missions: [delta], removedMissionIds: [] };
+
+    const decoded = roundTrip(message);
+    assert.deepEqual(decoded.missions, [{ missionId: 'mission-1', fieldMask: MissionDeltaField.PROGRESS, progressValue: 0.5 }]);
+  });
+});
+
+describe('sanity check messages', () => {
+  const header = {
+    sequence: 12,
+    timestamp: 1760000000000,
+    clientId: 'pilot-1',
+    channel: DeliveryChannel.RELIABLE_UNORDERED
+  };
+
+  it('round trips SERVER_SANITY_CHECK for every check type', () => {
+    const expectedValues: Record<SanityCheckType, Partial<ServerSanityCheckMessage>> = {
+      [SanityCheckType.POSITION]: { expectedValue: { position: new Vector3(1500.5, -20.25, 3) }, tolerance: 10 },
+      [SanityCheckType.VELOCITY]: { expectedValue: { velocity: new Vector3(0, 12.5, -3.75) }, tolerance: 50 },
+      [SanityCheckType.ACCELERATION]: {},
+      [SanityCheckType.COLLISION]: {}
+    };
+
+    Object.values(SanityCheckType).forEach((checkType, checkId) => {
+      const message: ServerSanityCheckMessage = {
+        ...header,
+        messageType: MessageType.SERVER_SANITY_CHECK,
+        checkId,
+        checkType,
+        ...expectedValues[checkType]
+      };
+
+      assert.deepEqual(roundTrip(message), message, checkType);
+    });
+  });
+
+  it('round trips CLIENT_SANITY_CHECK_RESPONSE with each reported value', () => {
+    const reportedValues = [
+      { position: new Vector3(1500.5, -20.25, 3) },
+      { velocity: new Vector3(0, 12.5, -3.75) },
+      { acceleration: new Vector3(0.5, 0, -9.75) },
+      { collision: true },
+      { collision: false },
+      { position: new Vector3(1, 2, 3), velocity: new Vector3(4, 5, 6), acceleration: new Vector3(7, 8, 9), collision: true },
+      {}
+    ];
+
+    reportedValues.forEach((reportedValue, checkId) => {
+      const message: ClientSanityCheckResponseMessage = {
+        ...header,
+        messageType: MessageType.CLIENT_SANITY_CHECK_RESPONSE,
+        checkId,
+        reportedValue
+      };
+
+      assert.deepEqual(roundTrip(message), message, JSON.stringify(reportedValue));
+    });
+  });
+});
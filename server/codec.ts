@@ -0,0 +1,671 @@
+import { Vector3, Quaternion } from '@shared/math';
+import { WireType, FieldList, Field } from '@shared/wire';
+
+// Encoder and decoder for the layouts described with shared/wire.ts
+
+// Quantized encoding parameters (used for clients that negotiate it at connect)
+const POSITION_STEPS_PER_UNIT = 16; // 24-bit offsets from the area center, covers +/-524288 units
+const POSITION_MAX_STEPS = 0x7FFFFF;
+const VELOCITY_STEPS_PER_UNIT = 10; // 16-bit values, covers +/-3276 units/s
+const VELOCITY_MAX_STEPS = 0x7FFF;
+const ROTATION_COMPONENT_MAX = 0x3FF; // 10 bits per smallest-three component
+
+const INTEGER_MAX: Record<string, number> = { u8: 0xFF, u16: 0xFFFF, u32: 0xFFFFFFFF, u64: Number.MAX_SAFE_INTEGER };
+
+// Quantization state of the message being encoded or decoded
+export interface CodecContext {
+  quantized: boolean; // Client negotiated quantized encoding, so the message carries an origin
+  origin?: Vector3;   // Set once the origin has been written or read
+}
+
+// Writes into one growing buffer, so a message is not assembled from many small ones
+export class WireWriter {
+  private buffer: Buffer;
+  private offset: number = 0;
+
+  constructor(initialSize: number = 256) {
+    this.buffer = Buffer.alloc(initialSize);
+  }
+
+  u8(value: number): void {
+    this.reserve(1);
+    this.offset = this.buffer.writeUInt8(value, this.offset);
+  }
+
+  u16(value: number): void {
+    this.reserve(2);
+    this.offset = this.buffer.writeUInt16LE(value, this.offset);
+  }
+
+  i16(value: number): void {
+    this.reserve(2);
+    this.offset = this.buffer.writeInt16LE(value, this.offset);
+  }
+
+  i24(value: number): void {
+    this.reserve(3);
+    this.offset = this.buffer.writeIntLE(value, this.offset, 3);
+  }
+
+  u32(value: number): void {
+    this.reserve(4);
+    this.offset = this.buffer.writeUInt32LE(value, this.offset);
+  }
+
+  u64(value: number): void {
+    this.reserve(8);
+    this.offset = this.buffer.writeBigUInt64LE(BigInt(value), this.offset);
+  }
+
+  f32(value: number): void {
+    this.reserve(4);
+    this.offset = this.buffer.writeFloatLE(value, this.offset);
+  }
+
+  f64(value: number): void {
+    this.reserve(8);
+    this.offset = this.buffer.writeDoubleLE(value, this.offset);
+  }
+
+  string(value: string): void {
+    const length = Buffer.byteLength(value, 'utf8');
+    this.u16(length);
+    this.reserve(length);
+    this.offset += this.buffer.write(value, this.offset, 'utf8');
+  }
+
+  bytes(value: Buffer): void {
+    this.reserve(value.length);
+    this.offset += value.copy(this.buffer, this.offset);
+  }
+
+  zeros(length: number): void {
+    this.reserve(length);
+    this.buffer.fill(0, this.offset, this.offset + length);
+    this.offset += length;
+  }
+
+  toBuffer(): Buffer {
+    return this.buffer.subarray(0, this.offset);
+  }
+
+  private reserve(length: number): void {
+    if (this.offset + length <= this.buffer.length) {
+      return;
+    }
+
+    let size = this.buffer.length * 2;
+    while (size < this.offset + length) {
+      size *= 2;
+    }
+
+    const grown = Buffer.alloc(size);
+    this.buffer.copy(grown, 0, 0, this.offset);
+    this.buffer = grown;
+  }
+}
+
+// Reads from a buffer, failing with a RangeError on truncated or out-of-range input
+export class WireReader {
+  constructor(private buffer: Buffer, public offset: number = 0) {}
+
+  remaining(): number {
+    return this.buffer.length - this.offset;
+  }
+
+  u8(): number {
+    return this.buffer.readUInt8(this.offset++);
+  }
+
+  u16(): number {
+    const value = this.buffer.readUInt16LE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  i16(): number {
+    const value = this.buffer.readInt16LE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  i24(): number {
+    const value = this.buffer.readIntLE(this.offset, 3);
+    this.offset += 3;
+    return value;
+  }
+
+  u32(): number {
+    const value = this.buffer.readUInt32LE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  u64(): number {
+    const value = this.buffer.readBigUInt64LE(this.offset);
+    if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new RangeError(`u64 value ${value} at offset ${this.offset} exceeds 2^53`);
+    }
+    this.offset += 8;
+    return Number(value);
+  }
+
+  f32(): number {
+    const value = this.buffer.readFloatLE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  f64(): number {
+    const value = this.buffer.readDoubleLE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  string(): string {
+    const length = this.u16();
+    this.ensure(length);
+    const value = this.buffer.toString('utf8', this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  // Copied, so the value outlives the datagram buffer
+  bytes(length: number): Buffer {
+    this.ensure(length);
+    const value = Buffer.from(this.buffer.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+
+  rest(): Buffer {
+    const value = this.buffer.subarray(this.offset);
+    this.offset = this.buffer.length;
+    return value;
+  }
+
+  skip(length: number): void {
+    this.ensure(length);
+    this.offset += length;
+  }
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.buffer.length) {
+      throw new RangeError(`Need ${length} bytes at offset ${this.offset}, message has ${this.buffer.length}`);
+    }
+  }
+}
+
+// Field lists normalized once, in wire order
+const layouts: WeakMap<FieldList, [string, Field][]> = new WeakMap();
+
+function getLayout(fields: FieldList): [string, Field][] {
+  let layout = layouts.get(fields);
+  if (!layout) {
+    layout = Object.keys(fields).map(name => {
+      const entry = fields[name];
+      return [name, 'type' in entry ? entry as Field : { type: entry as WireType }];
+    });
+    layouts.set(fields, layout);
+  }
+  return layout;
+}
+
+export function writeValue(writer: WireWriter, type: WireType, value: any, context: CodecContext): void {
+  switch (type.kind) {
+    case 'u8':
+    case 'u16':
+    case 'u32':
+    case 'u64':
+      writeInteger(writer, type, value);
+      break;
+
+    case 'f32':
+      writer.f32(value);
+      break;
+
+    case 'f64':
+      writer.f64(value);
+      break;
+
+    case 'string':
+      writer.string(value);
+      break;
+
+    case 'vec3':
+      writeVector3(writer, value);
+      break;
+
+    case 'quat':
+      writeQuaternion(writer, value);
+      break;
+
+    case 'position':
+      if (context.origin) {
+        writer.i24(quantize(value.x - context.origin.x, POSITION_STEPS_PER_UNIT, POSITION_MAX_STEPS));
+        writer.i24(quantize(value.y - context.origin.y, POSITION_STEPS_PER_UNIT, POSITION_MAX_STEPS));
+        writer.i24(quantize(value.z - context.origin.z, POSITION_STEPS_PER_UNIT, POSITION_MAX_STEPS));
+      } else {
+        writeVector3(writer, value);
+      }
+      break;
+
+    case 'velocity':
+      if (context.origin) {
+        writer.i16(quantize(value.x, VELOCITY_STEPS_PER_UNIT, VELOCITY_MAX_STEPS));
+        writer.i16(quantize(value.y, VELOCITY_STEPS_PER_UNIT, VELOCITY_MAX_STEPS));
+        writer.i16(quantize(value.z, VELOCITY_STEPS_PER_UNIT, VELOCITY_MAX_STEPS));
+      } else {
+        writeVector3(writer, value);
+      }
+      break;
+
+    case 'rotation':
+      if (context.origin) {
+        writer.u32(compressQuaternion(value));
+      } else {
+        writeQuaternion(writer, value);
+      }
+      break;
+
+    case 'bytes':
+      if (value.length !== type.length) {
+        throw new RangeError(`Expected ${type.length} bytes, got ${value.length}`);
+      }
+      writer.bytes(value);
+      break;
+
+    case 'rest':
+      writer.bytes(value);
+      break;
+
+    case 'enum':
+      const index = type.values!.indexOf(value);
+      if (index < 0) {
+        throw new RangeError(`${value} is not one of ${type.values!.join(', ')}`);
+      }
+      writer.u8(index);
+      break;
+
+    case 'array':
+      writeInteger(writer, { kind: type.count! }, value.length);
+      value.forEach((element: any) => writeValue(writer, type.element!, element, context));
+      break;
+
+    case 'struct':
+      writeFields(writer, type.fields!, value, type.fullPrecision ? { quantized: false } : context);
+      break;
+
+    default:
+      throw new Error(`Wire type ${type.kind} can only be used as a struct field`);
+  }
+}
+
+export function readValue(reader: WireReader, type: WireType, context: CodecContext): any {
+  switch (type.kind) {
+    case 'u8':
+      return reader.u8();
+
+    case 'u16':
+      return reader.u16();
+
+    case 'u32':
+      return reader.u32();
+
+    case 'u64':
+      return reader.u64();
+
+    case 'f32':
+      return reader.f32();
+
+    case 'f64':
+      return reader.f64();
+
+    case 'string':
+      return reader.string();
+
+    case 'vec3':
+      return readVector3(reader);
+
+    case 'quat':
+      return readQuaternion(reader);
+
+    case 'position':
+      if (context.origin) {
+        return new Vector3(
+          reader.i24() / POSITION_STEPS_PER_UNIT + context.origin.x,
+          reader.i24() / POSITION_STEPS_PER_UNIT + context.origin.y,
+          reader.i24() / POSITION_STEPS_PER_UNIT + context.origin.z
+        );
+      }
+      return readVector3(reader);
+
+    case 'velocity':
+      if (context.origin) {
+        return new Vector3(
+          reader.i16() / VELOCITY_STEPS_PER_UNIT,
+          reader.i16() / VELOCITY_STEPS_PER_UNIT,
+          reader.i16() / VELOCITY_STEPS_PER_UNIT
+        );
+      }
+      return readVector3(reader);
+
+    case 'rotation':
+      return context.origin ? decompressQuaternion(reader.u32()) : readQuaternion(reader);
+
+    case 'bytes':
+      return reader.bytes(type.length!);
+
+    case 'rest':
+      return reader.rest();
+
+    case 'enum':
+      const valueIndex = reader.u8();
+      if (valueIndex >= type.values!.length) {
+        throw new RangeError(`Enum index ${valueIndex} is out of range, expected one of ${type.values!.length} values`);
+      }
+      return type.values![valueIndex];
+
+    case 'array':
+      const count = type.count === 'u8' ? reader.u8() : reader.u16();
+      const elements = [];
+      for (let i = 0; i < count; i++) {
+        elements.push(readValue(reader, type.element!, context));
+      }
+      return elements;
+
+    case 'struct':
+      return readFields(reader, type.fields!, type.fullPrecision ? { quantized: false } : context);
+
+    default:
+      throw new Error(`Wire type ${type.kind} can only be used as a struct field`);
+  }
+}
+
+export function writeFields(writer: WireWriter, fields: FieldList, value: any, context: CodecContext): void {
+  const layout = getLayout(fields);
+  const masks: Record<string, number> = {};
+
+  // Trailing fields are written up to the last one that is set, or the end of its group
+  let lastTrailing = -1;
+  layout.forEach(([name, field], index) => {
+    if (field.trailing && value[name] != null) {
+      lastTrailing = index;
+    }
+  });
+  if (lastTrailing >= 0 && layout[lastTrailing][1].group) {
+    const group = layout[lastTrailing][1].group;
+    while (lastTrailing + 1 < layout.length && layout[lastTrailing + 1][1].group === group) {
+      lastTrailing++;
+    }
+  }
+
+  layout.forEach(([name, field], index) => {
+    const fieldValue = value[name];
+
+    if (field.trailing && index > lastTrailing) {
+      return;
+    }
+
+    switch (field.type.kind) {
+      case 'mask':
+        masks[name] = field.type.exposed ? (fieldValue || 0) : computeMask(layout, name, value);
+        writer.u8(masks[name]);
+        return;
+
+      case 'padding':
+        writer.zeros(field.type.length!);
+        return;
+
+      case 'origin':
+        if (context.quantized) {
+          context.origin = fieldValue || Vector3.zero();
+          writer.f64(context.origin!.x);
+          writer.f64(context.origin!.y);
+          writer.f64(context.origin!.z);
+        }
+        return;
+
+      case 'flag':
+        return; // Already part of its mask
+    }
+
+    if (field.mask !== undefined && !(masks[field.mask] & field.bit!) && !field.encodeWhenAbsent) {
+      return;
+    }
+
+    if (fieldValue != null) {
+      writeValue(writer, field.type, fieldValue, context);
+    } else if (field.fill !== undefined) {
+      writeValue(writer, field.type, field.fill, context);
+    } else if (field.trailing || field.mask !== undefined || field.emptyAsAbsent) {
+      writeValue(writer, field.type, emptyValue(field.type), context);
+    } else {
+      throw new TypeError(`Missing required field '${name}'`);
+    }
+  });
+}
+
+export function readFields(reader: WireReader, fields: FieldList, context: CodecContext): any {
+  const layout = getLayout(fields);
+  const masks: Record<string, number> = {};
+  const value: any = {};
+  const groupsRead: Set<string> = new Set();
+
+  layout.forEach(([name, field]) => {
+    if (field.trailing && reader.remaining() === 0) {
+      // Trailing groups are written whole, so one that ends partway through is corrupt
+      if (field.group && groupsRead.has(field.group)) {
+        throw new RangeError(`Message ends inside field group '${field.group}' before '${name}'`);
+      }
+      if (field.missing !== undefined) {
+        value[name] = field.missing;
+      }
+      return;
+    }
+
+    if (field.group) {
+      groupsRead.add(field.group);
+    }
+
+    switch (field.type.kind) {
+      case 'mask':
+        masks[name] = reader.u8();
+        if (field.type.exposed) {
+          value[name] = masks[name];
+        }
+        return;
+
+      case 'padding':
+        reader.skip(field.type.length!);
+        return;
+
+      case 'origin':
+        if (context.quantized) {
+          context.origin = new Vector3(reader.f64(), reader.f64(), reader.f64());
+          value[name] = context.origin;
+        }
+        return;
+    }
+
+    if (field.mask !== undefined && !(masks[field.mask] & field.bit!)) {
+      if (field.encodeWhenAbsent) {
+        readValue(reader, field.type, context);
+      }
+      return;
+    }
+
+    if (field.type.kind === 'flag') {
+      value[name] = (masks[field.type.mask!] & field.type.bit!) !== 0;
+      return;
+    }
+
+    const fieldValue = readValue(reader, field.type, context);
+    if (field.emptyAsAbsent && isEmpty(field.type, fieldValue)) {
+      return;
+    }
+    value[name] = fieldValue;
+  });
+
+  return value;
+}
+
+// Serialize a single value, e.g. to measure its encoded size
+export function encodeValue(type: WireType, value: any, origin?: Vector3): Buffer {
+  const writer = new WireWriter(64);
+  writeValue(writer, type, value, { quantized: origin !== undefined, origin });
+  return writer.toBuffer();
+}
+
+export function decodeValue(type: WireType, buffer: Buffer, offset: number, origin?: Vector3): { value: any, bytesRead: number } {
+  const reader = new WireReader(buffer, offset);
+  const value = readValue(reader, type, { quantized: origin !== undefined, origin });
+  return { value, bytesRead: reader.offset - offset };
+}
+
+// Bits of a computed mask: fields that are set, and flags that are true
+function computeMask(layout: [string, Field][], maskName: string, value: any): number {
+  let mask = 0;
+  layout.forEach(([name, field]) => {
+    if (field.mask === maskName && value[name] != null) {
+      mask |= field.bit!;
+    }
+    if (field.type.kind === 'flag' && field.type.mask === maskName && value[name]) {
+      mask |= field.type.bit!;
+    }
+  });
+  return mask;
+}
+
+// Value written for an absent optional field
+function emptyValue(type: WireType): any {
+  switch (type.kind) {
+    case 'string':
+      return '';
+    case 'vec3':
+    case 'position':
+    case 'velocity':
+      return Vector3.zero();
+    case 'quat':
+    case 'rotation':
+      return Quaternion.identity();
+    case 'bytes':
+      return Buffer.alloc(type.length!);
+    case 'rest':
+      return Buffer.alloc(0);
+    case 'enum':
+      return type.values![0];
+    case 'array':
+      return [];
+    case 'struct':
+      return {};
+    case 'flag':
+      return false;
+    default:
+      return 0;
+  }
+}
+
+function isEmpty(type: WireType, value: any): boolean {
+  if (type.kind === 'string') {
+    return value === '';
+  }
+  if (type.kind === 'struct') {
+    return Object.keys(value).length === 0;
+  }
+  return false;
+}
+
+function writeInteger(writer: WireWriter, type: WireType, value: number): void {
+  if (type.clamp) {
+    value = Math.max(0, Math.min(INTEGER_MAX[type.kind], Math.round(value)));
+  }
+
+  switch (type.kind) {
+    case 'u8':
+      writer.u8(value);
+      break;
+    case 'u16':
+      writer.u16(value);
+      break;
+    case 'u32':
+      writer.u32(value >>> 0);
+      break;
+    case 'u64':
+      writer.u64(Math.max(0, Math.floor(value)));
+      break;
+  }
+}
+
+function writeVector3(writer: WireWriter, v: Vector3): void {
+  writer.f32(v.x);
+  writer.f32(v.y);
+  writer.f32(v.z);
+}
+
+function readVector3(reader: WireReader): Vector3 {
+  return new Vector3(reader.f32(), reader.f32(), reader.f32());
+}
+
+function writeQuaternion(writer: WireWriter, q: Quaternion): void {
+  writer.f32(q.x);
+  writer.f32(q.y);
+  writer.f32(q.z);
+  writer.f32(q.w);
+}
+
+function readQuaternion(reader: WireReader): Quaternion {
+  return new Quaternion(reader.f32(), reader.f32(), reader.f32(), reader.f32());
+}
+
+function quantize(value: number, stepsPerUnit: number, maxSteps: number): number {
+  return Math.max(-maxSteps, Math.min(maxSteps, Math.round(value * stepsPerUnit)));
+}
+
+// Smallest-three compression: drop the largest component (recoverable from unit length)
+// and pack its index (2 bits) with the other three at 10 bits each
+function compressQuaternion(q: Quaternion): number {
+  const length = Math.sqrt(q.x * q.x + q.y * q.y + q.z * q.z + q.w * q.w);
+  const components = length > 0
+    ? [q.x / length, q.y / length, q.z / length, q.w / length]
+    : [0, 0, 0, 1];
+
+  let largestIndex = 0;
+  for (let i = 1; i < 4; i++) {
+    if (Math.abs(components[i]) > Math.abs(components[largestIndex])) {
+      largestIndex = i;
+    }
+  }
+
+  // q and -q are the same rotation, so make the dropped component positive
+  const sign = components[largestIndex] < 0 ? -1 : 1;
+
+  let packed = largestIndex;
+  for (let i = 0; i < 4; i++) {
+    if (i === largestIndex) continue;
+    // Remaining components lie within +/-1/sqrt(2)
+    const normalized = (components[i] * sign * Math.SQRT2 + 1) / 2;
+    const quantized = Math.round(Math.max(0, Math.min(1, normalized)) * ROTATION_COMPONENT_MAX);
+    packed = (packed << 10) | quantized;
+  }
+
+  return packed >>> 0;
+}
+
+function decompressQuaternion(packed: number): Quaternion {
+  const largestIndex = packed >>> 30;
+
+  const components = [0, 0, 0, 0];
+  let sumOfSquares = 0;
+  let shift = 20;
+  for (let i = 0; i < 4; i++) {
+    if (i === largestIndex) continue;
+    const quantized = (packed >>> shift) & ROTATION_COMPONENT_MAX;
+    components[i] = (quantized / ROTATION_COMPONENT_MAX * 2 - 1) / Math.SQRT2;
+    sumOfSquares += components[i] * components[i];
+    shift -= 10;
+  }
+  components[largestIndex] = Math.sqrt(Math.max(0, 1 - sumOfSquares));
+
+  return new Quaternion(components[0], components[1], components[2], components[3]);
+}
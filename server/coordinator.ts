@@ -0,0 +1,419 @@
+import { fork, ChildProcess } from 'child_process';
+import { fileURLToPath } from 'url';
+import { Vector3, Quaternion } from '@shared/math';
+import { ClientInputMessage, ProtocolCapability, ShardStatus } from '@shared/types';
+import { UDPServer } from './udp';
+import { AOIManager, AOIEntity, AreaMove } from './aoi';
+import { GameStateManager } from './state';
+import { hasCapability } from './protocol';
+import type { CoordinatorMessage, ShardMessage, ShardArea, ShardGhost, ShardPlayerState } from './shard';
+
+// Shard processes run server/shard.ts, next to this module both in the sources and in the build.
+// From the sources they load tsx themselves, which is resolved from here, and is pointed at
+// the project's path aliases since the working directory may be elsewhere.
+const RUNNING_FROM_SOURCE = import.meta.url.endsWith('.ts');
+const SHARD_ENTRY = fileURLToPath(new URL(RUNNING_FROM_SOURCE ? './shard.ts' : './shard.js', import.meta.url));
+const SHARD_EXEC_ARGV = RUNNING_FROM_SOURCE ? ['--import', import.meta.resolve('tsx')] : [];
+const SHARD_SOURCE_ENV: NodeJS.ProcessEnv = RUNNING_FROM_SOURCE
+  ? { TSX_TSCONFIG_PATH: fileURLToPath(new URL('../tsconfig.json', import.meta.url)) }
+  : {};
+
+export interface ShardSettings {
+  ghostMargin: number;  // Distance beyond twice an area's radius within which entities are mirrored to its shard
+  restartDelay: number; // Milliseconds before a shard process that exited is started again
+}
+
+interface Shard {
+  id: number;
+  process: ChildProcess | null;
+  players: Set<string>;
+  areaSignature: string; // Areas last sent to the shard
+  status: ShardStatus;
+}
+
+// Runs the player simulation and state replication of the areas of interest in separate
+// shard processes on this machine, while the main process keeps the game socket, NPCs,
+// celestial bodies and the global AOI system.
+//
+// Each area belongs to one shard, and each player to the shard of its area. Inputs and
+// snapshot acks are routed to the player's shard, which sends back the states it integrated
+// and the state updates it built. When a player enters an area of another shard it migrates
+// there with its input and snapshot sequences, and gets a full snapshot from its new shard.
+// Entities simulated elsewhere that a shard's players can see are mirrored to it every tick.
+export class ShardCoordinator {
+  private shards: Shard[] = [];
+  private areaShards: Map<string, number> = new Map();
+  private playerShards: Map<string, number> = new Map();
+  private lastSnapshotIds: Map<string, number> = new Map(); // Last snapshot sent to each client
+  private lastInputSequences: Map<string, number> = new Map();
+  private stateUpdateBudget: number = 1000;
+  private settings: ShardSettings;
+  private stopping: boolean = false;
+
+  constructor(
+    private udpServer: UDPServer,
+    private aoiManager: AOIManager,
+    private gameStateManager: GameStateManager,
+    shardCount: number,
+    settings: ShardSettings = {
+      ghostMargin: 500,
+      restartDelay: 1000
+    }
+  ) {
+    this.settings = settings;
+
+    for (let id = 0; id < shardCount; id++) {
+      this.shards.push({
+        id,
+        process: null,
+        players: new Set(),
+        areaSignature: '',
+        status: {
+          shardId: id,
+          pid: null,
+          running: false,
+          areaIds: [],
+          playerCount: 0,
+          ghostCount: 0,
+          tickTime: 0,
+          updatesPerSecond: 0,
+          memoryUsage: 0,
+          lastReport: 0
+        }
+      });
+    }
+  }
+
+  // Start the shard processes and hand out the current areas
+  start(): void {
+    this.stopping = false;
+    this.shards.forEach(shard => this.startShard(shard));
+    this.syncAreas();
+  }
+
+  // Stop the shard processes
+  shutdown(): void {
+    this.stopping = true;
+    this.shards.forEach(shard => shard.process?.kill());
+  }
+
+  private startShard(shard: Shard): void {
+    const child = fork(SHARD_ENTRY, [], {
+      execArgv: SHARD_EXEC_ARGV,
+      serialization: 'advanced',
+      env: { ...SHARD_SOURCE_ENV, ...process.env, SHARD_ID: String(shard.id) }
+    });
+
+    shard.process = child;
+    shard.areaSignature = '';
+    shard.status.pid = child.pid ?? null;
+    shard.status.running = true;
+
+    child.on('message', (message: ShardMessage) => this.handleShardMessage(shard, message));
+    child.on('error', error => console.error(`Shard ${shard.id} failed: ${error.message}`));
+    child.on('exit', (code, signal) => {
+      if (shard.process !== child) return;
+
+      shard.process = null;
+      shard.status.pid = null;
+      shard.status.running = false;
+      if (this.stopping) return;
+
+      // Its players stay assigned and are handed to the new process
+      console.warn(`Shard ${shard.id} exited (${signal || code}), restarting in ${this.settings.restartDelay}ms`);
+      setTimeout(() => {
+        if (!this.stopping && !shard.process) {
+          this.startShard(shard);
+          this.syncAreas();
+          shard.players.forEach(clientId => this.sendPlayer(shard, clientId));
+        }
+      }, this.settings.restartDelay);
+    });
+
+    this.send(shard, { type: 'configure', stateUpdateBudget: this.stateUpdateBudget });
+  }
+
+  private send(shard: Shard, message: CoordinatorMessage): void {
+    if (shard.process?.connected) {
+      shard.process.send(message);
+    }
+  }
+
+  private handleShardMessage(shard: Shard, message: ShardMessage): void {
+    switch (message.type) {
+      case 'stateUpdates':
+        message.updates.forEach(update => {
+          // Updates built before the player moved on to another shard are dropped
+          if (this.playerShards.get(update.clientId) !== shard.id) return;
+
+          // Suspended clients get no updates until they resume
+          if (!this.udpServer.getClientInfo(update.clientId)) return;
+
+          this.lastSnapshotIds.set(update.clientId, update.snapshotId ?? 0);
+          this.udpServer.sendToClient(update.clientId, update);
+        });
+        break;
+
+      case 'playerStates':
+        message.players.forEach(player => this.applyPlayerState(shard, player));
+        break;
+
+      case 'report':
+        Object.assign(shard.status, message.report, { lastReport: Date.now() });
+        break;
+    }
+  }
+
+  // Take over a state integrated by a shard, which moves the player in the global AOI system
+  private applyPlayerState(shard: Shard, player: ShardPlayerState): void {
+    const clientId = player.state.entityId;
+    if (this.playerShards.get(clientId) !== shard.id) return;
+
+    this.lastInputSequences.set(clientId, player.lastProcessedInputSequence);
+    this.gameStateManager.updatePlayerState(
+      clientId,
+      Vector3.from(player.state.position),
+      Vector3.from(player.state.velocity),
+      Quaternion.from(player.state.rotation)
+    );
+  }
+
+  // Once per simulation tick: hand out new areas, move players whose area belongs to another
+  // shard, and mirror to each shard what its players can see
+  update(): void {
+    // Areas report their load as without shards
+    this.aoiManager.refreshAreaLoads();
+
+    this.syncAreas();
+
+    this.playerShards.forEach((shardId, clientId) => {
+      const area = this.aoiManager.getEntityArea(clientId);
+      const areaShardId = area ? this.areaShards.get(area.id) : undefined;
+      if (areaShardId !== undefined && areaShardId !== shardId) {
+        this.migratePlayer(clientId, shardId, areaShardId);
+      }
+    });
+
+    this.shards.forEach(shard => {
+      if (shard.process) {
+        this.send(shard, { type: 'ghosts', ghosts: this.getGhosts(shard) });
+      }
+    });
+  }
+
+  // Assign new areas to shards, forget removed ones, and send every shard the current areas
+  private syncAreas(): void {
+    const areas = this.aoiManager.getAllAreas();
+    const areaIds = new Set(areas.map(area => area.id));
+
+    Array.from(this.areaShards.keys())
+      .filter(areaId => !areaIds.has(areaId))
+      .forEach(areaId => this.areaShards.delete(areaId));
+
+    areas.forEach(area => {
+      if (this.areaShards.has(area.id)) return;
+
+      // Sub-areas stay on the shard of the area they were split from, so a split moves nobody
+      const parentShardId = area.parentId !== undefined ? this.areaShards.get(area.parentId) : undefined;
+      this.areaShards.set(area.id, parentShardId ?? this.getLeastLoadedShard().id);
+    });
+
+    const shardAreas: ShardArea[] = areas.map(area => ({
+      id: area.id,
+      name: area.name,
+      center: area.center,
+      radius: area.radius,
+      capacityLimit: area.capacityLimit,
+      updateFrequency: area.updateFrequency
+    }));
+    const signature = JSON.stringify(shardAreas);
+
+    this.shards.forEach(shard => {
+      if (shard.process && shard.areaSignature !== signature) {
+        shard.areaSignature = signature;
+        this.send(shard, { type: 'areas', areas: shardAreas });
+      }
+    });
+  }
+
+  // The shard with the fewest players, then the fewest areas
+  private getLeastLoadedShard(): Shard {
+    const areaCounts: Map<number, number> = new Map();
+    this.areaShards.forEach(shardId => areaCounts.set(shardId, (areaCounts.get(shardId) || 0) + 1));
+
+    return this.shards.reduce((best, shard) => {
+      const load = shard.players.size - best.players.size || (areaCounts.get(shard.id) || 0) - (areaCounts.get(best.id) || 0);
+      return load < 0 ? shard : best;
+    });
+  }
+
+  // Players and NPCs simulated elsewhere that may be relevant to players in the shard's areas
+  private getGhosts(shard: Shard): ShardGhost[] {
+    const entities: Map<string, AOIEntity> = new Map();
+
+    this.aoiManager.getAllAreas()
+      .filter(area => this.areaShards.get(area.id) === shard.id)
+      .forEach(area => {
+        // A player at the edge of the area sees entities up to one radius further out
+        this.aoiManager.getEntitiesInRadius(area.center, 2 * area.radius + this.settings.ghostMargin)
+          .forEach(entity => entities.set(entity.id, entity));
+      });
+
+    const ghosts: ShardGhost[] = [];
+    entities.forEach(entity => {
+      if (shard.players.has(entity.id)) return;
+
+      const state = this.gameStateManager.getEntityState(entity);
+      if (state) {
+        ghosts.push({ state, targetId: this.gameStateManager.getEntityTarget(entity) });
+      }
+    });
+
+    return ghosts;
+  }
+
+  // Hand a newly registered player to the shard of its area
+  addPlayer(clientId: string): void {
+    const area = this.aoiManager.getEntityArea(clientId);
+    const areaShardId = area ? this.areaShards.get(area.id) : undefined;
+    const shard = areaShardId !== undefined ? this.shards[areaShardId] : this.getLeastLoadedShard();
+
+    shard.players.add(clientId);
+    this.playerShards.set(clientId, shard.id);
+    this.sendPlayer(shard, clientId);
+  }
+
+  removePlayer(clientId: string): void {
+    const shardId = this.playerShards.get(clientId);
+    if (shardId === undefined) return;
+
+    const shard = this.shards[shardId];
+    shard.players.delete(clientId);
+    this.send(shard, { type: 'removePlayer', clientId });
+
+    this.playerShards.delete(clientId);
+    this.lastSnapshotIds.delete(clientId);
+    this.lastInputSequences.delete(clientId);
+  }
+
+  // A client that resumed its session may have lost updates
+  resetPlayer(clientId: string): void {
+    this.sendToPlayerShard(clientId, { type: 'resetPlayer', clientId });
+  }
+
+  private migratePlayer(clientId: string, fromShardId: number, toShardId: number): void {
+    const from = this.shards[fromShardId];
+    const to = this.shards[toShardId];
+
+    from.players.delete(clientId);
+    this.send(from, { type: 'removePlayer', clientId });
+
+    to.players.add(clientId);
+    this.playerShards.set(clientId, toShardId);
+    this.sendPlayer(to, clientId);
+
+    console.log(`Player ${clientId} migrated from shard ${fromShardId} to shard ${toShardId}`);
+  }
+
+  private sendPlayer(shard: Shard, clientId: string): void {
+    const player = this.gameStateManager.getPlayer(clientId);
+    if (!player) return;
+
+    const client = this.udpServer.getClientInfo(clientId);
+    const lastSnapshotId = this.lastSnapshotIds.get(clientId) || 0;
+
+    this.send(shard, {
+      type: 'addPlayer',
+      player: {
+        state: {
+          entityId: clientId,
+          entityType: 'player',
+          position: new Vector3(player.positionX, player.positionY, player.positionZ),
+          velocity: new Vector3(player.velocityX, player.velocityY, player.velocityZ),
+          rotation: new Quaternion(player.rotationX, player.rotationY, player.rotationZ, player.rotationW)
+        },
+        quantized: client?.serialization.quantized ?? false,
+        nextSnapshotId: (lastSnapshotId % 0xFFFFFFFF) + 1, // 0 is reserved for "no baseline"
+        lastProcessedInputSequence: this.lastInputSequences.get(clientId)
+      }
+    });
+  }
+
+  private sendToPlayerShard(clientId: string, message: CoordinatorMessage): void {
+    const shardId = this.playerShards.get(clientId);
+    if (shardId !== undefined) {
+      this.send(this.shards[shardId], message);
+    }
+  }
+
+  // Route a control input to the shard integrating the player (server-authoritative movement)
+  routeInput(input: ClientInputMessage): void {
+    this.sendToPlayerShard(input.clientId, { type: 'input', input });
+  }
+
+  // Route a snapshot acknowledgement to the shard building the client's state updates
+  routeSnapshotAck(clientId: string, snapshotId: number): void {
+    // Only clients that negotiated delta snapshots may receive them
+    const client = this.udpServer.getClientInfo(clientId);
+    if (!client || !hasCapability(client.protocol, ProtocolCapability.DELTA_SNAPSHOTS)) return;
+
+    this.sendToPlayerShard(clientId, { type: 'snapshotAck', clientId, snapshotId });
+  }
+
+  // Tell a player's shard about a state set in the main process, by the client or by moving its area
+  syncPlayerState(clientId: string): void {
+    const player = this.gameStateManager.getPlayer(clientId);
+    if (!player) return;
+
+    this.sendToPlayerShard(clientId, {
+      type: 'playerState',
+      state: {
+        entityId: clientId,
+        entityType: 'player',
+        position: new Vector3(player.positionX, player.positionY, player.positionZ),
+        velocity: new Vector3(player.velocityX, player.velocityY, player.velocityZ),
+        rotation: new Quaternion(player.rotationX, player.rotationY, player.rotationZ, player.rotationW)
+      }
+    });
+  }
+
+  // Players carried along by areas that followed their celestial bodies
+  followAreaMoves(moves: AreaMove[]): void {
+    moves.forEach(move => {
+      move.entityIds
+        .filter(entityId => this.playerShards.has(entityId))
+        .forEach(entityId => this.syncPlayerState(entityId));
+    });
+  }
+
+  setStateUpdateBudget(budgetBytes: number): void {
+    this.stateUpdateBudget = budgetBytes;
+    this.shards.forEach(shard => this.send(shard, { type: 'configure', stateUpdateBudget: budgetBytes }));
+  }
+
+  // Move an area and its sub-areas to another shard. Their players follow on the next tick.
+  assignArea(areaId: string, shardId: number): boolean {
+    if (!this.areaShards.has(areaId) || !this.shards[shardId]) {
+      return false;
+    }
+
+    const moved = [areaId];
+    for (let i = 0; i < moved.length; i++) {
+      this.areaShards.set(moved[i], shardId);
+      this.aoiManager.getAllAreas()
+        .filter(area => area.parentId === moved[i])
+        .forEach(area => moved.push(area.id));
+    }
+
+    console.log(`Area ${areaId} assigned to shard ${shardId}`);
+    return true;
+  }
+
+  getStatus(): ShardStatus[] {
+    return this.shards.map(shard => ({
+      ...shard.status,
+      areaIds: Array.from(this.areaShards.keys()).filter(areaId => this.areaShards.get(areaId) === shard.id),
+      playerCount: shard.players.size
+    }));
+  }
+}
@@ -0,0 +1,269 @@
+import { Faction, InsertFaction, Mission, User } from '@shared/schema';
+import { storage } from './storage';
+import type { NPCShipType } from './npc';
+
+export const MIN_STANDING = -100;
+export const MAX_STANDING = 100;
+
+// NPCs attack ships of factions, and players, their faction regards at or below this standing
+export const HOSTILE_STANDING = -50;
+
+// How much mission outcomes and combat move standings
+export interface ReputationSettings {
+  missionCompleted: number; // Issuing faction's standing toward the faction of the fleet that flew it
+  missionFailed: number;
+  shipDestroyed: number; // Player reputation with the faction of a ship the player destroyed
+  enemyShipDestroyed: number; // Player reputation with each faction hostile to the destroyed ship's faction
+}
+
+const DEFAULT_REPUTATION_SETTINGS: ReputationSettings = {
+  missionCompleted: 5,
+  missionFailed: -5,
+  shipDestroyed: -10,
+  enemyShipDestroyed: 2
+};
+
+// Faction each NPC type flies for when its fleet has none
+const DEFAULT_FACTION_BY_TYPE: Record<NPCShipType, string> = {
+  enemy: 'crimson-syndicate',
+  transport: 'solar-federation',
+  civilian: 'solar-federation',
+  mining: 'mining-guild'
+};
+
+// Factions created on first start
+const DEFAULT_FACTIONS: InsertFaction[] = [
+  {
+    factionId: 'solar-federation',
+    name: 'Solar Federation',
+    description: 'Government of the inner planets, running most shipping and passenger traffic.',
+    color: '#3b82f6',
+    standings: { 'crimson-syndicate': -80, 'mining-guild': 40 },
+    defaultStanding: 0
+  },
+  {
+    factionId: 'mining-guild',
+    name: 'Mining Guild',
+    description: 'Independent miners working the moons and the outer planets.',
+    color: '#f59e0b',
+    standings: { 'crimson-syndicate': -60, 'solar-federation': 40 },
+    defaultStanding: 0
+  },
+  {
+    factionId: 'crimson-syndicate',
+    name: 'Crimson Syndicate',
+    description: 'Pirate clans preying on anyone who flies alone.',
+    color: '#ef4444',
+    standings: { 'solar-federation': -80, 'mining-guild': -60 },
+    defaultStanding: -60
+  }
+];
+
+function clampStanding(value: number): number {
+  return Math.max(MIN_STANDING, Math.min(MAX_STANDING, value));
+}
+
+// Factions, the standings between them, and players' membership and reputation with them.
+// Standings are directional: how one faction regards another need not match the reverse.
+export class FactionManager {
+  private factions: Map<string, Faction> = new Map();
+  private memberships: Map<number, string | null> = new Map(); // User ID -> faction ID, for users seen since start
+  private reputations: Map<number, Map<string, number>> = new Map(); // User ID -> faction ID -> reputation
+  private reputationIds: Map<string, number> = new Map(); // `${userId}:${factionId}` -> stored reputation ID
+  private pendingSave: Promise<void> = Promise.resolve(); // Reputation writes run one at a time
+  private settings: ReputationSettings;
+
+  constructor(settings: ReputationSettings = DEFAULT_REPUTATION_SETTINGS) {
+    this.settings = settings;
+  }
+
+  // Load factions and reputations, creating the default factions on first start
+  async initialize(): Promise<void> {
+    try {
+      let factions = await storage.getAllFactions();
+      if (factions.length === 0) {
+        factions = await this.createDefaultFactions();
+      }
+
+      this.factions.clear();
+      factions.forEach(faction => this.factions.set(faction.factionId, faction));
+
+      const reputations = await storage.getAllReputations();
+      this.reputations.clear();
+      this.reputationIds.clear();
+      reputations.forEach(reputation => {
+        this.getReputationMap(reputation.userId).set(reputation.factionId, reputation.value);
+        this.reputationIds.set(`${reputation.userId}:${reputation.factionId}`, reputation.id);
+      });
+
+      console.log(`Initialized ${factions.length} factions with ${reputations.length} player reputations`);
+    } catch (error) {
+      console.error('Failed to initialize factions:', error);
+    }
+  }
+
+  private async createDefaultFactions(): Promise<Faction[]> {
+    console.log('Creating default factions...');
+
+    const factions: Faction[] = [];
+    for (const faction of DEFAULT_FACTIONS) {
+      factions.push(await storage.createFaction(faction));
+    }
+    return factions;
+  }
+
+  getFaction(factionId: string): Faction | undefined {
+    return this.factions.get(factionId);
+  }
+
+  getAllFactions(): Faction[] {
+    return Array.from(this.factions.values());
+  }
+
+  getDefaultFactionId(type: string): string {
+    return DEFAULT_FACTION_BY_TYPE[type as NPCShipType] ?? DEFAULT_FACTION_BY_TYPE.civilian;
+  }
+
+  // How one faction regards another. A faction is fully allied with itself, and unknown factions are neutral.
+  getStanding(fromFactionId: string, toFactionId: string): number {
+    if (fromFactionId === toFactionId) {
+      return MAX_STANDING;
+    }
+
+    const faction = this.factions.get(fromFactionId);
+    if (!faction) {
+      return 0;
+    }
+
+    const standings = faction.standings as Record<string, number>;
+    return standings[toFactionId] ?? faction.defaultStanding;
+  }
+
+  // Set how one faction regards another. Returns false if either faction is unknown or they are the same.
+  async setStanding(fromFactionId: string, toFactionId: string, value: number): Promise<boolean> {
+    const faction = this.factions.get(fromFactionId);
+    if (!faction || !this.factions.has(toFactionId) || fromFactionId === toFactionId) {
+      return false;
+    }
+
+    const standings = { ...(faction.standings as Record<string, number>), [toFactionId]: clampStanding(value) };
+    faction.standings = standings;
+    await storage.updateFaction(faction.id, { standings });
+    return true;
+  }
+
+  adjustStanding(fromFactionId: string, toFactionId: string, delta: number): void {
+    const standing = this.getStanding(fromFactionId, toFactionId);
+    this.setStanding(fromFactionId, toFactionId, standing + delta).catch(error => {
+      console.error(`Failed to update standing of ${fromFactionId} toward ${toFactionId}:`, error);
+    });
+  }
+
+  areHostile(fromFactionId: string, toFactionId: string): boolean {
+    return this.getStanding(fromFactionId, toFactionId) <= HOSTILE_STANDING;
+  }
+
+  // Remember a user's faction, done when the user connects so lookups during updates stay synchronous
+  registerUser(user: User): void {
+    this.memberships.set(user.id, user.factionId ?? null);
+  }
+
+  getPlayerFactionId(userId: number): string | null {
+    return this.memberships.get(userId) ?? null;
+  }
+
+  // Join a faction, or leave the current one with null
+  async setPlayerFaction(userId: number, factionId: string | null): Promise<User | undefined> {
+    const user = await storage.updateUser(userId, { factionId });
+    if (user) {
+      this.registerUser(user);
+    }
+    return user;
+  }
+
+  getReputation(userId: number, factionId: string): number {
+    return this.reputations.get(userId)?.get(factionId) ?? 0;
+  }
+
+  // Reputations of a user by faction ID, only factions the user has dealt with
+  getReputations(userId: number): Record<string, number> {
+    const reputations: Record<string, number> = {};
+    this.reputations.get(userId)?.forEach((value, factionId) => {
+      reputations[factionId] = value;
+    });
+    return reputations;
+  }
+
+  adjustReputation(userId: number, factionId: string, delta: number): number {
+    const value = clampStanding(this.getReputation(userId, factionId) + delta);
+    this.getReputationMap(userId).set(factionId, value);
+    this.saveReputation(userId, factionId);
+    return value;
+  }
+
+  // How a faction regards a player: its standing toward the player's faction, or its default standing
+  // for unaffiliated players, plus the player's reputation with it
+  getStandingTowardPlayer(factionId: string, userId: number): number {
+    const faction = this.factions.get(factionId);
+    if (!faction) {
+      return 0;
+    }
+
+    const playerFactionId = this.getPlayerFactionId(userId);
+    const base = playerFactionId ? this.getStanding(factionId, playerFactionId) : faction.defaultStanding;
+    return clampStanding(base + this.getReputation(userId, factionId));
+  }
+
+  isHostileToPlayer(factionId: string, userId: number): boolean {
+    return this.getStandingTowardPlayer(factionId, userId) <= HOSTILE_STANDING;
+  }
+
+  // The faction offering a mission warms to the fleet's faction when it is completed, and cools when it fails
+  recordMissionOutcome(mission: Mission, fleetFactionId: string, completed: boolean): void {
+    if (!mission.factionId || mission.factionId === fleetFactionId) {
+      return;
+    }
+
+    const delta = completed ? this.settings.missionCompleted : this.settings.missionFailed;
+    this.adjustStanding(mission.factionId, fleetFactionId, delta);
+  }
+
+  // A player destroying a ship loses reputation with its faction and gains it with that faction's enemies
+  recordShipDestroyed(userId: number, factionId: string): void {
+    this.adjustReputation(userId, factionId, this.settings.shipDestroyed);
+
+    this.factions.forEach((_, otherFactionId) => {
+      if (otherFactionId !== factionId && this.areHostile(otherFactionId, factionId)) {
+        this.adjustReputation(userId, otherFactionId, this.settings.enemyShipDestroyed);
+      }
+    });
+  }
+
+  private getReputationMap(userId: number): Map<string, number> {
+    let reputations = this.reputations.get(userId);
+    if (!reputations) {
+      reputations = new Map();
+      this.reputations.set(userId, reputations);
+    }
+    return reputations;
+  }
+
+  // Store a reputation's current value. Writes are chained so a reputation is only ever created once.
+  private saveReputation(userId: number, factionId: string): void {
+    const key = `${userId}:${factionId}`;
+
+    this.pendingSave = this.pendingSave.then(async () => {
+      const value = this.getReputation(userId, factionId);
+      const id = this.reputationIds.get(key);
+
+      if (id !== undefined) {
+        await storage.updateReputation(id, { value });
+      } else {
+        const reputation = await storage.createReputation({ userId, factionId, value });
+        this.reputationIds.set(key, reputation.id);
+      }
+    }).catch(error => {
+      console.error(`Failed to save reputation of user ${userId} with ${factionId}:`, error);
+    });
+  }
+}
@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FloodGuard } from './flood';
+
+describe('rejected datagrams', () => {
+  it('drops an address past its burst and bans it once it keeps going', () => {
+    const guard = new FloodGuard();
+    const verdicts = Array.from({ length: 70 }, () => guard.checkRejected('203.0.113.5', 1000));
+    assert.equal(verdicts.filter(verdict => verdict === 'allow').length, 20);
+    assert.equal(verdicts[20], 'drop');
+    assert.equal(verdicts[69], 'ban');
+  });
+
+  it('counts IPv4-mapped addresses with their IPv4 form', () => {
+    const guard = new FloodGuard();
+    for (let i = 0; i < 20; i++) {
+      guard.checkRejected('203.0.113.5', 1000);
+    }
+    assert.equal(guard.checkRejected('::ffff:203.0.113.5', 1000), 'drop');
+  });
+
+  it('forgives an address once its bucket has refilled', () => {
+    const guard = new FloodGuard();
+    for (let i = 0; i < 60; i++) {
+      guard.checkRejected('203.0.113.5', 1000);
+    }
+    assert.equal(guard.checkRejected('203.0.113.5', 20000), 'allow');
+  });
+});
@@ -0,0 +1,241 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { AddressBan } from '@shared/types';
+import { CONNECT_COOKIE_LENGTH } from '@shared/messages';
+import { normalizeAddress } from './auth';
+
+export interface FloodSettings {
+  connectBurst: number;               // Connects an address may make at once
+  connectsPerSecond: number;          // Sustained connect rate per address
+  connectViolationsBeforeBan: number; // Connects over the limit before the address is banned
+  packetBurst: number;                // Packets a client may send at once
+  packetsPerSecond: number;           // Sustained inbound packet rate per client
+  packetViolationsBeforeBan: number;  // Packets over the limit before the client's address is banned
+  rejectBurst: number;                // Rejected datagrams an address may send at once
+  rejectsPerSecond: number;           // Sustained rate of rejected datagrams per address
+  rejectViolationsBeforeBan: number;  // Rejected datagrams over the limit before the address is banned
+  challengeThreshold: number;         // Server-wide connects per second that turn on connect challenges
+  challengeHoldTime: number;          // Milliseconds challenges stay on after the rate drops
+  cookieLifetime: number;             // Milliseconds a challenge cookie stays valid, at least
+  banDuration: number;                // Default ban length in milliseconds
+  logInterval: number;                // Milliseconds between repeated warnings for one address
+}
+
+// Token bucket with a count of requests refused since it was last full
+interface RateBucket {
+  tokens: number;
+  lastRefill: number;
+  violations: number;
+}
+
+// What to do with a connect request or packet
+export type FloodVerdict = 'allow' | 'drop' | 'ban';
+
+// Protects the game socket against connect floods and chatty clients: per-address connect
+// limits, per-client packet limits, temporary bans, and stateless connect cookies that are
+// required while the server-wide connect rate is high (like TCP SYN cookies), so spoofed
+// source addresses cannot make the server allocate client state.
+export class FloodGuard {
+  private settings: FloodSettings;
+  private connectBuckets: Map<string, RateBucket> = new Map();
+  private packetBuckets: Map<string, RateBucket> = new Map();
+  private rejectBuckets: Map<string, RateBucket> = new Map();
+  private bans: Map<string, AddressBan> = new Map();
+  private lastWarnings: Map<string, number> = new Map();
+  private cookieSecret: Buffer = randomBytes(32);
+  private connectWindowStart: number = 0;
+  private connectsInWindow: number = 0;
+  private challengeUntil: number = 0;
+
+  constructor(
+    settings: FloodSettings = {
+      connectBurst: 5,
+      connectsPerSecond: 0.5,
+      connectViolationsBeforeBan: 10,
+      packetBurst: 400,
+      packetsPerSecond: 200,
+      packetViolationsBeforeBan: 400,
+      rejectBurst: 20,
+      rejectsPerSecond: 2,
+      rejectViolationsBeforeBan: 50,
+      challengeThreshold: 20,
+      challengeHoldTime: 10000,
+      cookieLifetime: 10000,
+      banDuration: 60000,
+      logInterval: 10000
+    }
+  ) {
+    this.settings = settings;
+  }
+
+  // Whether an address is currently banned, forgetting the ban once it has expired
+  isBanned(address: string, now: number = Date.now()): boolean {
+    const key = normalizeAddress(address);
+    const ban = this.bans.get(key);
+    if (!ban) {
+      return false;
+    }
+
+    if (ban.expiresAt <= now) {
+      this.bans.delete(key);
+      return false;
+    }
+
+    return true;
+  }
+
+  ban(address: string, reason: string, duration: number = this.settings.banDuration, now: number = Date.now()): AddressBan {
+    const key = normalizeAddress(address);
+    const ban: AddressBan = { address: key, reason, createdAt: now, expiresAt: now + duration };
+    this.bans.set(key, ban);
+    this.connectBuckets.delete(key);
+    this.rejectBuckets.delete(key);
+    return ban;
+  }
+
+  unban(address: string): boolean {
+    return this.bans.delete(normalizeAddress(address));
+  }
+
+  getBans(now: number = Date.now()): AddressBan[] {
+    return Array.from(this.bans.values()).filter(ban => ban.expiresAt > now);
+  }
+
+  // Count a connect request towards the server-wide rate and report whether it must carry a cookie
+  recordConnectAttempt(now: number = Date.now()): boolean {
+    if (now - this.connectWindowStart >= 1000) {
+      this.connectWindowStart = now;
+      this.connectsInWindow = 0;
+    }
+
+    this.connectsInWindow++;
+    if (this.connectsInWindow > this.settings.challengeThreshold) {
+      this.challengeUntil = now + this.settings.challengeHoldTime;
+    }
+
+    return this.isChallengeActive(now);
+  }
+
+  isChallengeActive(now: number = Date.now()): boolean {
+    return now < this.challengeUntil;
+  }
+
+  // Apply the per-address connect limit
+  checkConnect(address: string, now: number = Date.now()): FloodVerdict {
+    const key = normalizeAddress(address);
+    return this.take(this.connectBuckets, key, this.settings.connectBurst, this.settings.connectsPerSecond,
+      this.settings.connectViolationsBeforeBan, now);
+  }
+
+  // Apply the per-client inbound packet limit
+  checkPacket(clientId: string, now: number = Date.now()): FloodVerdict {
+    return this.take(this.packetBuckets, clientId, this.settings.packetBurst, this.settings.packetsPerSecond,
+      this.settings.packetViolationsBeforeBan, now);
+  }
+
+  // Count a datagram that failed authentication against its source address. These never reach
+  // the per-client limit, since the sender may not own the client it claims to be.
+  checkRejected(address: string, now: number = Date.now()): FloodVerdict {
+    const key = normalizeAddress(address);
+    return this.take(this.rejectBuckets, key, this.settings.rejectBurst, this.settings.rejectsPerSecond,
+      this.settings.rejectViolationsBeforeBan, now);
+  }
+
+  removeClient(clientId: string): void {
+    this.packetBuckets.delete(clientId);
+  }
+
+  // Cookie for a source address and port, valid for the current time window
+  createCookie(address: string, port: number, now: number = Date.now()): Buffer {
+    return this.computeCookie(address, port, Math.floor(now / this.settings.cookieLifetime));
+  }
+
+  // Cookies from the current or previous window are accepted, so each lives at least cookieLifetime
+  verifyCookie(address: string, port: number, cookie: Buffer | undefined, now: number = Date.now()): boolean {
+    if (!cookie || cookie.length !== CONNECT_COOKIE_LENGTH) {
+      return false;
+    }
+
+    const window = Math.floor(now / this.settings.cookieLifetime);
+    return [window, window - 1].some(w => timingSafeEqual(cookie, this.computeCookie(address, port, w)));
+  }
+
+  // Rate limit repeated warnings about one address so a flood cannot flood the log too
+  shouldWarn(address: string, now: number = Date.now()): boolean {
+    const key = normalizeAddress(address);
+    const last = this.lastWarnings.get(key);
+    if (last !== undefined && now - last < this.settings.logInterval) {
+      return false;
+    }
+
+    this.lastWarnings.set(key, now);
+    return true;
+  }
+
+  // Forget expired bans and buckets that have refilled, which behave the same as no bucket
+  removeExpired(now: number = Date.now()): void {
+    this.bans.forEach((ban, address) => {
+      if (ban.expiresAt <= now) {
+        this.bans.delete(address);
+      }
+    });
+
+    this.connectBuckets.forEach((bucket, address) => {
+      if (this.refill(bucket, this.settings.connectBurst, this.settings.connectsPerSecond, now) >= this.settings.connectBurst) {
+        this.connectBuckets.delete(address);
+      }
+    });
+
+    this.rejectBuckets.forEach((bucket, address) => {
+      if (this.refill(bucket, this.settings.rejectBurst, this.settings.rejectsPerSecond, now) >= this.settings.rejectBurst) {
+        this.rejectBuckets.delete(address);
+      }
+    });
+
+    this.lastWarnings.forEach((time, address) => {
+      if (now - time >= this.settings.logInterval) {
+        this.lastWarnings.delete(address);
+      }
+    });
+  }
+
+  private take(
+    buckets: Map<string, RateBucket>,
+    key: string,
+    burst: number,
+    ratePerSecond: number,
+    violationsBeforeBan: number,
+    now: number
+  ): FloodVerdict {
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: burst, lastRefill: now, violations: 0 };
+      buckets.set(key, bucket);
+    }
+
+    if (this.refill(bucket, burst, ratePerSecond, now) >= burst) {
+      bucket.violations = 0; // A full bucket means the sender has calmed down
+    }
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 'allow';
+    }
+
+    bucket.violations++;
+    return bucket.violations >= violationsBeforeBan ? 'ban' : 'drop';
+  }
+
+  private refill(bucket: RateBucket, burst: number, ratePerSecond: number, now: number): number {
+    const elapsed = Math.max(0, now - bucket.lastRefill) / 1000;
+    bucket.tokens = Math.min(burst, bucket.tokens + elapsed * ratePerSecond);
+    bucket.lastRefill = now;
+    return bucket.tokens;
+  }
+
+  private computeCookie(address: string, port: number, window: number): Buffer {
+    return createHmac('sha256', this.cookieSecret)
+      .update(`${normalizeAddress(address)}|${port}|${window}`)
+      .digest()
+      .subarray(0, CONNECT_COOKIE_LENGTH);
+  }
+}
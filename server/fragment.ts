@@ -0,0 +1,117 @@
+// Largest datagram we send without fragmenting, safely below common path MTUs
+export const MAX_DATAGRAM_SIZE = 1200;
+
+// Upper bound on fragments per message (about 300 KB at the default datagram size)
+export const MAX_FRAGMENT_COUNT = 256;
+
+// A fragment as decoded from a FRAGMENT message
+export interface Fragment {
+  groupId: number;
+  index: number;
+  count: number;
+  payload: Buffer;
+}
+
+// Fragments received so far for one message
+interface PendingGroup {
+  count: number;
+  received: number;
+  chunks: (Buffer | undefined)[];
+  firstReceived: number;
+}
+
+export interface ReassemblySettings {
+  timeout: number;             // Drop incomplete messages after this many milliseconds
+  maxPendingPerSource: number; // Incomplete messages buffered per client
+}
+
+// Split a serialized message into chunks of at most chunkSize bytes
+export function splitIntoChunks(buffer: Buffer, chunkSize: number): Buffer[] {
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < buffer.length; offset += chunkSize) {
+    chunks.push(buffer.subarray(offset, Math.min(offset + chunkSize, buffer.length)));
+  }
+  return chunks;
+}
+
+// Reassembles fragmented messages per source, discarding groups that never complete
+export class FragmentReassembler {
+  private groups: Map<string, Map<number, PendingGroup>> = new Map();
+  private settings: ReassemblySettings;
+
+  constructor(settings: ReassemblySettings = { timeout: 5000, maxPendingPerSource: 16 }) {
+    this.settings = settings;
+  }
+
+  // Add a fragment, returning the full message buffer once every fragment has arrived
+  addFragment(sourceId: string, fragment: Fragment): Buffer | null {
+    if (fragment.count === 0 || fragment.count > MAX_FRAGMENT_COUNT || fragment.index >= fragment.count) {
+      console.warn(`Dropped invalid fragment ${fragment.index}/${fragment.count} from ${sourceId}`);
+      return null;
+    }
+
+    let sourceGroups = this.groups.get(sourceId);
+    if (!sourceGroups) {
+      sourceGroups = new Map();
+      this.groups.set(sourceId, sourceGroups);
+    }
+
+    let group = sourceGroups.get(fragment.groupId);
+    if (!group) {
+      // Bound memory per source by evicting the oldest incomplete message
+      if (sourceGroups.size >= this.settings.maxPendingPerSource) {
+        const oldestGroupId = sourceGroups.keys().next().value;
+        if (oldestGroupId !== undefined) {
+          sourceGroups.delete(oldestGroupId);
+        }
+      }
+
+      group = {
+        count: fragment.count,
+        received: 0,
+        chunks: new Array(fragment.count),
+        firstReceived: Date.now()
+      };
+      sourceGroups.set(fragment.groupId, group);
+    } else if (group.count !== fragment.count) {
+      console.warn(`Dropped fragment with inconsistent count for group ${fragment.groupId} from ${sourceId}`);
+      return null;
+    }
+
+    // Duplicates happen when a reliable fragment is resent
+    if (group.chunks[fragment.index]) {
+      return null;
+    }
+
+    group.chunks[fragment.index] = Buffer.from(fragment.payload);
+    group.received++;
+
+    if (group.received < group.count) {
+      return null;
+    }
+
+    sourceGroups.delete(fragment.groupId);
+    return Buffer.concat(group.chunks as Buffer[]);
+  }
+
+  // Drop incomplete messages older than the timeout
+  removeExpired(now: number = Date.now()): void {
+    this.groups.forEach((sourceGroups, sourceId) => {
+      sourceGroups.forEach((group, groupId) => {
+        if (now - group.firstReceived > this.settings.timeout) {
+          console.warn(`Fragmented message ${groupId} from ${sourceId} timed out with ${group.received}/${group.count} fragments`);
+          sourceGroups.delete(groupId);
+        }
+      });
+
+      if (sourceGroups.size === 0) {
+        this.groups.delete(sourceId);
+      }
+    });
+  }
+
+  // Forget all pending fragments from a source
+  removeSource(sourceId: string): void {
+    this.groups.delete(sourceId);
+  }
+}
@@ -0,0 +1,162 @@
+import { EntityState } from '@shared/types';
+
+// Entity states recorded at one simulation tick
+interface HistoryFrame {
+  time: number; // Server time in milliseconds
+  entities: Map<string, EntityState>;
+}
+
+export interface StateHistorySettings {
+  capacity: number;            // Ticks kept in the ring buffer
+  maxRewind: number;           // Furthest back a client may rewind, in milliseconds
+  interpolationDelay: number;  // How far behind the latest state clients render, in milliseconds
+}
+
+// Ring buffer of past entity states, used to rewind the world to the time a client
+// perceived when it reported an interaction (lag compensation)
+export class StateHistory {
+  private frames: (HistoryFrame | undefined)[];
+  private head: number = 0; // Index the next frame is written to
+  private count: number = 0;
+  private settings: StateHistorySettings;
+
+  constructor(
+    settings: StateHistorySettings = {
+      capacity: 64,
+      maxRewind: 1000,
+      interpolationDelay: 100
+    }
+  ) {
+    this.settings = settings;
+    this.frames = new Array(settings.capacity);
+  }
+
+  // Record the state of every entity at a tick, overwriting the oldest frame when full
+  record(time: number, entities: EntityState[]): void {
+    this.frames[this.head] = {
+      time,
+      entities: new Map(entities.map(entity => [entity.entityId, entity]))
+    };
+    this.head = (this.head + 1) % this.settings.capacity;
+    this.count = Math.min(this.count + 1, this.settings.capacity);
+  }
+
+  // The time a client was looking at when it acted: server time minus its round trip
+  // and the interpolation delay, limited to the rewind window
+  getPerceivedTime(serverTime: number, rtt: number): number {
+    const rewind = Math.min(this.settings.maxRewind, Math.max(0, rtt) + this.settings.interpolationDelay);
+    return serverTime - rewind;
+  }
+
+  // Every entity's state at a past time, interpolated between the surrounding ticks
+  rewind(time: number): Map<string, EntityState> {
+    const result = new Map<string, EntityState>();
+    const frames = this.getSurroundingFrames(time);
+    if (!frames) {
+      return result;
+    }
+
+    const { before, after, t } = frames;
+    before.entities.forEach((state, entityId) => {
+      result.set(entityId, this.interpolate(state, after.entities.get(entityId), t));
+    });
+
+    // Entities that appeared between the two ticks
+    after.entities.forEach((state, entityId) => {
+      if (!result.has(entityId)) {
+        result.set(entityId, state);
+      }
+    });
+
+    return result;
+  }
+
+  // A single entity's state at a past time, or undefined if it was not recorded then
+  getEntityStateAt(entityId: string, time: number): EntityState | undefined {
+    const frames = this.getSurroundingFrames(time);
+    if (!frames) {
+      return undefined;
+    }
+
+    const { before, after, t } = frames;
+    const from = before.entities.get(entityId);
+    if (!from) {
+      return after.entities.get(entityId);
+    }
+
+    return this.interpolate(from, after.entities.get(entityId), t);
+  }
+
+  // Oldest and newest recorded times, or null if nothing has been recorded
+  getTimeRange(): { oldest: number, newest: number } | null {
+    if (this.count === 0) {
+      return null;
+    }
+
+    return {
+      oldest: this.getFrame(0).time,
+      newest: this.getFrame(this.count - 1).time
+    };
+  }
+
+  clear(): void {
+    this.frames = new Array(this.settings.capacity);
+    this.head = 0;
+    this.count = 0;
+  }
+
+  // Frame by age order, 0 being the oldest
+  private getFrame(index: number): HistoryFrame {
+    const start = (this.head - this.count + this.settings.capacity) % this.settings.capacity;
+    return this.frames[(start + index) % this.settings.capacity]!;
+  }
+
+  // Find the frames either side of a time, clamping to the recorded range
+  private getSurroundingFrames(time: number): { before: HistoryFrame, after: HistoryFrame, t: number } | null {
+    if (this.count === 0) {
+      return null;
+    }
+
+    const oldest = this.getFrame(0);
+    if (time <= oldest.time) {
+      return { before: oldest, after: oldest, t: 0 };
+    }
+
+    const newest = this.getFrame(this.count - 1);
+    if (time >= newest.time) {
+      return { before: newest, after: newest, t: 0 };
+    }
+
+    // Binary search for the last frame at or before the time
+    let low = 0;
+    let high = this.count - 1;
+    while (high - low > 1) {
+      const mid = (low + high) >> 1;
+      if (this.getFrame(mid).time <= time) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+
+    const before = this.getFrame(low);
+    const after = this.getFrame(high);
+    const span = after.time - before.time;
+
+    return { before, after, t: span > 0 ? (time - before.time) / span : 0 };
+  }
+
+  private interpolate(from: EntityState, to: EntityState | undefined, t: number): EntityState {
+    if (!to || t <= 0) {
+      return from;
+    }
+
+    return {
+      entityId: from.entityId,
+      entityType: from.entityType,
+      position: from.position.lerp(to.position, t),
+      velocity: from.velocity.lerp(to.velocity, t),
+      rotation: from.rotation.slerp(to.rotation, t)
+    };
+  }
+}
@@ -1,24 +1,39 @@
 import express from 'express';
 import { registerRoutes } from './routes';
 import { UDPServer } from './udp';
+import { WebSocketTransport, WEBSOCKET_PATH } from './websocket';
 import { Vector3, Quaternion } from '@shared/math';
 import { 
   MessageType, 
+  DeliveryChannel,
   ServerSettings, 
   ClientConnectMessage, 
-  ClientStateUpdateMessage 
+  ClientStateUpdateMessage,
+  ClientInputMessage,
+  ClientSanityCheckResponseMessage,
+  ClientFireMessage,
+  ClientNetworkStats,
+  AddressBan,
+  CaptureStatus,
+  ShardStatus
 } from '@shared/types';
-import { CelestialBody, npcShips, npcFleets } from '@shared/schema';
+import { CelestialBody, AreaOfInterest as AreaOfInterestRecord, npcShips, npcFleets } from '@shared/schema';
 import { db } from './db';
 import { storage } from './storage';
-import { AOIManager } from './aoi';
+import { AOIManager, AreaDefinition } from './aoi';
 import { GameStateManager } from './state';
-import { NPCManager } from './npc';
+import { NPCManager, NPCDestruction } from './npc';
 import { SanityCheckManager, SanityCheckType } from './sanity';
 import { CelestialManager } from './celestial';
 import { MissionManager } from './mission';
+import { FactionManager } from './faction';
+import { ShardCoordinator } from './coordinator';
+import { negotiateProtocol, NegotiatedProtocol } from './protocol';
+import { authManager } from './auth';
+import { MAX_UPDATE_FREQUENCY } from './replication';
 import { setupVite, serveStatic, log } from './vite';
 import os from 'os';
+import { randomUUID } from 'crypto';
 
 // Server singleton instance
 export let serverInstance: GameServer | null = null;
@@ -27,6 +42,7 @@ export let serverInstance: GameServer | null = null;
 export class GameServer {
   // Core components
   private udpServer: UDPServer;
+  private webSocketTransport: WebSocketTransport | null = null;
   private expressApp: express.Express;
   public aoiManager: AOIManager;
   public gameStateManager: GameStateManager;
@@ -34,6 +50,8 @@ export class GameServer {
   public sanityCheckManager: SanityCheckManager;
   public celestialManager: CelestialManager;
   public missionManager: MissionManager;
+  public factionManager: FactionManager;
+  private shardCoordinator: ShardCoordinator | null = null;
   
   // Server settings
   private settings: ServerSettings = {
@@ -43,11 +61,15 @@ export class GameServer {
     aoiRadius: 5000,
     aoiMaxEntities: 400,
     aoiGridCellSize: 1000,
+    stateUpdateBudget: 1000,
     sanityCheckFrequency: 10,
     reliableResendInterval: 1000,
     maxReliableResends: 5,
     disconnectTimeout: 30000,
-    logLevel: 'info'
+    logLevel: 'info',
+    requireAuthentication: true,
+    movementAuthority: 'client',
+    reconnectGracePeriod: 60000
   };
   
   // Tracking
@@ -56,11 +78,17 @@ export class GameServer {
   private isRunning: boolean = false;
   private isShuttingDown: boolean = false;
   
+  // Area new players start in
+  private spawnAreaId: string | null = null;
+  
   // Performance metrics
   private lastStatTime: number = Date.now();
+  private lastNetworkSample: { time: number, bytes: number } = { time: Date.now(), bytes: 0 };
   private statInterval: number = 10000; // 10 seconds
   
-  constructor(udpPort: number = 7777, httpPort: number = 5000) {
+  // Without an HTTP port the server runs without the API and WebSocket transport, as when replaying a capture.
+  // With shards, players are simulated in that many shard processes (see server/coordinator.ts).
+  constructor(udpPort: number = 7777, httpPort: number | null = 5000, shardCount: number = 0) {
     // Create UDP server
     this.udpServer = new UDPServer(udpPort);
     
@@ -71,17 +99,27 @@ export class GameServer {
     
     // Create managers
     this.aoiManager = new AOIManager(this.settings.aoiGridCellSize);
-    this.npcManager = new NPCManager();
+    this.factionManager = new FactionManager();
+    this.npcManager = new NPCManager(this.factionManager);
     this.gameStateManager = new GameStateManager(this.udpServer, this.aoiManager, this.npcManager);
+    this.gameStateManager.setStateUpdateBudget(this.settings.stateUpdateBudget);
+    this.gameStateManager.setMovementAuthority(this.settings.movementAuthority);
+    this.udpServer.setReconnectGracePeriod(this.settings.reconnectGracePeriod);
     this.sanityCheckManager = new SanityCheckManager(this.udpServer);
     this.celestialManager = new CelestialManager(this.udpServer);
+    if (shardCount > 0) {
+      this.shardCoordinator = new ShardCoordinator(this.udpServer, this.aoiManager, this.gameStateManager, shardCount);
+      this.shardCoordinator.setStateUpdateBudget(this.settings.stateUpdateBudget);
+    }
     // Mission Manager will be created after other components are initialized
     
     // Set up event handlers
     this.setupEventHandlers();
     
     // Initialize the HTTP server
-    this.initializeHttpServer(httpPort);
+    if (httpPort !== null) {
+      this.initializeHttpServer(httpPort);
+    }
   }
   
   private setupEventHandlers(): void {
@@ -100,6 +138,45 @@ export class GameServer {
       this.handleClientDisconnect(data.clientId, data.reason);
     });
     
+    // Clients that lost contact but may still resume their session
+    this.udpServer.on('suspend', (data: { clientId: string, reason: string }) => {
+      this.handleClientSuspend(data.clientId, data.reason);
+    });
+    
+    // Record bans from flood protection and admins
+    this.udpServer.on('ban', (ban: AddressBan) => {
+      log(`Banned ${ban.address}: ${ban.reason}`, 'warn');
+      
+      storage.createServerLog({
+        timestamp: Date.now() / 1000,
+        level: 'WARN',
+        message: `Banned ${ban.address} until ${new Date(ban.expiresAt).toISOString()}: ${ban.reason}`,
+        source: 'udp_server',
+        data: ban
+      }).catch(err => {
+        console.error('Failed to log ban:', err);
+      });
+    });
+    
+    // Destroyed NPCs are gone for good, remove them from storage and shrink their fleet
+    this.npcManager.on('npcDestroyed', (destruction: NPCDestruction) => {
+      const by = destruction.destroyedById ? ` by ${destruction.destroyedById}` : '';
+      log(`NPC ${destruction.entityId} destroyed${by}`, 'info');
+      
+      // Players pay for destroying a faction's ships with their reputation
+      const player = destruction.destroyedById ? this.gameStateManager.getPlayer(destruction.destroyedById) : undefined;
+      if (player) {
+        this.factionManager.recordShipDestroyed(player.userId, destruction.factionId);
+      }
+      
+      storage.deleteNpcShip(destruction.npc.id).then(() => {
+        const fleet = this.npcManager.getFleet(destruction.npc.fleetId);
+        return fleet ? storage.updateNpcFleet(fleet.id, { count: fleet.count }) : undefined;
+      }).catch(err => {
+        console.error('Failed to remove destroyed NPC:', err);
+      });
+    });
+    
     // Handle UDP errors
     this.udpServer.on('error', (error: Error) => {
       log(`UDP server error: ${error.message}`, 'error');
@@ -136,6 +213,10 @@ export class GameServer {
     // Register API routes
     const httpServer = await registerRoutes(this.expressApp);
     
+    // Browser clients speak the game protocol over a WebSocket on the same port
+    this.webSocketTransport = new WebSocketTransport(httpServer, this.udpServer);
+    log(`WebSocket transport available at ${WEBSOCKET_PATH}`, 'http');
+    
     // Setup static file serving or Vite development server
     if (this.expressApp.get('env') === 'development') {
       await setupVite(this.expressApp, httpServer);
@@ -160,9 +241,24 @@ export class GameServer {
           this.handleClientStateUpdate(message as ClientStateUpdateMessage);
           break;
           
-        case MessageType.SERVER_SANITY_CHECK:
-          // Handle sanity check response
-          // TODO: Implement sanity check validation
+        case MessageType.CLIENT_INPUT:
+          this.handleClientInput(message as ClientInputMessage);
+          break;
+          
+        case MessageType.CLIENT_SNAPSHOT_ACK:
+          if (this.shardCoordinator) {
+            this.shardCoordinator.routeSnapshotAck(message.clientId, message.snapshotId);
+          } else {
+            this.gameStateManager.acknowledgeSnapshot(message.clientId, message.snapshotId);
+          }
+          break;
+          
+        case MessageType.CLIENT_SANITY_CHECK_RESPONSE:
+          this.handleSanityCheckResponse(message as ClientSanityCheckResponseMessage);
+          break;
+          
+        case MessageType.CLIENT_FIRE:
+          this.npcManager.firePlayerWeapon(message.clientId, (message as ClientFireMessage).direction, Date.now() / 1000);
           break;
           
         // Add cases for other message types as needed
@@ -193,31 +289,78 @@ export class GameServer {
       return;
     }
     
-    // Check version compatibility (simple string match for now)
-    const requiredVersion = '1.0'; // Example version requirement
-    if (version && !version.startsWith(requiredVersion)) {
+    // Negotiate protocol version and capabilities
+    const negotiation = negotiateProtocol(message);
+    if (!negotiation.accepted) {
       this.udpServer.sendToClient(assignedClientId, {
         messageType: MessageType.SERVER_REJECT,
         clientId: assignedClientId,
-        reason: `Incompatible client version. Server requires ${requiredVersion}.x`
+        reason: negotiation.reason
       });
       
       this.udpServer.disconnectClient(assignedClientId, 'version_mismatch');
       return;
     }
     
+    const { protocol } = negotiation;
+    
+    // Verify the session token issued by POST /api/auth/login
+    let sessionKey: Buffer | undefined;
+    let authenticatedUserId: number | undefined;
+    let sessionId: string | undefined;
+    if (this.settings.requireAuthentication) {
+      const verification = message.sessionToken
+        ? authManager.verifyToken(message.sessionToken, rinfo.address)
+        : { valid: false as const, reason: 'Authentication required' };
+      
+      if (!verification.valid) {
+        log(`Rejected connection from ${rinfo.address}:${rinfo.port}: ${verification.reason}`, 'warn');
+        
+        this.udpServer.sendToClient(assignedClientId, {
+          messageType: MessageType.SERVER_REJECT,
+          clientId: assignedClientId,
+          reason: verification.reason
+        });
+        
+        this.udpServer.disconnectClient(assignedClientId, 'auth_failed');
+        return;
+      }
+      
+      sessionKey = verification.sessionKey;
+      authenticatedUserId = verification.claims.userId;
+      sessionId = verification.claims.sessionId;
+    }
+    
+    // A client presenting the token of a suspended session picks up where it left off
+    const suspendedClientId = sessionId ? this.udpServer.findSuspendedClient(sessionId) : undefined;
+    if (suspendedClientId && sessionId && sessionKey && authenticatedUserId !== undefined) {
+      this.resumeClientSession(assignedClientId, suspendedClientId, protocol, authenticatedUserId, sessionKey, sessionId, rinfo);
+      return;
+    }
+    
     try {
-      // Check if user exists (if not, create one for testing)
-      let user = await storage.getUserByUsername(username);
+      let user = authenticatedUserId !== undefined
+        ? await storage.getUser(authenticatedUserId)
+        : await storage.getUserByUsername(username);
+      
       if (!user) {
+        if (this.settings.requireAuthentication) {
+          throw new Error(`User ${authenticatedUserId} from session token no longer exists`);
+        }
+        
+        // Without authentication, unknown usernames get a throwaway account for testing
         user = await storage.createUser({
           username,
-          password: 'password' // In a real app, we'd use proper authentication
+          password: await authManager.hashPassword(randomUUID())
         });
       }
       
+      // NPCs look up the player's faction on every update
+      this.factionManager.registerUser(user);
+      
       // Initial position (could be randomized or determined by game logic)
-      const initialPosition = new Vector3(0, 0, 0);
+      const spawnArea = this.spawnAreaId ? this.aoiManager.getArea(this.spawnAreaId) : undefined;
+      const initialPosition = spawnArea ? spawnArea.center.clone() : new Vector3(0, 0, 0);
       const initialVelocity = new Vector3(0, 0, 0);
       const initialRotation = Quaternion.identity();
       
@@ -242,8 +385,17 @@ export class GameServer {
         port: rinfo.port
       });
       
-      // Register player with game state manager
+      // Apply the negotiated protocol before any state is sent
+      this.udpServer.setClientProtocol(assignedClientId, protocol);
+      
+      // From here on the client must sign its datagrams with the session key
+      if (sessionKey) {
+        this.udpServer.setClientSession(assignedClientId, user.id, sessionKey, sessionId);
+      }
+      
+      // Register player with game state manager, and hand it to the shard simulating its area
       this.gameStateManager.registerPlayer(player);
+      this.shardCoordinator?.addPlayer(assignedClientId);
       
       // Send accept message to client
       this.udpServer.sendToClient(assignedClientId, {
@@ -253,14 +405,18 @@ export class GameServer {
         serverTime: Date.now(),
         initialPosition,
         initialVelocity,
-        initialRotation
-      }, true); // Send reliably
+        initialRotation,
+        protocolVersion: protocol.protocolVersion,
+        capabilities: protocol.capabilities,
+        frameShiftSequence: 0
+      }, DeliveryChannel.RELIABLE_UNORDERED); // Send reliably
       
       // Send initial state updates
       this.celestialManager.sendCelestialUpdates(assignedClientId);
       this.gameStateManager.sendAreaOfInterestUpdate(assignedClientId);
+      this.missionManager?.sendMissionList(assignedClientId);
       
-      log(`Client ${assignedClientId} (${username}) successfully connected`, 'info');
+      log(`Client ${assignedClientId} (${user.username}) successfully connected with protocol v${protocol.protocolVersion}, capabilities 0x${protocol.capabilities.toString(16)}`, 'info');
     } catch (error) {
       log(`Error handling client connect: ${error}`, 'error');
       
@@ -274,6 +430,79 @@ export class GameServer {
     }
   }
   
+  // Move a reconnecting client back onto its suspended session, keeping its client ID,
+  // player state, area of interest and unacknowledged reliable messages
+  private resumeClientSession(
+    newClientId: string,
+    clientId: string,
+    protocol: NegotiatedProtocol,
+    userId: number,
+    sessionKey: Buffer,
+    sessionId: string,
+    rinfo: any
+  ): void {
+    if (!this.udpServer.resumeClient(clientId, newClientId)) {
+      this.udpServer.disconnectClient(newClientId, 'server_error');
+      return;
+    }
+    
+    this.udpServer.setClientProtocol(clientId, protocol);
+    this.udpServer.setClientSession(clientId, userId, sessionKey, sessionId);
+    
+    const player = this.gameStateManager.resumePlayer(clientId);
+    if (!player) {
+      log(`Suspended client ${clientId} has no player to resume`, 'error');
+      this.udpServer.disconnectClient(clientId, 'server_error');
+      return;
+    }
+    
+    // Its shard starts over with a full snapshot as well
+    this.shardCoordinator?.resetPlayer(clientId);
+    
+    storage.updatePlayer(player.id, {
+      isConnected: true,
+      ipAddress: rinfo.address,
+      port: rinfo.port
+    }).catch(error => {
+      log(`Error updating player record: ${error}`, 'error');
+    });
+    
+    // The client learns its previous ID and current state from the accept. That state includes
+    // frame shifts that may still be resent, the client skips those up to frameShiftSequence.
+    this.udpServer.sendToClient(clientId, {
+      messageType: MessageType.SERVER_ACCEPT,
+      clientId,
+      assignedClientId: clientId,
+      serverTime: Date.now(),
+      initialPosition: new Vector3(player.positionX, player.positionY, player.positionZ),
+      initialVelocity: new Vector3(player.velocityX, player.velocityY, player.velocityZ),
+      initialRotation: new Quaternion(player.rotationX, player.rotationY, player.rotationZ, player.rotationW),
+      protocolVersion: protocol.protocolVersion,
+      capabilities: protocol.capabilities,
+      frameShiftSequence: this.gameStateManager.resetFrameShifts(clientId)
+    }, DeliveryChannel.RELIABLE_UNORDERED);
+    
+    this.celestialManager.sendCelestialUpdates(clientId);
+    this.gameStateManager.sendAreaOfInterestUpdate(clientId);
+    this.missionManager?.sendMissionList(clientId);
+    
+    log(`Client ${clientId} resumed its session from ${rinfo.address}:${rinfo.port}`, 'info');
+  }
+  
+  private handleClientSuspend(clientId: string, reason: string): void {
+    log(`Client ${clientId} lost contact (${reason}), keeping its session for ${this.settings.reconnectGracePeriod / 1000}s`, 'info');
+    
+    storage.getPlayerByClientId(clientId)
+      .then(player => {
+        if (player) {
+          storage.updatePlayer(player.id, { isConnected: false });
+        }
+      })
+      .catch(error => {
+        log(`Error updating player record: ${error}`, 'error');
+      });
+  }
+  
   private handleClientDisconnect(clientId: string, reason: string): void {
     log(`Client ${clientId} disconnected: ${reason}`, 'info');
     
@@ -291,16 +520,27 @@ export class GameServer {
       
       // Remove from game state
       this.gameStateManager.removePlayer(clientId);
+      this.shardCoordinator?.removePlayer(clientId);
     } catch (error) {
       log(`Error handling client disconnect: ${error}`, 'error');
     }
   }
   
   private handleClientStateUpdate(message: ClientStateUpdateMessage): void {
-    const { clientId, position, velocity, rotation } = message;
+    const { clientId, velocity, rotation } = message;
     
-    // Update game state
+    // With server-authoritative movement clients send inputs instead of their state
+    if (this.settings.movementAuthority === 'server') {
+      if (this.settings.logLevel === 'debug') {
+        log(`Ignoring state update from ${clientId}, movement is server-authoritative`, 'debug');
+      }
+      return;
+    }
+    
+    // Update game state, in the frame the player is in now
+    const position = this.gameStateManager.reconcileReportedPosition(clientId, message.position, message.frameShiftSequence);
     this.gameStateManager.updatePlayerState(clientId, position, velocity, rotation);
+    this.shardCoordinator?.syncPlayerState(clientId);
     
     // Run occasional sanity checks
     if (Math.random() < 1 / this.settings.sanityCheckFrequency) {
@@ -316,6 +556,28 @@ export class GameServer {
     }
   }
   
+  private handleClientInput(message: ClientInputMessage): void {
+    if (this.settings.movementAuthority !== 'server') {
+      if (this.settings.logLevel === 'debug') {
+        log(`Ignoring input from ${message.clientId}, movement is client-authoritative`, 'debug');
+      }
+      return;
+    }
+    
+    if (this.shardCoordinator) {
+      this.shardCoordinator.routeInput(message);
+    } else {
+      this.gameStateManager.applyPlayerInput(message.clientId, message);
+    }
+  }
+  
+  private handleSanityCheckResponse(message: ClientSanityCheckResponseMessage): void {
+    const result = this.sanityCheckManager.processCheckResponse(message.clientId, message.checkId, message.reportedValue);
+    if (!result.passed) {
+      log(`Sanity check ${message.checkId} failed for client ${message.clientId}: ${result.reason}`, 'warn');
+    }
+  }
+  
   // Start the server
   public async start(): Promise<void> {
     if (this.isRunning) {
@@ -324,12 +586,16 @@ export class GameServer {
     }
     
     try {
-      // Initialize components
+      // Initialize components, celestial bodies first since areas are placed around them
+      log('Initializing Celestial bodies...', 'info');
+      await this.celestialManager.initialize();
+      
       log('Initializing Area of Interest system...', 'info');
       await this.initializeAOI();
       
-      log('Initializing Celestial bodies...', 'info');
-      await this.celestialManager.initialize();
+      // Factions before NPCs, fleets without one are given the default faction of their type
+      log('Initializing Faction system...', 'info');
+      await this.factionManager.initialize();
       
       log('Initializing NPC system...', 'info');
       await this.initializeNPCs();
@@ -343,10 +609,16 @@ export class GameServer {
         this.udpServer,
         this.gameStateManager,
         this.npcManager,
-        this.celestialManager
+        this.celestialManager,
+        this.factionManager
       );
       await this.missionManager.initialize();
       
+      if (this.shardCoordinator) {
+        log('Starting shard processes...', 'info');
+        this.shardCoordinator.start();
+      }
+      
       // Start update loops
       this.startUpdateLoops();
       
@@ -372,15 +644,15 @@ export class GameServer {
       // Reinitialize all components
       log('Reinitializing server components after world reset...', 'info');
       
+      // Reload celestial bodies
+      log('Reinitializing celestial bodies...', 'info');
+      await this.celestialManager.initialize();
+      
       // Reset AOI Manager
       log('Reinitializing Areas of Interest...', 'info');
       this.aoiManager = new AOIManager(this.settings.aoiGridCellSize);
       await this.initializeAOI();
       
-      // Reload celestial bodies
-      log('Reinitializing celestial bodies...', 'info');
-      await this.celestialManager.initialize();
-      
       // Reload NPC system
       log('Reinitializing NPC system...', 'info');
       await this.initializeNPCs();
@@ -398,7 +670,8 @@ export class GameServer {
           this.udpServer,
           this.gameStateManager,
           this.npcManager,
-          this.celestialManager
+          this.celestialManager,
+          this.factionManager
         );
         await this.missionManager.initialize();
       }
@@ -416,119 +689,163 @@ export class GameServer {
     }
   }
   
-  // Initialize areas of interest
+  // Initialize areas of interest from storage, creating the default sectors on first start
   private async initializeAOI(): Promise<void> {
     try {
-      // Get existing areas from storage
-      const areas = await storage.getAllAreasOfInterest();
-      
-      // Clear existing areas from storage first
-      await storage.clearAllAreasOfInterest();
-      
-      // Create default areas
-      log('Creating default areas of interest...', 'info');
-      
-      // Earth orbit
-      const earthOrbit = await storage.createAreaOfInterest({
-        name: 'Earth Orbit (Alpha Sector)',
-        centerX: 0,
-        centerY: 0,
-        centerZ: 0,
-        radius: this.settings.aoiRadius,
-        nearestCelestialBodyId: 3, // Earth
-        playerCount: 0,
-        npcCount: 0,
-        updateFrequency: 60,
-        latency: 0,
-        load: 0,
-        capacityLimit: this.settings.aoiMaxEntities,
-      });
-      
-      this.aoiManager.createArea(
-        `aoi-${earthOrbit.id}`,
-        earthOrbit.name,
-        new Vector3(earthOrbit.centerX, earthOrbit.centerY, earthOrbit.centerZ),
-        earthOrbit.radius,
-        earthOrbit.capacityLimit
-      );
+      let areas = await storage.getAllAreasOfInterest();
+      
+      const centerFormat = await storage.getSettingValue<string>('AOI_CENTER_FORMAT', 'absolute');
+      if (areas.length === 0) {
+        log('Creating default areas of interest...', 'info');
+        areas = await this.createDefaultAreas();
+      } else if (centerFormat !== 'body-relative') {
+        log('Converting stored area of interest centers to offsets from their celestial bodies...', 'info');
+        areas = await this.convertAreaCenters(areas);
+      }
       
-      // Mars colony
-      const marsColony = await storage.createAreaOfInterest({
-        name: 'Mars Colony (Beta Sector)',
-        centerX: 200000000,
-        centerY: 0,
-        centerZ: 0,
-        radius: this.settings.aoiRadius,
-        nearestCelestialBodyId: 4, // Mars
-        playerCount: 0,
-        npcCount: 0,
-        updateFrequency: 40,
-        latency: 0,
-        load: 0,
-        capacityLimit: this.settings.aoiMaxEntities,
-      });
+      if (centerFormat !== 'body-relative') {
+        await storage.updateSetting(
+          'AOI_CENTER_FORMAT',
+          'body-relative',
+          'string',
+          'aoi',
+          'Stored area of interest centers are offsets from their celestial body'
+        );
+      }
       
-      this.aoiManager.createArea(
-        `aoi-${marsColony.id}`,
-        marsColony.name,
-        new Vector3(marsColony.centerX, marsColony.centerY, marsColony.centerZ),
-        marsColony.radius,
-        marsColony.capacityLimit
-      );
+      areas.sort((a, b) => a.id - b.id);
+      areas.forEach(area => this.applyAreaOfInterest(area));
       
-      // Jupiter mining belt
-      const jupiterMining = await storage.createAreaOfInterest({
-        name: 'Jupiter Mining Belt (Gamma Sector)',
-        centerX: 600000000,
-        centerY: 0,
-        centerZ: 0,
-        radius: this.settings.aoiRadius,
-        nearestCelestialBodyId: 5, // Jupiter
-        playerCount: 0,
-        npcCount: 0,
-        updateFrequency: 30,
-        latency: 0,
-        load: 0,
-        capacityLimit: this.settings.aoiMaxEntities,
-      });
+      // New players start in the first area
+      this.spawnAreaId = areas.length > 0 ? `aoi-${areas[0].id}` : null;
       
-      this.aoiManager.createArea(
-        `aoi-${jupiterMining.id}`,
-        jupiterMining.name,
-        new Vector3(jupiterMining.centerX, jupiterMining.centerY, jupiterMining.centerZ),
-        jupiterMining.radius,
-        jupiterMining.capacityLimit
-      );
+      log(`Initialized ${this.aoiManager.getAllAreas().length} areas of interest`, 'info');
+    } catch (error) {
+      log(`Error initializing areas of interest: ${error}`, 'error');
+      throw error;
+    }
+  }
+  
+  // Store the default sectors, each in orbit just above the surface of its planet
+  private async createDefaultAreas(): Promise<AreaOfInterestRecord[]> {
+    const sectors = [
+      { name: 'Earth Orbit (Alpha Sector)', bodyName: 'Earth', updateFrequency: 60 },
+      { name: 'Mars Colony (Beta Sector)', bodyName: 'Mars', updateFrequency: 40 },
+      { name: 'Jupiter Mining Belt (Gamma Sector)', bodyName: 'Jupiter', updateFrequency: 30 },
+      { name: 'Saturn Rings (Delta Sector)', bodyName: 'Saturn', updateFrequency: 60 }
+    ];
+    
+    const areas: AreaOfInterestRecord[] = [];
+    for (const sector of sectors) {
+      const body = this.getCelestialBodyByName(sector.bodyName);
       
-      // Saturn rings
-      const saturnRings = await storage.createAreaOfInterest({
-        name: 'Saturn Rings (Delta Sector)',
-        centerX: 1200000000,
-        centerY: 0,
+      areas.push(await storage.createAreaOfInterest({
+        name: sector.name,
+        // Relative to the body, see applyAreaOfInterest
+        centerX: 0,
+        centerY: body.radius + this.settings.aoiRadius,
         centerZ: 0,
         radius: this.settings.aoiRadius,
-        nearestCelestialBodyId: 6, // Saturn
+        nearestCelestialBodyId: body.id,
         playerCount: 0,
         npcCount: 0,
-        updateFrequency: 60,
+        updateFrequency: sector.updateFrequency,
         latency: 0,
         load: 0,
         capacityLimit: this.settings.aoiMaxEntities,
-      });
+      }));
+    }
+    
+    return areas;
+  }
+  
+  // Areas stored before they were anchored to celestial bodies have absolute centers. Convert them
+  // to offsets from the body's current position, so each area starts where it was.
+  private async convertAreaCenters(areas: AreaOfInterestRecord[]): Promise<AreaOfInterestRecord[]> {
+    const positions = this.celestialManager.getCurrentPositions();
+    const converted: AreaOfInterestRecord[] = [];
+    
+    for (const area of areas) {
+      const bodyPosition = area.nearestCelestialBodyId != null ? positions.get(area.nearestCelestialBodyId)?.position : undefined;
+      if (!bodyPosition) {
+        converted.push(area);
+        continue;
+      }
       
+      const offset = new Vector3(area.centerX, area.centerY, area.centerZ).subtract(bodyPosition);
+      const updated = await storage.updateAreaOfInterest(area.id, { centerX: offset.x, centerY: offset.y, centerZ: offset.z });
+      converted.push(updated ?? area);
+    }
+    
+    return converted;
+  }
+  
+  // Register a stored area with the AOI manager, or apply an edit to an area already registered.
+  // Areas with a celestial body are anchored to it, and their stored center is relative to the body.
+  public applyAreaOfInterest(record: AreaOfInterestRecord): void {
+    const areaId = `aoi-${record.id}`;
+    const storedCenter = new Vector3(record.centerX, record.centerY, record.centerZ);
+    
+    const bodyId = record.nearestCelestialBodyId ?? undefined;
+    const bodyPosition = bodyId !== undefined ? this.celestialManager.getCurrentPositions().get(bodyId)?.position : undefined;
+    if (bodyId !== undefined && !bodyPosition) {
+      log(`Celestial body ${bodyId} of area ${areaId} not found, using its center as an absolute position`, 'warn');
+    }
+    
+    const definition: AreaDefinition = {
+      name: record.name,
+      center: bodyPosition ? bodyPosition.add(storedCenter) : storedCenter,
+      radius: record.radius,
+      capacityLimit: record.capacityLimit,
+      updateFrequency: record.updateFrequency,
+      celestialBodyId: bodyPosition ? bodyId : undefined,
+      bodyOffset: bodyPosition ? storedCenter : undefined
+    };
+    
+    if (!this.aoiManager.updateArea(areaId, definition)) {
       this.aoiManager.createArea(
-        `aoi-${saturnRings.id}`,
-        saturnRings.name,
-        new Vector3(saturnRings.centerX, saturnRings.centerY, saturnRings.centerZ),
-        saturnRings.radius,
-        saturnRings.capacityLimit
+        areaId,
+        definition.name,
+        definition.center,
+        definition.radius,
+        definition.capacityLimit,
+        definition.updateFrequency
       );
       
-      log(`Initialized ${this.aoiManager.getAllAreas().length} areas of interest`, 'info');
-    } catch (error) {
-      log(`Error initializing areas of interest: ${error}`, 'error');
-      throw error;
+      if (definition.celestialBodyId !== undefined && definition.bodyOffset) {
+        this.aoiManager.anchorArea(areaId, definition.celestialBodyId, definition.bodyOffset);
+      }
+    }
+    
+    this.gameStateManager.broadcastAreaOfInterestUpdate();
+  }
+  
+  // Remove a deleted area from the AOI manager. Its entities move to the areas they are now in.
+  public removeAreaOfInterest(id: number): boolean {
+    const areaId = `aoi-${id}`;
+    if (!this.aoiManager.removeArea(areaId)) {
+      return false;
+    }
+    
+    this.gameStateManager.removeArea(areaId);
+    this.gameStateManager.broadcastAreaOfInterestUpdate();
+    return true;
+  }
+  
+  // Find a celestial body of the solar system by name
+  private getCelestialBodyByName(name: string): CelestialBody {
+    const body = this.celestialManager.getAllBodies().find(body => body.name === name);
+    if (!body) {
+      throw new Error(`Celestial body ${name} not found`);
     }
+    return body;
+  }
+  
+  // Move areas anchored to celestial bodies, and the players and NPCs in them, to where the bodies are now
+  private followCelestialBodies(): void {
+    const moves = this.aoiManager.followCelestialBodies(this.celestialManager.getCurrentPositions());
+    this.gameStateManager.moveEntitiesWithAreas(moves);
+    this.shardCoordinator?.followAreaMoves(moves);
   }
   
   // Initialize NPC fleets
@@ -686,8 +1003,14 @@ export class GameServer {
     // Main game loop
     setInterval(() => this.update(), tickInterval);
     
-    // Celestial update loop (less frequent)
-    setInterval(() => this.celestialManager.update(), 1000);
+    // State replication loop, each area is sent at its own update frequency
+    setInterval(() => this.replicateState(), Math.floor(1000 / MAX_UPDATE_FREQUENCY));
+    
+    // Celestial update loop (less frequent), areas follow their bodies
+    setInterval(() => {
+      this.celestialManager.update();
+      this.followCelestialBodies();
+    }, 1000);
     
     // Broadcast celestial updates (even less frequent)
     setInterval(() => this.celestialManager.sendCelestialUpdates(), 5000);
@@ -695,6 +1018,9 @@ export class GameServer {
     // NPC state updates
     setInterval(() => this.gameStateManager.sendNPCUpdates(), 500);
     
+    // Spawn, split and merge areas of interest as players move
+    setInterval(() => this.gameStateManager.rebalanceAreas(), 5000);
+    
     // Mission updates
     // The mission manager has its own internal update timers
     
@@ -721,13 +1047,30 @@ export class GameServer {
       // Update simulated players
       this.gameStateManager.updateSimulatedPlayers(deltaTime);
       
-      // Update game state and send to clients
-      this.gameStateManager.sendStateUpdates();
+      // Update NPC movement and behaviors
+      this.gameStateManager.updateNPCs();
+      
+      // Keep a short history of entity states for lag compensation
+      this.gameStateManager.recordStateHistory();
+      
+      // Migrate players between shards and mirror the world to them
+      this.shardCoordinator?.update();
     } catch (error) {
       log(`Error in update loop: ${error}`, 'error');
     }
   }
   
+  // Send state updates to clients in areas that are due for replication. Shards replicate their own players.
+  private replicateState(): void {
+    if (this.isShuttingDown || this.shardCoordinator) return;
+    
+    try {
+      this.gameStateManager.sendStateUpdates();
+    } catch (error) {
+      log(`Error in replication loop: ${error}`, 'error');
+    }
+  }
+  
   // Record server statistics
   private recordServerStats(): void {
     try {
@@ -739,9 +1082,8 @@ export class GameServer {
       const memoryUsage = process.memoryUsage();
       const memoryUsageMB = Math.round(memoryUsage.heapUsed / 1024 / 1024);
       
-      // Get network stats - this is a simplification, 
-      // in a real app we'd track actual bytes sent/received
-      const networkTraffic = this.gameStateManager.getPlayerCount() * 2; // MB/s approximation
+      // Get network stats from the UDP server's traffic counters
+      const { networkTraffic, averageRtt, packetLoss } = this.calculateNetworkStats();
       
       // Get player count
       const playerCount = this.gameStateManager.getPlayerCount();
@@ -752,20 +1094,42 @@ export class GameServer {
         cpuLoad: cpuUsagePercent,
         memoryUsage: memoryUsageMB,
         networkTraffic,
-        playerCount
+        playerCount,
+        averageRtt,
+        packetLoss
       }).catch(error => {
         log(`Error recording server stats: ${error}`, 'error');
       });
       
       // Log to console if needed
       if (this.settings.logLevel === 'debug') {
-        log(`Server stats: CPU ${cpuUsagePercent.toFixed(1)}%, Memory ${memoryUsageMB}MB, Network ${networkTraffic}MB/s, Players ${playerCount}`, 'debug');
+        log(`Server stats: CPU ${cpuUsagePercent.toFixed(1)}%, Memory ${memoryUsageMB}MB, Network ${networkTraffic.toFixed(3)}MB/s, RTT ${averageRtt.toFixed(0)}ms, Loss ${packetLoss.toFixed(1)}%, Players ${playerCount}`, 'debug');
       }
     } catch (error) {
       log(`Error recording server stats: ${error}`, 'error');
     }
   }
   
+  // Calculate traffic since the last sample, plus average latency and loss across clients
+  private calculateNetworkStats(): { networkTraffic: number, averageRtt: number, packetLoss: number } {
+    const now = Date.now();
+    const totals = this.udpServer.getNetworkTotals();
+    const bytes = totals.bytesIn + totals.bytesOut;
+    const elapsedSeconds = (now - this.lastNetworkSample.time) / 1000;
+    
+    const networkTraffic = elapsedSeconds > 0
+      ? (bytes - this.lastNetworkSample.bytes) / 1024 / 1024 / elapsedSeconds
+      : 0;
+    
+    this.lastNetworkSample = { time: now, bytes };
+    
+    return {
+      networkTraffic,
+      averageRtt: totals.averageRtt || 0,
+      packetLoss: totals.averagePacketLoss * 100
+    };
+  }
+  
   // Calculate CPU usage percentage
   private calculateCpuUsage(cpuUsage: { user: number, system: number }): number {
     const now = Date.now();
@@ -800,7 +1164,12 @@ export class GameServer {
         this.udpServer.disconnectClient(clientId, 'server_shutdown');
       }
       
-      // Close UDP server
+      this.shardCoordinator?.shutdown();
+      
+      // Close transports
+      if (this.webSocketTransport) {
+        this.webSocketTransport.close();
+      }
       this.udpServer.close();
       
       log('Server has been shut down', 'info');
@@ -842,6 +1211,57 @@ export class GameServer {
     return this.gameStateManager.getPlayerCount();
   }
   
+  // Get network statistics for a connected client
+  public getClientNetworkStats(clientId: string): ClientNetworkStats | undefined {
+    return this.udpServer.getClientNetworkStats(clientId);
+  }
+  
+  // Temporary address bans
+  public getBans(): AddressBan[] {
+    return this.udpServer.getBans();
+  }
+  
+  public banAddress(address: string, reason: string, duration?: number): AddressBan {
+    return this.udpServer.banAddress(address, reason, duration);
+  }
+  
+  public unbanAddress(address: string): boolean {
+    return this.udpServer.unbanAddress(address);
+  }
+  
+  // Whether connects currently have to answer a cookie challenge
+  public isConnectChallengeActive(): boolean {
+    return this.udpServer.isConnectChallengeActive();
+  }
+  
+  // Packet captures of the game traffic
+  public startCapture(file: string): boolean {
+    return this.udpServer.startCapture(file);
+  }
+  
+  public stopCapture(): Promise<CaptureStatus | null> {
+    return this.udpServer.stopCapture();
+  }
+  
+  public getCaptureStatus(): CaptureStatus | null {
+    return this.udpServer.getCaptureStatus();
+  }
+  
+  // Shard processes and the areas they simulate, empty when players are simulated in this process
+  public getShardStatus(): ShardStatus[] {
+    return this.shardCoordinator ? this.shardCoordinator.getStatus() : [];
+  }
+  
+  // Move an area and its sub-areas to another shard, false without shards or if either is unknown
+  public assignAreaToShard(areaId: string, shardId: number): boolean {
+    return this.shardCoordinator ? this.shardCoordinator.assignArea(areaId, shardId) : false;
+  }
+  
+  // The game socket, for tools that feed it traffic directly
+  public getUDPServer(): UDPServer {
+    return this.udpServer;
+  }
+  
   // Get current server settings
   public getSettings(): ServerSettings {
     return { ...this.settings };
@@ -861,6 +1281,19 @@ export class GameServer {
       log('Warning: Changing AOI radius at runtime may not affect existing areas', 'warn');
     }
     
+    if (newSettings.stateUpdateBudget) {
+      this.gameStateManager.setStateUpdateBudget(newSettings.stateUpdateBudget);
+      this.shardCoordinator?.setStateUpdateBudget(newSettings.stateUpdateBudget);
+    }
+    
+    if (newSettings.reconnectGracePeriod !== undefined) {
+      this.udpServer.setReconnectGracePeriod(newSettings.reconnectGracePeriod);
+    }
+    
+    if (newSettings.movementAuthority) {
+      this.gameStateManager.setMovementAuthority(newSettings.movementAuthority);
+    }
+    
     if (newSettings.sanityCheckFrequency) {
       // Nothing to do here, it's used directly in the update loop
     }
@@ -874,14 +1307,17 @@ const initializeServer = async () => {
   try {
     const udpPort = parseInt(process.env.UDP_PORT || '7777', 10);
     const httpPort = 5000; // Using port 5000 for all traffic as per requirements
+    const shardCount = parseInt(process.env.SHARD_COUNT || '0', 10);
     
-    serverInstance = new GameServer(udpPort, httpPort);
+    serverInstance = new GameServer(udpPort, httpPort, shardCount);
     await serverInstance.start();
   } catch (error) {
     log(`Failed to initialize server: ${error}`, 'error');
   }
 };
 
-// Start the server
-initializeServer();
+// Start the server, unless a tool such as the capture replay creates its own
+if (process.env.GAME_SERVER_AUTOSTART !== 'false') {
+  initializeServer();
+}
 
@@ -1,15 +1,20 @@
 import { Vector3 } from '@shared/math';
-import { MissionType, MissionStatus, MissionState } from '@shared/types';
+import { MissionType, MissionStatus, MissionState, MissionDelta, MissionDeltaField, MessageType, DeliveryChannel } from '@shared/types';
 import { Mission } from '@shared/schema';
 import { UDPServer } from './udp';
 import { GameStateManager } from './state';
 import { NPCManager } from './npc';
 import { CelestialManager } from './celestial';
+import { FactionManager } from './faction';
 import { v4 as uuidv4 } from 'uuid';
 
+// Missions per SERVER_MISSION_UPDATE, so a long mission history is sent as several messages
+const MISSION_UPDATE_BATCH_SIZE = 32;
+
 /**
  * The MissionManager handles all game missions including:
  * - Creating and assigning missions to NPC fleets
+ * - Changing faction standings when missions are completed or failed
  * - Generating random missions based on the state of the game world
  * - Tracking mission progress and completion
  * - Providing mission information to players
@@ -20,10 +25,14 @@ export class MissionManager {
   private completedMissions: Map<string, Mission> = new Map();
   private failedMissions: Map<string, Mission> = new Map();
   
+  // Mission states as last broadcast, so later broadcasts only carry what changed
+  private sentMissionStates: Map<string, MissionState> = new Map();
+  
   private udpServer: UDPServer;
   private gameStateManager: GameStateManager;
   private npcManager: NPCManager;
   private celestialManager: CelestialManager;
+  private factionManager: FactionManager;
   
   private missionTypeProbabilities: Record<MissionType, number> = {
     [MissionType.COMBAT]: 0.2,
@@ -121,12 +130,14 @@ export class MissionManager {
     udpServer: UDPServer,
     gameStateManager: GameStateManager,
     npcManager: NPCManager,
-    celestialManager: CelestialManager
+    celestialManager: CelestialManager,
+    factionManager: FactionManager
   ) {
     this.udpServer = udpServer;
     this.gameStateManager = gameStateManager;
     this.npcManager = npcManager;
     this.celestialManager = celestialManager;
+    this.factionManager = factionManager;
   }
   
   /**
@@ -226,6 +237,10 @@ export class MissionManager {
     const descriptions = this.missionDescriptions[missionType];
     const description = descriptions[Math.floor(Math.random() * descriptions.length)];
     
+    // Select the faction offering the mission
+    const factions = this.factionManager.getAllFactions();
+    const faction = factions.length > 0 ? factions[Math.floor(Math.random() * factions.length)] : undefined;
+    
     // Create the mission object
     const missionId = uuidv4();
     const mission: Mission = {
@@ -240,6 +255,7 @@ export class MissionManager {
       startLocationId: startLocation.id,
       endLocationId: endLocation.id,
       assignedFleetId: null, // Will be assigned later
+      factionId: faction?.factionId ?? null,
       progressValue: 0,
       progressTarget,
       startTime,
@@ -318,6 +334,109 @@ export class MissionManager {
       // Update mission progress based on mission type
       this.updateMissionProgress(mission);
     }
+    
+    this.broadcastMissionChanges();
+  }
+  
+  /**
+   * Send the full state of every mission to a client, e.g. right after it connects
+   */
+  sendMissionList(clientId: string): void {
+    const states = Array.from(this.missions.values()).map(mission => this.missionToState(mission));
+    this.sendMissionStates(states, clientId);
+  }
+  
+  /**
+   * Broadcast missions created since the last broadcast in full, and changes to the others as deltas
+   */
+  private broadcastMissionChanges(): void {
+    const currentStates: Map<string, MissionState> = new Map();
+    const added: MissionState[] = [];
+    const deltas: MissionDelta[] = [];
+    
+    this.missions.forEach((mission, missionId) => {
+      const state = this.missionToState(mission);
+      currentStates.set(missionId, state);
+      
+      const previous = this.sentMissionStates.get(missionId);
+      if (!previous) {
+        added.push(state);
+        return;
+      }
+      
+      const delta = this.diffMissionState(previous, state);
+      if (delta) {
+        deltas.push(delta);
+      }
+    });
+    
+    const removedMissionIds = Array.from(this.sentMissionStates.keys()).filter(missionId => !currentStates.has(missionId));
+    this.sentMissionStates = currentStates;
+    
+    this.sendMissionStates(added);
+    
+    if (deltas.length > 0 || removedMissionIds.length > 0) {
+      // Deltas go on the ordered channel so they apply after the full states they refer to
+      this.udpServer.sendToAll({
+        messageType: MessageType.SERVER_MISSION_DELTA,
+        sequence: 0, // Will be set by UDP server
+        timestamp: Date.now(),
+        clientId: '',
+        missions: deltas,
+        removedMissionIds
+      }, DeliveryChannel.RELIABLE_ORDERED);
+    }
+  }
+  
+  /**
+   * Send full mission states to one client, or to all clients when no client is given
+   */
+  private sendMissionStates(states: MissionState[], clientId?: string): void {
+    for (let i = 0; i < states.length; i += MISSION_UPDATE_BATCH_SIZE) {
+      const message = {
+        messageType: MessageType.SERVER_MISSION_UPDATE,
+        sequence: 0, // Will be set by UDP server
+        timestamp: Date.now(),
+        clientId: clientId || '',
+        missions: states.slice(i, i + MISSION_UPDATE_BATCH_SIZE)
+      };
+      
+      if (clientId) {
+        this.udpServer.sendToClient(clientId, message, DeliveryChannel.RELIABLE_ORDERED);
+      } else {
+        this.udpServer.sendToAll(message, DeliveryChannel.RELIABLE_ORDERED);
+      }
+    }
+  }
+  
+  /**
+   * Fields of a mission that changed between two states, or null if nothing the delta carries changed
+   */
+  private diffMissionState(previous: MissionState, current: MissionState): MissionDelta | null {
+    const delta: MissionDelta = { missionId: current.missionId, fieldMask: 0 };
+    
+    if (current.status !== previous.status) {
+      delta.fieldMask |= MissionDeltaField.STATUS;
+      delta.status = current.status;
+    }
+    if (current.progressValue !== previous.progressValue) {
+      delta.fieldMask |= MissionDeltaField.PROGRESS;
+      delta.progressValue = current.progressValue;
+    }
+    if (current.assignedFleetId !== previous.assignedFleetId) {
+      delta.fieldMask |= MissionDeltaField.ASSIGNED_FLEET;
+      delta.assignedFleetId = current.assignedFleetId || '';
+    }
+    if (current.expiryTime !== previous.expiryTime) {
+      delta.fieldMask |= MissionDeltaField.EXPIRY_TIME;
+      delta.expiryTime = current.expiryTime;
+    }
+    if (current.completeTime !== previous.completeTime && current.completeTime !== undefined) {
+      delta.fieldMask |= MissionDeltaField.COMPLETE_TIME;
+      delta.completeTime = current.completeTime;
+    }
+    
+    return delta.fieldMask ? delta : null;
   }
   
   /**
@@ -416,10 +535,15 @@ export class MissionManager {
     
     // Filter fleets that are:
     // 1. Not already assigned
-    // 2. Match the mission type requirements
+    // 2. Not flying for a faction the mission's faction is hostile to
+    // 3. Match the mission type requirements
     const availableFleets = allFleets.filter(fleet => {
       if (assignedFleetIds.has(fleet.fleetId)) return false;
       
+      if (mission.factionId && fleet.factionId && this.factionManager.areHostile(mission.factionId, fleet.factionId)) {
+        return false;
+      }
+      
       // Match fleet types to mission types
       switch (mission.type) {
         case MissionType.COMBAT:
@@ -522,6 +646,10 @@ export class MissionManager {
     if (mission.assignedFleetId) {
       const fleet = this.npcManager.getFleet(mission.assignedFleetId);
       if (fleet) {
+        if (fleet.factionId) {
+          this.factionManager.recordMissionOutcome(mission, fleet.factionId, true);
+        }
+        
         // Reset fleet behavior
         const fleetShips = this.npcManager.getNPCsByFleet(fleet.fleetId);
         fleetShips.forEach(ship => {
@@ -553,6 +681,10 @@ export class MissionManager {
     if (mission.assignedFleetId) {
       const fleet = this.npcManager.getFleet(mission.assignedFleetId);
       if (fleet) {
+        if (fleet.factionId) {
+          this.factionManager.recordMissionOutcome(mission, fleet.factionId, false);
+        }
+        
         // Reset fleet behavior
         const fleetShips = this.npcManager.getNPCsByFleet(fleet.fleetId);
         fleetShips.forEach(ship => {
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Vector3 } from '@shared/math';
+import { FrameShiftTracker } from './movement';
+
+function assertPosition(actual: Vector3, expected: Vector3) {
+  assert.deepEqual({ x: actual.x, y: actual.y, z: actual.z }, { x: expected.x, y: expected.y, z: expected.z });
+}
+
+describe('frame shifts', () => {
+  it('leaves positions of clients without shifts alone', () => {
+    const tracker = new FrameShiftTracker();
+    assertPosition(tracker.reconcile('a', new Vector3(1, 2, 3), 0), new Vector3(1, 2, 3));
+  });
+
+  it('adds the shifts a client had not applied to the position it reported', () => {
+    const tracker = new FrameShiftTracker();
+    assert.equal(tracker.addShift('a', new Vector3(10, 0, 0)), 1);
+    assert.equal(tracker.addShift('a', new Vector3(0, 5, 0)), 2);
+
+    assertPosition(tracker.reconcile('a', new Vector3(1, 1, 1), 0), new Vector3(11, 6, 1));
+    assertPosition(tracker.reconcile('a', new Vector3(11, 1, 1), 1), new Vector3(11, 6, 1));
+    assertPosition(tracker.reconcile('a', new Vector3(11, 6, 1), 2), new Vector3(11, 6, 1));
+  });
+
+  it('does not add shifts back once a client applied them', () => {
+    const tracker = new FrameShiftTracker();
+    tracker.addShift('a', new Vector3(10, 0, 0));
+    tracker.reconcile('a', new Vector3(10, 0, 0), 1);
+
+    // A late state from before the shift can no longer be told apart, the next one corrects it
+    assertPosition(tracker.reconcile('a', new Vector3(0, 0, 0), 0), new Vector3(0, 0, 0));
+  });
+
+  it('keeps the shifts of clients that never confirm any', () => {
+    const tracker = new FrameShiftTracker();
+    for (let i = 0; i < 100; i++) {
+      tracker.addShift('a', new Vector3(1, 0, 0));
+    }
+    assertPosition(tracker.reconcile('a', new Vector3(0, 0, 0), 0), new Vector3(100, 0, 0));
+  });
+
+  it('reports the last shift included in a state sent on resume', () => {
+    const tracker = new FrameShiftTracker();
+    tracker.addShift('a', new Vector3(10, 0, 0));
+    tracker.addShift('a', new Vector3(10, 0, 0));
+
+    assert.equal(tracker.resetClient('a'), 2);
+    assertPosition(tracker.reconcile('a', new Vector3(20, 0, 0), 1), new Vector3(20, 0, 0));
+    assert.equal(tracker.addShift('a', new Vector3(1, 0, 0)), 3);
+    assert.equal(tracker.resetClient('b'), 0);
+  });
+});
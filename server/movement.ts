@@ -0,0 +1,144 @@
+import { Vector3 } from '@shared/math';
+import { ClientInputMessage } from '@shared/types';
+import { integrateShipMotion, ShipMotionParameters, ShipMotionState, DEFAULT_SHIP_MOTION } from '@shared/physics';
+import { isSequenceNewer } from './channels';
+
+// Longest stretch of simulation a single input may cover, in milliseconds
+const MAX_INPUT_DURATION = 100;
+
+// How far a client's simulated time may run ahead of real time, in milliseconds.
+// Absorbs network jitter while stopping clients from speeding up by sending extra inputs.
+const MAX_TIME_AHEAD = 250;
+
+// Per-client input bookkeeping
+interface ClientInputState {
+  lastProcessedInputSequence: number;
+  simulatedTime: number; // Milliseconds of input applied, measured against the wall clock
+}
+
+// Applies client control inputs to player ships for server-authoritative movement
+export class InputProcessor {
+  private clients: Map<string, ClientInputState> = new Map();
+  private params: ShipMotionParameters;
+
+  constructor(params: ShipMotionParameters = DEFAULT_SHIP_MOTION) {
+    this.params = params;
+  }
+
+  // Integrate an input, returning the new ship state or null if the input was rejected
+  applyInput(clientId: string, current: ShipMotionState, input: ClientInputMessage, now: number): ShipMotionState | null {
+    let state = this.clients.get(clientId);
+    if (!state) {
+      // The first input starts the client's simulation clock
+      state = {
+        lastProcessedInputSequence: (input.inputSequence - 1) >>> 0,
+        simulatedTime: now
+      };
+      this.clients.set(clientId, state);
+    }
+
+    // Drop duplicated and out-of-date inputs
+    if (!isSequenceNewer(input.inputSequence, state.lastProcessedInputSequence)) {
+      return null;
+    }
+
+    // A client that fell behind (e.g. after packet loss) cannot bank the lost time
+    state.simulatedTime = Math.max(state.simulatedTime, now - MAX_TIME_AHEAD);
+
+    const duration = Math.max(0, Math.min(MAX_INPUT_DURATION, input.duration));
+    const allowed = Math.max(0, Math.min(duration, now + MAX_TIME_AHEAD - state.simulatedTime));
+
+    state.lastProcessedInputSequence = input.inputSequence;
+    state.simulatedTime += allowed;
+
+    if (allowed === 0) {
+      return current; // Input acknowledged but the client is too far ahead to simulate it
+    }
+
+    return integrateShipMotion(
+      current,
+      input.thrust || Vector3.zero(),
+      input.rotationInput || Vector3.zero(),
+      allowed / 1000,
+      this.params
+    );
+  }
+
+  // The last input applied for a client, echoed in state updates for reconciliation
+  getLastProcessedInput(clientId: string): number | undefined {
+    return this.clients.get(clientId)?.lastProcessedInputSequence;
+  }
+
+  // Continue a client's inputs where another simulation left off, so inputs it already
+  // applied are not applied again
+  restoreClient(clientId: string, lastProcessedInputSequence: number, now: number): void {
+    this.clients.set(clientId, { lastProcessedInputSequence, simulatedTime: now });
+  }
+
+  removeClient(clientId: string): void {
+    this.clients.delete(clientId);
+  }
+}
+
+// Frame shifts sent to a client that its reported states may not include yet
+interface ClientFrameShifts {
+  lastSequence: number;
+  pending: { sequence: number; offset: Vector3 }[];
+}
+
+// Most unconfirmed shifts kept per client. Older ones are folded into the next, which is exact
+// for clients that confirm none of them and close enough for any client still connected.
+const MAX_PENDING_FRAME_SHIFTS = 64;
+
+// Tracks the SERVER_FRAME_SHIFT messages sent to each client, so states a client reported before
+// applying a shift can be moved into the current frame instead of snapping the player back
+export class FrameShiftTracker {
+  private clients: Map<string, ClientFrameShifts> = new Map();
+
+  // Record a shift of a client's frame, returning the sequence to send with it
+  addShift(clientId: string, offset: Vector3): number {
+    let shifts = this.clients.get(clientId);
+    if (!shifts) {
+      shifts = { lastSequence: 0, pending: [] };
+      this.clients.set(clientId, shifts);
+    }
+
+    shifts.lastSequence = (shifts.lastSequence + 1) >>> 0;
+    shifts.pending.push({ sequence: shifts.lastSequence, offset });
+
+    if (shifts.pending.length > MAX_PENDING_FRAME_SHIFTS) {
+      const oldest = shifts.pending.shift()!;
+      shifts.pending[0].offset = oldest.offset.add(shifts.pending[0].offset);
+    }
+
+    return shifts.lastSequence;
+  }
+
+  // Move a position a client reported into the current frame by adding the shifts it had not
+  // applied yet. Shifts it has applied are forgotten.
+  reconcile(clientId: string, position: Vector3, appliedSequence: number): Vector3 {
+    const shifts = this.clients.get(clientId);
+    if (!shifts) {
+      return position;
+    }
+
+    shifts.pending = shifts.pending.filter(shift => isSequenceNewer(shift.sequence, appliedSequence));
+    return shifts.pending.reduce((reconciled, shift) => reconciled.add(shift.offset), position);
+  }
+
+  // Forget pending shifts once the client was sent a state that includes them, returning the
+  // sequence of the last one so the client can ignore them if they are delivered again
+  resetClient(clientId: string): number {
+    const shifts = this.clients.get(clientId);
+    if (!shifts) {
+      return 0;
+    }
+
+    shifts.pending = [];
+    return shifts.lastSequence;
+  }
+
+  removeClient(clientId: string): void {
+    this.clients.delete(clientId);
+  }
+}
@@ -1,8 +1,10 @@
+import { EventEmitter } from 'events';
 import { Vector3, Quaternion } from '@shared/math';
 import { CelestialBody, NpcShip, NpcFleet, ShipTemplate } from '@shared/schema';
 import { NPCState } from '@shared/types';
 import { updateCelestialBodyPosition } from '@shared/physics';
 import { storage } from './storage';
+import type { FactionManager } from './faction';
 
 // NPC AI states
 export enum NPCAIState {
@@ -69,8 +71,57 @@ interface NPCParameters {
   pathfindingUpdateInterval: number; // How often to update paths (ms)
   obstacleAvoidanceDistance: number; // Distance to begin obstacle avoidance
   formationKeepingTolerance: number; // Maximum distance from formation position
+  signatureRadius: number; // Projectiles passing this close hit the ship
+  maxHull: number;
+  maxShield: number;
+  weaponDamage: number; // Per hit, 0 for unarmed ships
+  weaponRange: number; // Distance a projectile travels before it expires
+  weaponCooldown: number; // Time between shots (ms)
+  projectileSpeed: number;
 }
 
+// A shot in flight, moved and tested for hits on every update
+interface Projectile {
+  shooter?: NpcShip; // Unset for shots fired by players
+  shooterId: string;
+  position: Vector3;
+  velocity: Vector3;
+  damage: number;
+  expiresAt: number; // Simulation time in seconds
+}
+
+// Emitted as 'npcDestroyed' after the NPC has been removed from the manager
+export interface NPCDestruction {
+  npc: NpcShip;
+  entityId: string;
+  factionId: string;
+  position: Vector3;
+  destroyedById?: string; // Entity ID of the ship that fired the last hit
+}
+
+// A player ship NPCs may target, refreshed from the game state before every update
+export interface PlayerTarget {
+  entityId: string; // Client ID
+  userId: number;
+  position: Vector3;
+  velocity: Vector3;
+}
+
+// Where a ship in combat is and how it moves, whether it is an NPC or a player
+interface Combatant {
+  position: Vector3;
+  velocity: Vector3;
+}
+
+// Players have no signature radius of their own yet
+const PLAYER_SIGNATURE_RADIUS = 20.0;
+
+// Weapon of every player ship
+const PLAYER_WEAPON_DAMAGE = 20.0;
+const PLAYER_WEAPON_RANGE = 800.0;
+const PLAYER_WEAPON_COOLDOWN = 500; // ms
+const PLAYER_PROJECTILE_SPEED = 600.0;
+
 // NPC ship parameters by type
 const NPC_PARAMETERS: Record<NPCShipType, NPCParameters> = {
   enemy: {
@@ -84,6 +135,13 @@ const NPC_PARAMETERS: Record<NPCShipType, NPCParameters> = {
     pathfindingUpdateInterval: 5000,
     obstacleAvoidanceDistance: 200.0,
     formationKeepingTolerance: 50.0,
+    signatureRadius: 100.0,
+    maxHull: 400.0,
+    maxShield: 200.0,
+    weaponDamage: 25.0,
+    weaponRange: 600.0,
+    weaponCooldown: 1500,
+    projectileSpeed: 400.0,
   },
   transport: {
     maxSpeed: 30.0,
@@ -96,6 +154,13 @@ const NPC_PARAMETERS: Record<NPCShipType, NPCParameters> = {
     pathfindingUpdateInterval: 7000,
     obstacleAvoidanceDistance: 300.0,
     formationKeepingTolerance: 75.0,
+    signatureRadius: 200.0,
+    maxHull: 800.0,
+    maxShield: 100.0,
+    weaponDamage: 0.0, // Unarmed
+    weaponRange: 0.0,
+    weaponCooldown: 0,
+    projectileSpeed: 0.0,
   },
   civilian: {
     maxSpeed: 20.0,
@@ -108,6 +173,13 @@ const NPC_PARAMETERS: Record<NPCShipType, NPCParameters> = {
     pathfindingUpdateInterval: 6000,
     obstacleAvoidanceDistance: 250.0,
     formationKeepingTolerance: 100.0,
+    signatureRadius: 80.0,
+    maxHull: 300.0,
+    maxShield: 50.0,
+    weaponDamage: 0.0, // Unarmed
+    weaponRange: 0.0,
+    weaponCooldown: 0,
+    projectileSpeed: 0.0,
   },
   mining: {
     maxSpeed: 15.0,
@@ -120,6 +192,13 @@ const NPC_PARAMETERS: Record<NPCShipType, NPCParameters> = {
     pathfindingUpdateInterval: 10000,
     obstacleAvoidanceDistance: 150.0,
     formationKeepingTolerance: 40.0,
+    signatureRadius: 150.0,
+    maxHull: 500.0,
+    maxShield: 100.0,
+    weaponDamage: 0.0, // Unarmed
+    weaponRange: 0.0,
+    weaponCooldown: 0,
+    projectileSpeed: 0.0,
   },
 };
 
@@ -192,6 +271,8 @@ export function createNPC(
     aiState,
     targetId: null,
     templateId: templateId || null,
+    hull: NPC_PARAMETERS[type].maxHull,
+    shield: NPC_PARAMETERS[type].maxShield,
     waypointsJson: null,
     formationPosition: null,
     navigationState: NavigationState.NONE,
@@ -208,6 +289,7 @@ export function createNPCFleet(
   count: number,
   location: string,
   nearestCelestialBodyId: number,
+  factionId: string | null = null,
 ): { fleet: NpcFleet, ships: NpcShip[] } {
   const fleetId = `fleet-${type}-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
   
@@ -237,6 +319,7 @@ export function createNPCFleet(
     count,
     location,
     nearestCelestialBodyId,
+    factionId,
   };
   
   // Create ships
@@ -271,14 +354,26 @@ export function createNPCFleet(
 }
 
 // NPC Manager class to handle NPC behavior updates and state management
-export class NPCManager {
+export class NPCManager extends EventEmitter {
   private npcs: Map<string, NpcShip> = new Map();
   private fleets: Map<string, NpcFleet> = new Map();
   private celestialBodies: Map<number, CelestialBody> = new Map();
   private shipTemplates: Map<string, ShipTemplate> = new Map();
   private lastUpdate: number = Date.now();
   
-  constructor() {}
+  // Combat state
+  private projectiles: Projectile[] = [];
+  private lastShotTimes: Map<string, number> = new Map(); // NPC or player entity ID -> simulation time of its last shot
+  private lastAttackers: Map<string, string> = new Map(); // NPC entity ID -> entity ID of the ship that last hit it
+  private players: Map<string, PlayerTarget> = new Map();
+  
+  // Decides who NPCs fight, from the standings of their fleets' factions
+  private factionManager: FactionManager;
+  
+  constructor(factionManager: FactionManager) {
+    super();
+    this.factionManager = factionManager;
+  }
   
   // Create a fleet of NPCs with ship templates
   async createNPCFleet(
@@ -286,6 +381,7 @@ export class NPCManager {
     count: number,
     location: string,
     nearestCelestialBodyId: number,
+    factionId?: string,
   ): Promise<{ fleet: NpcFleet, ships: NpcShip[] }> {
     // Try to find a template for this ship type
     const template = this.getBestTemplateForType(type);
@@ -319,6 +415,7 @@ export class NPCManager {
       count,
       location,
       nearestCelestialBodyId,
+      factionId: factionId ?? this.factionManager.getDefaultFactionId(type),
     };
     
     // Create ships
@@ -353,6 +450,12 @@ export class NPCManager {
         ship.templateId = templateId;
       }
       
+      // Start with the template's full hull and shields
+      if (template) {
+        ship.hull = template.maxHull;
+        ship.shield = template.maxShield;
+      }
+      
       ships.push(ship);
     }
     
@@ -371,9 +474,12 @@ export class NPCManager {
     }
   }
   
-  // Register a single NPC
+  // Register a single NPC, ships stored before combat existed start undamaged
   registerNPC(npc: NpcShip): void {
     const entityId = `npc-${npc.id}`;
+    const params = this.getParameters(npc);
+    npc.hull = npc.hull ?? params.maxHull;
+    npc.shield = npc.shield ?? params.maxShield;
     this.npcs.set(entityId, npc);
   }
   
@@ -384,8 +490,9 @@ export class NPCManager {
     }
   }
   
-  // Register a fleet
+  // Register a fleet, fleets stored before factions existed fly for the default faction of their type
   registerFleet(fleet: NpcFleet): void {
+    fleet.factionId = fleet.factionId ?? this.factionManager.getDefaultFactionId(fleet.type);
     this.fleets.set(fleet.fleetId, fleet);
   }
   
@@ -396,9 +503,18 @@ export class NPCManager {
     }
   }
   
-  // Register a ship template
+  // Register a ship template, templates stored before weapons existed get the defaults for their type
   registerShipTemplate(template: ShipTemplate): void {
-    this.shipTemplates.set(template.templateId, template);
+    const defaults = NPC_PARAMETERS[template.type as NPCShipType] || NPC_PARAMETERS.civilian;
+    this.shipTemplates.set(template.templateId, {
+      ...template,
+      maxHull: template.maxHull ?? defaults.maxHull,
+      maxShield: template.maxShield ?? defaults.maxShield,
+      weaponDamage: template.weaponDamage ?? defaults.weaponDamage,
+      weaponRange: template.weaponRange ?? defaults.weaponRange,
+      weaponCooldown: template.weaponCooldown ?? defaults.weaponCooldown,
+      projectileSpeed: template.projectileSpeed ?? defaults.projectileSpeed
+    });
   }
   
   // Register multiple ship templates
@@ -444,6 +560,24 @@ export class NPCManager {
     return Array.from(this.fleets.values());
   }
   
+  // Faction an NPC flies for, that of its fleet
+  getFactionId(npc: NpcShip): string {
+    return this.fleets.get(npc.fleetId)?.factionId ?? this.factionManager.getDefaultFactionId(npc.type);
+  }
+  
+  // Replace the players NPCs may target
+  setPlayerTargets(players: PlayerTarget[]): void {
+    this.players.clear();
+    players.forEach(player => this.players.set(player.entityId, player));
+    
+    // Forget the weapon cooldowns of players that left
+    this.lastShotTimes.forEach((_, entityId) => {
+      if (!this.npcs.has(entityId) && !this.players.has(entityId)) {
+        this.lastShotTimes.delete(entityId);
+      }
+    });
+  }
+  
   // Get all NPCs in a specific fleet
   getNPCsByFleet(fleetId: string): NpcShip[] {
     return Array.from(this.npcs.values()).filter(npc => npc.fleetId === fleetId);
@@ -454,6 +588,33 @@ export class NPCManager {
     return Array.from(this.npcs.values());
   }
   
+  // Get an NPC by its entity ID ("npc-<id>")
+  getNPCByEntityId(entityId: string): NpcShip | undefined {
+    return this.npcs.get(entityId);
+  }
+  
+  // Shift an NPC and its waypoints, for NPCs carried along by a moving area
+  translateNPC(entityId: string, offset: Vector3): boolean {
+    const npc = this.npcs.get(entityId);
+    if (!npc) {
+      return false;
+    }
+    
+    npc.positionX += offset.x;
+    npc.positionY += offset.y;
+    npc.positionZ += offset.z;
+    
+    const waypoints = this.getWaypoints(npc.id);
+    if (waypoints) {
+      npc.waypointsJson = JSON.stringify(waypoints.map(waypoint => ({
+        ...waypoint,
+        position: new Vector3(waypoint.position.x, waypoint.position.y, waypoint.position.z).add(offset)
+      })));
+    }
+    
+    return true;
+  }
+  
   // Get NPCs near a position within a radius
   getNPCsNearPosition(position: Vector3, radius: number): NpcShip[] {
     return this.getAllNPCs().filter(npc => {
@@ -541,8 +702,8 @@ export class NPCManager {
     return true;
   }
   
-  // Find obstacles near a position
-  findObstaclesNear(position: Vector3, radius: number): { position: Vector3, radius: number }[] {
+  // Find obstacles near a position, ignoring some NPCs by entity ID
+  findObstaclesNear(position: Vector3, radius: number, ignoredIds: string[] = []): { position: Vector3, radius: number }[] {
     const obstacles: { position: Vector3, radius: number }[] = [];
     
     // Consider celestial bodies as obstacles
@@ -561,8 +722,12 @@ export class NPCManager {
       }
     }
     
-    // Consider NPCs as obstacles (except self)
-    for (const [_, npc] of this.npcs.entries()) {
+    // Consider NPCs as obstacles (except the ignored ones)
+    for (const [entityId, npc] of this.npcs.entries()) {
+      if (ignoredIds.includes(entityId)) {
+        continue;
+      }
+      
       const npcPosition = new Vector3(npc.positionX, npc.positionY, npc.positionZ);
       
       if (position.distance(npcPosition) < radius + 10) { // Assume NPC has radius of 10
@@ -584,9 +749,43 @@ export class NPCManager {
       this.updateSingleNPC(npc, deltaTime, currentTime);
     }
     
+    // Projectiles move after the ships, so hits are tested against this update's positions
+    this.updateProjectiles(deltaTime, currentTime);
+    
     this.lastUpdate = Date.now();
   }
   
+  // Parameters of an NPC, from its template or the defaults for its type
+  private getParameters(npc: NpcShip): NPCParameters {
+    // First try to get parameters from template if this NPC has one
+    const template = npc.templateId ? this.getShipTemplate(npc.templateId) : undefined;
+    if (!template) {
+      // Use default parameters if no template is assigned or it no longer exists
+      return NPC_PARAMETERS[npc.type as NPCShipType];
+    }
+    
+    // Use parameters from the template
+    return {
+      maxSpeed: template.maxSpeed,
+      turnRate: template.turnRate,
+      maxAcceleration: template.maxAcceleration,
+      detectionRange: template.detectionRange,
+      attackRange: template.attackRange,
+      fleeThreshold: template.fleeThreshold,
+      waypointArrivalDistance: template.waypointArrivalDistance,
+      pathfindingUpdateInterval: template.pathfindingUpdateInterval,
+      obstacleAvoidanceDistance: template.obstacleAvoidanceDistance,
+      formationKeepingTolerance: template.formationKeepingTolerance,
+      signatureRadius: template.signatureRadius,
+      maxHull: template.maxHull,
+      maxShield: template.maxShield,
+      weaponDamage: template.weaponDamage,
+      weaponRange: template.weaponRange,
+      weaponCooldown: template.weaponCooldown,
+      projectileSpeed: template.projectileSpeed
+    };
+  }
+  
   // Update a single NPC's behavior and physics
   private updateSingleNPC(npc: NpcShip, deltaTime: number, currentTime: number): void {
     // Get the celestial body this NPC is near
@@ -598,33 +797,7 @@ export class NPCManager {
     const rotation = new Quaternion(npc.rotationX, npc.rotationY, npc.rotationZ, npc.rotationW);
     
     // Get parameters either from template or default
-    let params: NPCParameters;
-    
-    // First try to get parameters from template if this NPC has one
-    if (npc.templateId) {
-      const template = this.getShipTemplate(npc.templateId);
-      if (template) {
-        // Use parameters from the template
-        params = {
-          maxSpeed: template.maxSpeed,
-          turnRate: template.turnRate,
-          maxAcceleration: template.maxAcceleration,
-          detectionRange: template.detectionRange,
-          attackRange: template.attackRange,
-          fleeThreshold: template.fleeThreshold,
-          waypointArrivalDistance: template.waypointArrivalDistance,
-          pathfindingUpdateInterval: template.pathfindingUpdateInterval,
-          obstacleAvoidanceDistance: template.obstacleAvoidanceDistance,
-          formationKeepingTolerance: template.formationKeepingTolerance
-        };
-      } else {
-        // Fallback to defaults if template not found
-        params = NPC_PARAMETERS[npc.type as NPCShipType];
-      }
-    } else {
-      // Use default parameters if no template is assigned
-      params = NPC_PARAMETERS[npc.type as NPCShipType];
-    }
+    const params = this.getParameters(npc);
     
     // Calculate celestial body influence if available
     let gravityAccel = new Vector3(0, 0, 0);
@@ -646,6 +819,9 @@ export class NPCManager {
       gravityAccel = dirToCelestial.multiply(gravityStrength);
     }
     
+    // Pick targets and decide whether to flee before acting on the AI state
+    this.updateCombatState(npc, params, position);
+    
     // Update behavior based on AI state
     let targetAccel = new Vector3(0, 0, 0);
     
@@ -664,11 +840,20 @@ export class NPCManager {
         break;
         
       case NPCAIState.ATTACKING:
-        // Not implemented for now
+        // Close in on the target and fire when it is within reach
+        const target = npc.targetId ? this.getCombatant(npc.targetId) : undefined;
+        if (target) {
+          targetAccel = this.getAttackAcceleration(target, params, position, velocity);
+          this.fireAt(npc, target, params, position, currentTime);
+        }
         break;
         
       case NPCAIState.FLEEING:
-        // Not implemented for now
+        // Run directly away from the threat at full acceleration
+        const threat = npc.targetId ? this.getCombatant(npc.targetId) : undefined;
+        if (threat) {
+          targetAccel = position.subtract(threat.position).normalize().multiply(params.maxAcceleration);
+        }
         break;
         
       case NPCAIState.MINING:
@@ -871,7 +1056,7 @@ export class NPCManager {
         // Implement obstacle avoidance
         if (npc.avoidanceState === AvoidanceState.ACTIVE) {
           // Find nearby obstacles
-          const obstacles = this.findObstaclesNear(position, params.obstacleAvoidanceDistance);
+          const obstacles = this.findObstaclesNear(position, params.obstacleAvoidanceDistance, [`npc-${npc.id}`]);
           
           if (obstacles.length > 0) {
             // Calculate avoidance vector (away from all obstacles)
@@ -927,7 +1112,9 @@ export class NPCManager {
     // Check for obstacles before finalizing movement
     // Only check if we're not already avoiding obstacles and we're not idle
     if (npc.aiState !== NPCAIState.OBSTACLE_AVOIDANCE && npc.aiState !== NPCAIState.IDLE) {
-      const obstacles = this.findObstaclesNear(position, params.obstacleAvoidanceDistance);
+      // The attack maneuver keeps its own distance from the target
+      const ignoredIds = npc.aiState === NPCAIState.ATTACKING && npc.targetId ? [`npc-${npc.id}`, npc.targetId] : [`npc-${npc.id}`];
+      const obstacles = this.findObstaclesNear(position, params.obstacleAvoidanceDistance, ignoredIds);
       
       // If obstacles are found, transition to obstacle avoidance
       if (obstacles.length > 0) {
@@ -1029,12 +1216,336 @@ export class NPCManager {
     npc.rotationZ = newRotation.z;
     npc.rotationW = newRotation.w;
     
-    // Occasionally change AI state
-    if (Math.random() < 0.005) { // 0.5% chance per update
+    // Occasionally change AI state, combat states end on their own
+    if (npc.aiState !== NPCAIState.ATTACKING && npc.aiState !== NPCAIState.FLEEING && Math.random() < 0.005) { // 0.5% chance per update
       this.transitionAIState(npc);
     }
   }
   
+  // Fraction of hull remaining, from 0 (destroyed) to 1
+  getHealth(npc: NpcShip): number {
+    const maxHull = this.getParameters(npc).maxHull;
+    return maxHull > 0 ? Math.min(npc.hull / maxHull, 1) : 1;
+  }
+  
+  // NPCs attack ships their faction regards as hostile, and players its standing toward them makes hostile
+  private isHostile(attacker: NpcShip, targetId: string): boolean {
+    const factionId = this.getFactionId(attacker);
+    
+    const targetNPC = this.npcs.get(targetId);
+    if (targetNPC) {
+      return targetNPC !== attacker && this.factionManager.areHostile(factionId, this.getFactionId(targetNPC));
+    }
+    
+    const player = this.players.get(targetId);
+    return player ? this.factionManager.isHostileToPlayer(factionId, player.userId) : false;
+  }
+  
+  // Position and velocity of an NPC or player by entity ID
+  private getCombatant(entityId: string): Combatant | undefined {
+    const npc = this.npcs.get(entityId);
+    if (npc) {
+      return {
+        position: new Vector3(npc.positionX, npc.positionY, npc.positionZ),
+        velocity: new Vector3(npc.velocityX, npc.velocityY, npc.velocityZ)
+      };
+    }
+    
+    return this.players.get(entityId);
+  }
+  
+  // Enter or leave ATTACKING and FLEEING based on nearby ships and the NPC's health
+  private updateCombatState(npc: NpcShip, params: NPCParameters, position: Vector3): void {
+    const entityId = `npc-${npc.id}`;
+    
+    // Fleeing ends once the threat is gone or out of detection range
+    if (npc.aiState === NPCAIState.FLEEING) {
+      const threat = npc.targetId ? this.getCombatant(npc.targetId) : undefined;
+      if (!threat || threat.position.distance(position) > params.detectionRange) {
+        this.lastAttackers.delete(entityId);
+        this.endCombat(npc);
+      }
+      return;
+    }
+    
+    // Below the flee threshold, run from whoever fired last or else the current target
+    const health = this.getHealth(npc);
+    if (health < params.fleeThreshold) {
+      const attackerId = this.lastAttackers.get(entityId);
+      const threatId = attackerId && this.getCombatant(attackerId) ? attackerId : npc.targetId;
+      if (threatId && this.getCombatant(threatId)) {
+        npc.targetId = threatId;
+        this.setAIState(npc, NPCAIState.FLEEING);
+        return;
+      }
+    }
+    
+    // Avoidance finishes before looking for targets
+    if (npc.aiState === NPCAIState.OBSTACLE_AVOIDANCE) {
+      return;
+    }
+    
+    // Unarmed and badly damaged ships don't look for fights
+    const armed = params.weaponDamage > 0 && params.attackRange > 0 && params.projectileSpeed > 0;
+    if (!armed || health < params.fleeThreshold) {
+      if (npc.aiState === NPCAIState.ATTACKING) {
+        this.endCombat(npc);
+      }
+      return;
+    }
+    
+    // Keep the current target while it stays detected and hostile, standings may have changed
+    if (npc.aiState === NPCAIState.ATTACKING && npc.targetId) {
+      const current = this.getCombatant(npc.targetId);
+      if (current && current.position.distance(position) <= params.detectionRange && this.isHostile(npc, npc.targetId)) {
+        return;
+      }
+    }
+    
+    const targetId = this.findNearestHostile(npc, position, params.detectionRange);
+    if (targetId) {
+      npc.targetId = targetId;
+      this.setAIState(npc, NPCAIState.ATTACKING);
+    } else if (npc.aiState === NPCAIState.ATTACKING) {
+      this.endCombat(npc);
+    }
+  }
+  
+  // Entity ID of the nearest NPC or player within range that an NPC is hostile to
+  private findNearestHostile(npc: NpcShip, position: Vector3, range: number): string | undefined {
+    let nearestId: string | undefined;
+    let nearestDistance = range;
+    
+    const consider = (entityId: string, candidatePosition: Vector3) => {
+      const distance = candidatePosition.distance(position);
+      if (distance <= nearestDistance && this.isHostile(npc, entityId)) {
+        nearestId = entityId;
+        nearestDistance = distance;
+      }
+    };
+    
+    this.npcs.forEach((other, entityId) => {
+      if (other !== npc) {
+        consider(entityId, new Vector3(other.positionX, other.positionY, other.positionZ));
+      }
+    });
+    this.players.forEach((player, entityId) => consider(entityId, player.position));
+    
+    return nearestId;
+  }
+  
+  // Return to what the NPC was doing before combat
+  private endCombat(npc: NpcShip): void {
+    npc.targetId = null;
+    
+    if (npc.navigationState === NavigationState.WAYPOINT) {
+      this.setAIState(npc, NPCAIState.WAYPOINT_FOLLOWING);
+    } else if (npc.navigationState === NavigationState.FORMATION) {
+      this.setAIState(npc, NPCAIState.FORMATION_KEEPING);
+    } else if (npc.type === 'mining') {
+      this.setAIState(npc, NPCAIState.MINING);
+    } else {
+      this.setAIState(npc, NPCAIState.PATROLLING);
+    }
+  }
+  
+  // Approach the target until within attack range, then hold that distance
+  private getAttackAcceleration(target: Combatant, params: NPCParameters, position: Vector3, velocity: Vector3): Vector3 {
+    const targetPosition = target.position;
+    const targetVelocity = target.velocity;
+    const dirToTarget = targetPosition.subtract(position).normalize();
+    const distance = position.distance(targetPosition);
+    
+    // Match the target's velocity, plus a closing or opening speed
+    let desiredVelocity = targetVelocity;
+    if (distance > params.attackRange) {
+      desiredVelocity = desiredVelocity.add(dirToTarget.multiply(params.maxSpeed));
+    } else if (distance < params.attackRange * 0.5) {
+      desiredVelocity = desiredVelocity.subtract(dirToTarget.multiply(params.maxSpeed * 0.5));
+    }
+    
+    let accel = desiredVelocity.subtract(velocity).multiply(2.0); // PD controller
+    
+    // Limit acceleration
+    const accelMagnitude = accel.magnitude();
+    if (accelMagnitude > params.maxAcceleration) {
+      accel = accel.multiply(params.maxAcceleration / accelMagnitude);
+    }
+    
+    return accel;
+  }
+  
+  // Fire a projectile leading the target, when the weapon is ready and the shot can reach
+  private fireAt(npc: NpcShip, target: Combatant, params: NPCParameters, position: Vector3, currentTime: number): void {
+    const entityId = `npc-${npc.id}`;
+    const lastShot = this.lastShotTimes.get(entityId);
+    if (lastShot !== undefined && currentTime - lastShot < params.weaponCooldown / 1000) {
+      return;
+    }
+    
+    const targetPosition = target.position;
+    const targetVelocity = target.velocity;
+    const timeToImpact = this.getInterceptTime(targetPosition.subtract(position), targetVelocity, params.projectileSpeed);
+    if (timeToImpact === null || timeToImpact * params.projectileSpeed > params.weaponRange) {
+      return;
+    }
+    
+    const aimPoint = targetPosition.add(targetVelocity.multiply(timeToImpact));
+    this.projectiles.push({
+      shooter: npc,
+      shooterId: entityId,
+      position,
+      velocity: aimPoint.subtract(position).normalize().multiply(params.projectileSpeed),
+      damage: params.weaponDamage,
+      expiresAt: currentTime + params.weaponRange / params.projectileSpeed
+    });
+    this.lastShotTimes.set(entityId, currentTime);
+  }
+  
+  // Fire a player's weapon from the player's position, when the weapon is ready. Player shots hit
+  // any NPC in their way, so players can attack every faction and pay for it in reputation.
+  // Returns true if a shot was fired.
+  firePlayerWeapon(entityId: string, direction: Vector3, currentTime: number): boolean {
+    const player = this.players.get(entityId);
+    const length = direction.magnitude();
+    if (!player || !(length > 0) || !Number.isFinite(length)) {
+      return false;
+    }
+    
+    const lastShot = this.lastShotTimes.get(entityId);
+    if (lastShot !== undefined && currentTime - lastShot < PLAYER_WEAPON_COOLDOWN / 1000) {
+      return false;
+    }
+    
+    this.projectiles.push({
+      shooterId: entityId,
+      position: player.position,
+      velocity: direction.multiply(PLAYER_PROJECTILE_SPEED / length),
+      damage: PLAYER_WEAPON_DAMAGE,
+      expiresAt: currentTime + PLAYER_WEAPON_RANGE / PLAYER_PROJECTILE_SPEED
+    });
+    this.lastShotTimes.set(entityId, currentTime);
+    return true;
+  }
+  
+  // Earliest time a projectile fired now at a speed meets a target at an offset moving at a
+  // constant velocity, or null if it can never catch up
+  private getInterceptTime(offset: Vector3, targetVelocity: Vector3, speed: number): number | null {
+    // Solve |offset + targetVelocity * t| = speed * t for the smallest positive t
+    const a = targetVelocity.dot(targetVelocity) - speed * speed;
+    const b = 2 * offset.dot(targetVelocity);
+    const c = offset.dot(offset);
+    
+    if (Math.abs(a) < 1e-6) {
+      return b < 0 ? -c / b : null;
+    }
+    
+    const discriminant = b * b - 4 * a * c;
+    if (discriminant < 0) {
+      return null;
+    }
+    
+    const root = Math.sqrt(discriminant);
+    const times = [(-b - root) / (2 * a), (-b + root) / (2 * a)].filter(t => t > 0);
+    return times.length > 0 ? Math.min(...times) : null;
+  }
+  
+  // Move projectiles along their paths, resolving the first ship each one passes through
+  private updateProjectiles(deltaTime: number, currentTime: number): void {
+    const remaining: Projectile[] = [];
+    
+    for (const projectile of this.projectiles) {
+      const start = projectile.position;
+      const end = start.add(projectile.velocity.multiply(deltaTime));
+      
+      // Players have no hull yet, so hits on them only stop the projectile
+      const hitId = this.findProjectileHit(projectile, start, end);
+      if (hitId) {
+        this.damageNPC(hitId, projectile.damage, projectile.shooterId);
+        continue;
+      }
+      
+      if (currentTime < projectile.expiresAt) {
+        projectile.position = end;
+        remaining.push(projectile);
+      }
+    }
+    
+    this.projectiles = remaining;
+  }
+  
+  // Entity ID of the NPC or player the projectile can hit whose signature the segment from start to end enters first
+  private findProjectileHit(projectile: Projectile, start: Vector3, end: Vector3): string | undefined {
+    const segment = end.subtract(start);
+    const lengthSquared = segment.dot(segment);
+    let hitId: string | undefined;
+    let hitFraction = Infinity;
+    
+    const test = (entityId: string, center: Vector3, radius: number) => {
+      // Closest point of the segment to the ship
+      const fraction = lengthSquared > 0
+        ? Math.max(0, Math.min(1, center.subtract(start).dot(segment) / lengthSquared))
+        : 0;
+      
+      if (fraction < hitFraction && start.add(segment.multiply(fraction)).sqrDistance(center) <= radius * radius
+        && this.canHit(projectile, entityId)) {
+        hitId = entityId;
+        hitFraction = fraction;
+      }
+    };
+    
+    this.npcs.forEach((npc, entityId) => {
+      test(entityId, new Vector3(npc.positionX, npc.positionY, npc.positionZ), this.getParameters(npc).signatureRadius);
+    });
+    this.players.forEach((player, entityId) => test(entityId, player.position, PLAYER_SIGNATURE_RADIUS));
+    
+    return hitId;
+  }
+  
+  // NPC shots hit ships and players their faction is hostile to, player shots hit any NPC
+  private canHit(projectile: Projectile, entityId: string): boolean {
+    return projectile.shooter ? this.isHostile(projectile.shooter, entityId) : this.npcs.has(entityId);
+  }
+  
+  // Apply damage to shields and then the hull, destroying the NPC when the hull runs out.
+  // Returns true if the NPC was destroyed.
+  damageNPC(entityId: string, damage: number, attackerId?: string): boolean {
+    const npc = this.npcs.get(entityId);
+    if (!npc) {
+      return false;
+    }
+    
+    const absorbed = Math.min(npc.shield, damage);
+    npc.shield -= absorbed;
+    npc.hull = Math.max(0, npc.hull - (damage - absorbed));
+    
+    if (attackerId) {
+      this.lastAttackers.set(entityId, attackerId);
+    }
+    
+    if (npc.hull > 0) {
+      return false;
+    }
+    
+    this.removeNPC(npc.id);
+    
+    const fleet = this.fleets.get(npc.fleetId);
+    if (fleet) {
+      fleet.count = Math.max(0, fleet.count - 1);
+    }
+    
+    const destruction: NPCDestruction = {
+      npc,
+      entityId,
+      factionId: this.getFactionId(npc),
+      position: new Vector3(npc.positionX, npc.positionY, npc.positionZ),
+      destroyedById: attackerId
+    };
+    this.emit('npcDestroyed', destruction);
+    
+    return true;
+  }
+  
   // Handle AI state transitions
   private transitionAIState(npc: NpcShip): void {
     // Each NPC type has different state transition probabilities
@@ -1042,22 +1553,7 @@ export class NPCManager {
     
     switch (npc.type) {
       case 'enemy':
-        // Enemies mainly patrol or attack
-        if (npc.aiState === NPCAIState.PATROLLING) {
-          if (Math.random() < 0.3) {
-            nextState = NPCAIState.ATTACKING;
-          }
-        } else if (npc.aiState === NPCAIState.ATTACKING) {
-          if (Math.random() < 0.2) {
-            nextState = NPCAIState.PATROLLING;
-          } else if (Math.random() < 0.1) {
-            nextState = NPCAIState.FLEEING;
-          }
-        } else if (npc.aiState === NPCAIState.FLEEING) {
-          if (Math.random() < 0.5) {
-            nextState = NPCAIState.PATROLLING;
-          }
-        }
+        // Enemies keep their course until a target is detected, see updateCombatState
         break;
         
       case 'transport':
@@ -1095,6 +1591,11 @@ export class NPCManager {
         break;
     }
     
+    this.setAIState(npc, nextState);
+  }
+  
+  // Change an NPC's AI state and the status shown to clients
+  private setAIState(npc: NpcShip, nextState: string): void {
     npc.aiState = nextState;
     
     // Update status based on new AI state
@@ -1120,6 +1621,8 @@ export class NPCManager {
   // Remove an NPC
   removeNPC(npcId: number): boolean {
     const entityId = `npc-${npcId}`;
+    this.lastShotTimes.delete(entityId);
+    this.lastAttackers.delete(entityId);
     return this.npcs.delete(entityId);
   }
   
@@ -1146,8 +1649,12 @@ export class NPCManager {
     // Clear all fleets
     this.fleets.clear();
     
-    // Clear all NPCs
+    // Clear all NPCs and their shots
     this.npcs.clear();
+    this.players.clear();
+    this.projectiles = [];
+    this.lastShotTimes.clear();
+    this.lastAttackers.clear();
     
     console.log('Cleared all NPCs and fleets from memory');
   }
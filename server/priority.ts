@@ -0,0 +1,107 @@
+import { Vector3 } from '@shared/math';
+import { EntityState } from '@shared/types';
+
+// An entity that may be included in a client's next state update
+export interface PriorityCandidate {
+  state: EntityState;
+  targetsObserver: boolean; // The entity is targeting the client receiving the update
+}
+
+// Entities chosen for one state update
+export interface PrioritySelection {
+  selected: EntityState[];
+  deferred: string[]; // Still relevant but left out to stay within the budget
+}
+
+export interface PrioritySettings {
+  budgetBytes: number;    // Entity bytes allowed in each state update
+  distanceScale: number;  // Distance at which the distance weight halves
+  velocityScale: number;  // Speed at which the velocity weight doubles
+  targetedWeight: number; // Multiplier for entities targeting the client
+}
+
+// Per-client priority accumulator for budgeted state replication.
+// Every tick each candidate's priority grows by a weight based on distance, speed and
+// whether it targets the client. Entities are sent highest priority first until the
+// byte budget is spent, and sent entities start accumulating again from zero, so an
+// entity's priority also reflects how long it has gone without being sent.
+export class PriorityAccumulator {
+  private clients: Map<string, Map<string, number>> = new Map();
+  private settings: PrioritySettings;
+
+  constructor(
+    settings: PrioritySettings = {
+      budgetBytes: 1000,
+      distanceScale: 1000,
+      velocityScale: 100,
+      targetedWeight: 4
+    }
+  ) {
+    this.settings = settings;
+  }
+
+  // Choose the entities to send to a client this tick
+  select(
+    clientId: string,
+    observerPosition: Vector3,
+    candidates: PriorityCandidate[],
+    sizeOf: (entity: EntityState) => number
+  ): PrioritySelection {
+    const previous = this.clients.get(clientId) || new Map<string, number>();
+    const priorities = new Map<string, number>();
+
+    // Entities that are no longer candidates drop out of the accumulator
+    for (const candidate of candidates) {
+      const accumulated = previous.get(candidate.state.entityId) || 0;
+      priorities.set(
+        candidate.state.entityId,
+        accumulated + this.getWeight(candidate, observerPosition)
+      );
+    }
+
+    const ranked = candidates.slice().sort(
+      (a, b) => priorities.get(b.state.entityId)! - priorities.get(a.state.entityId)!
+    );
+
+    const selected: EntityState[] = [];
+    const deferred: string[] = [];
+    let remaining = this.settings.budgetBytes;
+
+    for (const candidate of ranked) {
+      const size = sizeOf(candidate.state);
+
+      // The top entity always goes out so a tiny budget cannot stall replication
+      if (size <= remaining || selected.length === 0) {
+        selected.push(candidate.state);
+        remaining -= size;
+        priorities.set(candidate.state.entityId, 0);
+      } else {
+        deferred.push(candidate.state.entityId);
+      }
+    }
+
+    this.clients.set(clientId, priorities);
+    return { selected, deferred };
+  }
+
+  setBudget(budgetBytes: number): void {
+    this.settings.budgetBytes = budgetBytes;
+  }
+
+  getBudget(): number {
+    return this.settings.budgetBytes;
+  }
+
+  removeClient(clientId: string): void {
+    this.clients.delete(clientId);
+  }
+
+  private getWeight(candidate: PriorityCandidate, observerPosition: Vector3): number {
+    const distance = candidate.state.position.distance(observerPosition);
+    const distanceWeight = 1 / (1 + distance / this.settings.distanceScale);
+    const velocityWeight = 1 + candidate.state.velocity.magnitude() / this.settings.velocityScale;
+    const targetedWeight = candidate.targetsObserver ? this.settings.targetedWeight : 1;
+
+    return distanceWeight * velocityWeight * targetedWeight;
+  }
+}
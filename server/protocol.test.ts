@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ClientConnectMessage, DeliveryChannel, MessageType, ProtocolCapability } from '@shared/types';
+import { BinarySerializerImpl } from './udp';
+import { negotiateProtocol, LEGACY_PROTOCOL_VERSION, PROTOCOL_VERSION } from './protocol';
+
+const serializer = new BinarySerializerImpl();
+
+// Negotiates a connect the way the server receives it, after a trip through the codec
+function negotiate(fields: Partial<ClientConnectMessage>) {
+  const message: ClientConnectMessage = {
+    messageType: MessageType.CLIENT_CONNECT,
+    channel: DeliveryChannel.UNRELIABLE,
+    sequence: 1,
+    timestamp: 1760000000000,
+    clientId: '',
+    username: 'pilot',
+    version: '1.0.0',
+    ...fields
+  };
+  return negotiateProtocol(serializer.deserializeMessage(serializer.serializeMessage(message)));
+}
+
+describe('protocol negotiation', () => {
+  it('negotiates legacy features from the version string', () => {
+    const result = negotiate({ version: '1.0.2+quantized.delta' });
+    assert.ok(result.accepted);
+    assert.equal(result.protocol.protocolVersion, LEGACY_PROTOCOL_VERSION);
+    assert.equal(result.protocol.capabilities, ProtocolCapability.QUANTIZED_ENCODING | ProtocolCapability.DELTA_SNAPSHOTS);
+  });
+
+  it('negotiates legacy features when a legacy client sends a session token', () => {
+    const result = negotiate({ version: '1.0.2+quantized.delta', sessionToken: 'token' });
+    assert.ok(result.accepted);
+    assert.equal(result.protocol.protocolVersion, LEGACY_PROTOCOL_VERSION);
+    assert.equal(result.protocol.capabilities, ProtocolCapability.QUANTIZED_ENCODING | ProtocolCapability.DELTA_SNAPSHOTS);
+  });
+
+  it('negotiates legacy features when a legacy client echoes a connect cookie', () => {
+    const result = negotiate({ version: '1.0.2+delta', connectCookie: Buffer.alloc(16, 7) });
+    assert.ok(result.accepted);
+    assert.equal(result.protocol.capabilities, ProtocolCapability.DELTA_SNAPSHOTS);
+  });
+
+  it('rejects an incompatible legacy client version with or without a token', () => {
+    assert.equal(negotiate({ version: '2.0.0' }).accepted, false);
+    assert.equal(negotiate({ version: '2.0.0', sessionToken: 'token' }).accepted, false);
+  });
+
+  it('negotiates an explicit handshake sent with a token', () => {
+    const result = negotiate({
+      version: '2.0.0',
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: ProtocolCapability.FRAGMENTATION | ProtocolCapability.RELIABLE_CHANNELS,
+      supportedMessageTypes: [],
+      sessionToken: 'token'
+    });
+    assert.ok(result.accepted);
+    assert.equal(result.protocol.protocolVersion, PROTOCOL_VERSION);
+    assert.equal(result.protocol.capabilities, ProtocolCapability.FRAGMENTATION | ProtocolCapability.RELIABLE_CHANNELS);
+    assert.equal(result.protocol.supportedMessageTypes, null);
+  });
+
+  it('only negotiates frame shifts with clients that decode SERVER_FRAME_SHIFT', () => {
+    const fields = { version: '2.0.0', protocolVersion: PROTOCOL_VERSION, capabilities: ProtocolCapability.FRAME_SHIFTS };
+    const decoding = negotiate({ ...fields, supportedMessageTypes: [MessageType.SERVER_FRAME_SHIFT] });
+    assert.ok(decoding.accepted);
+    assert.equal(decoding.protocol.capabilities, ProtocolCapability.FRAME_SHIFTS);
+
+    const notDecoding = negotiate({ ...fields, supportedMessageTypes: [MessageType.SERVER_STATE_UPDATE] });
+    assert.ok(notDecoding.accepted);
+    assert.equal(notDecoding.protocol.capabilities, 0);
+
+    const legacy = negotiate({ version: '1.0.2+frames' });
+    assert.ok(legacy.accepted);
+    assert.equal(legacy.protocol.capabilities, ProtocolCapability.FRAME_SHIFTS);
+  });
+});
@@ -0,0 +1,139 @@
+import { MessageType, ProtocolCapability, ClientConnectMessage } from '@shared/types';
+
+// Protocol version 1 is the legacy handshake identified only by the client version string
+export const LEGACY_PROTOCOL_VERSION = 1;
+export const MIN_PROTOCOL_VERSION = 1;
+export const PROTOCOL_VERSION = 2;
+
+// Client version prefix still required from legacy clients
+export const LEGACY_CLIENT_VERSION = '1.0';
+
+// Features this server is able to provide
+export const SERVER_CAPABILITIES =
+  ProtocolCapability.QUANTIZED_ENCODING |
+  ProtocolCapability.DELTA_SNAPSHOTS |
+  ProtocolCapability.FRAGMENTATION |
+  ProtocolCapability.RELIABLE_CHANNELS |
+  ProtocolCapability.SERVER_PINGS |
+  ProtocolCapability.FRAME_SHIFTS;
+
+// Names legacy clients may append to their version string, e.g. "1.0.2+quantized.delta"
+const LEGACY_CAPABILITY_NAMES: Record<string, ProtocolCapability> = {
+  quantized: ProtocolCapability.QUANTIZED_ENCODING,
+  delta: ProtocolCapability.DELTA_SNAPSHOTS,
+  fragment: ProtocolCapability.FRAGMENTATION,
+  channels: ProtocolCapability.RELIABLE_CHANNELS,
+  ping: ProtocolCapability.SERVER_PINGS,
+  frames: ProtocolCapability.FRAME_SHIFTS
+};
+
+// Message types every client must understand regardless of what it advertises
+const REQUIRED_MESSAGE_TYPES: MessageType[] = [
+  MessageType.SERVER_ACCEPT,
+  MessageType.SERVER_REJECT,
+  MessageType.SERVER_RELIABLE_ACK
+];
+
+// Outcome of the connect handshake for one client
+export interface NegotiatedProtocol {
+  protocolVersion: number;
+  capabilities: number;
+  supportedMessageTypes: Set<MessageType> | null; // null means the client accepts every type
+}
+
+export type NegotiationResult =
+  | { accepted: true; protocol: NegotiatedProtocol }
+  | { accepted: false; reason: string };
+
+// Protocol state for clients that have not completed the handshake
+export function defaultProtocol(): NegotiatedProtocol {
+  return {
+    protocolVersion: LEGACY_PROTOCOL_VERSION,
+    capabilities: 0,
+    supportedMessageTypes: null
+  };
+}
+
+// Negotiate the protocol version and feature set for a connecting client
+export function negotiateProtocol(message: ClientConnectMessage): NegotiationResult {
+  // A handshake group without a version only holds the space before a token or cookie
+  if (!message.protocolVersion) {
+    return negotiateLegacyProtocol(message.version || '');
+  }
+
+  if (message.protocolVersion < MIN_PROTOCOL_VERSION) {
+    return {
+      accepted: false,
+      reason: `Unsupported protocol version ${message.protocolVersion}. Server supports ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION}.`
+    };
+  }
+
+  // Newer clients are expected to fall back to the highest version the server speaks
+  const protocolVersion = Math.min(message.protocolVersion, PROTOCOL_VERSION);
+
+  let supportedMessageTypes: Set<MessageType> | null = null;
+  if (message.supportedMessageTypes && message.supportedMessageTypes.length > 0) {
+    supportedMessageTypes = new Set([...message.supportedMessageTypes, ...REQUIRED_MESSAGE_TYPES]);
+  }
+
+  let capabilities = (message.capabilities || 0) & SERVER_CAPABILITIES;
+
+  // Features are useless to a client that cannot decode their messages
+  if (supportedMessageTypes && !supportedMessageTypes.has(MessageType.SERVER_DELTA_STATE_UPDATE)) {
+    capabilities &= ~ProtocolCapability.DELTA_SNAPSHOTS;
+  }
+  if (supportedMessageTypes && !supportedMessageTypes.has(MessageType.FRAGMENT)) {
+    capabilities &= ~ProtocolCapability.FRAGMENTATION;
+  }
+  if (supportedMessageTypes && !supportedMessageTypes.has(MessageType.SERVER_PING)) {
+    capabilities &= ~ProtocolCapability.SERVER_PINGS;
+  }
+  if (supportedMessageTypes && !supportedMessageTypes.has(MessageType.SERVER_FRAME_SHIFT)) {
+    capabilities &= ~ProtocolCapability.FRAME_SHIFTS;
+  }
+
+  return {
+    accepted: true,
+    protocol: {
+      protocolVersion,
+      capabilities,
+      supportedMessageTypes
+    }
+  };
+}
+
+// Legacy clients only send a version string, with optional features as build metadata
+function negotiateLegacyProtocol(version: string): NegotiationResult {
+  const [baseVersion, featureList = ''] = version.split('+');
+
+  if (version && !baseVersion.startsWith(LEGACY_CLIENT_VERSION)) {
+    return {
+      accepted: false,
+      reason: `Incompatible client version. Server requires ${LEGACY_CLIENT_VERSION}.x`
+    };
+  }
+
+  let capabilities = 0;
+  for (const feature of featureList.split('.')) {
+    capabilities |= LEGACY_CAPABILITY_NAMES[feature] || 0;
+  }
+
+  return {
+    accepted: true,
+    protocol: {
+      protocolVersion: LEGACY_PROTOCOL_VERSION,
+      capabilities: capabilities & SERVER_CAPABILITIES,
+      supportedMessageTypes: null
+    }
+  };
+}
+
+// Check whether a negotiated protocol includes a capability
+export function hasCapability(protocol: NegotiatedProtocol, capability: ProtocolCapability): boolean {
+  return (protocol.capabilities & capability) !== 0;
+}
+
+// Check whether a client can decode a given message type
+export function supportsMessageType(protocol: NegotiatedProtocol, messageType: MessageType): boolean {
+  return protocol.supportedMessageTypes === null || protocol.supportedMessageTypes.has(messageType);
+}
@@ -0,0 +1,214 @@
+import { randomUUID } from 'crypto';
+import dgram from 'dgram';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MessageType } from '@shared/types';
+import { readCapture, CaptureRecord } from './capture';
+import type { ClientConnection } from './udp';
+
+// Replays a packet capture into a fresh game server to reproduce protocol bugs:
+//
+//   npm run replay -- <capture> [--speed <factor>] [--seed <number>] [--output <capture>]
+//
+// Received datagrams are fed to the server at their captured times, scaled by the speed
+// factor, as if they came from their captured addresses. New clients get the IDs they were
+// assigned in the capture, so later datagrams still match them. Nothing is sent over the
+// network; the server's own traffic is captured to the output file (by default next to the
+// input) and summarized against the original.
+//
+// The server starts from a copy of the data directory, not the state at capture time, and
+// the copy is deleted afterwards so the replay never changes real data. Math.random is
+// seeded and the solar system frozen, so NPC behavior and area positions repeat between
+// runs; timers still follow the wall clock, so results can differ slightly. Authenticated
+// connects only replay with the SESSION_SECRET of the captured server while their tokens are valid.
+
+interface ReplayOptions {
+  file: string;
+  speed: number;
+  seed: number;
+  output: string;
+}
+
+// Time given to the server after the last record, for the responses it triggers
+const REPLAY_SETTLE_TIME = 2000;
+
+function parseArguments(args: string[]): ReplayOptions | null {
+  const options: Partial<ReplayOptions> = { speed: 1, seed: 1 };
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--speed') {
+      options.speed = parseFloat(args[++i]);
+    } else if (args[i] === '--seed') {
+      options.seed = parseInt(args[++i], 10);
+    } else if (args[i] === '--output') {
+      options.output = args[++i];
+    } else if (!options.file) {
+      options.file = args[i];
+    } else {
+      return null;
+    }
+  }
+
+  if (!options.file || !options.speed || !(options.speed > 0) || !Number.isInteger(options.seed)) {
+    return null;
+  }
+
+  const parsed = path.parse(options.file);
+  return {
+    file: options.file,
+    speed: options.speed,
+    seed: options.seed!,
+    output: options.output || path.join(parsed.dir, `${parsed.name}.replay${parsed.ext}`)
+  };
+}
+
+// Deterministic replacement for Math.random (mulberry32)
+function seededRandom(seed: number): () => number {
+  let state = seed | 0;
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sleep(milliseconds: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, milliseconds));
+}
+
+// Sent datagrams per message type, from the type byte without its channel bits
+function countSentMessageTypes(records: CaptureRecord[]): Map<number, number> {
+  const counts: Map<number, number> = new Map();
+  records
+    .filter(record => record.kind === 'sent' && record.data.length > 0)
+    .forEach(record => {
+      const messageType = record.data[0] & 0x3F;
+      counts.set(messageType, (counts.get(messageType) || 0) + 1);
+    });
+  return counts;
+}
+
+function printSummary(captured: CaptureRecord[], replayed: CaptureRecord[]): void {
+  const capturedCounts = countSentMessageTypes(captured);
+  const replayedCounts = countSentMessageTypes(replayed);
+  const messageTypes = Array.from(new Set([...Array.from(capturedCounts.keys()), ...Array.from(replayedCounts.keys())]))
+    .sort((a, b) => a - b);
+
+  console.log('Sent messages      captured  replayed');
+  messageTypes.forEach(messageType => {
+    const name = MessageType[messageType] || `type ${messageType}`;
+    const capturedCount = capturedCounts.get(messageType) || 0;
+    const replayedCount = replayedCounts.get(messageType) || 0;
+    const marker = capturedCount !== replayedCount ? '  *' : '';
+    console.log(`${name.padEnd(32)} ${String(capturedCount).padStart(8)}  ${String(replayedCount).padStart(8)}${marker}`);
+  });
+}
+
+async function replay(options: ReplayOptions): Promise<void> {
+  const records = readCapture(options.file);
+  const inbound = records.filter(record => record.kind === 'received' || record.kind === 'closed');
+  if (inbound.length === 0) {
+    console.log(`${options.file} has no received traffic to replay`);
+    return;
+  }
+
+  // The server works on a copy of the data directory
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'replay-data-'));
+  if (fs.existsSync('./data')) {
+    fs.cpSync('./data', dataDir, { recursive: true });
+  }
+
+  try {
+    await replayInto(dataDir, records, inbound, options);
+  } finally {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+}
+
+async function replayInto(dataDir: string, records: CaptureRecord[], inbound: CaptureRecord[], options: ReplayOptions): Promise<void> {
+  Math.random = seededRandom(options.seed);
+
+  // Imported here, after turning off autostart and pointing storage at the copy, so only the
+  // replay server is created and it never touches the real data
+  process.env.GAME_SERVER_AUTOSTART = 'false';
+  process.env.DATA_DIR = dataDir;
+  const { GameServer } = await import('./index');
+  const { storage } = await import('./storage');
+
+  // Frozen before the celestial manager starts, so bodies stay where the simulation begins
+  await storage.updateSetting('FROZEN_SOLAR_SYSTEM', 'true', 'boolean', 'simulation', 'Whether the solar system simulation is frozen');
+
+  const server = new GameServer(0, null);
+  await server.start();
+
+  const udpServer = server.getUDPServer();
+  udpServer.setOutputSuppressed(true);
+
+  const assignedIds = records.filter(record => record.kind === 'assigned').map(record => record.clientId);
+  udpServer.setClientIdGenerator(() => assignedIds.shift() || randomUUID());
+
+  udpServer.startCapture(options.output);
+
+  // Stream clients are told apart by their remote address, like the WebSocket transport does
+  const connections: Map<string, ClientConnection> = new Map();
+  const getConnection = (record: CaptureRecord): ClientConnection => {
+    const key = `${record.address}:${record.port}`;
+    let connection = connections.get(key);
+    if (!connection) {
+      connection = { send: () => {}, close: () => connections.delete(key) };
+      connections.set(key, connection);
+    }
+    return connection;
+  };
+
+  console.log(`Replaying ${inbound.length} records from ${options.file} at ${options.speed}x`);
+
+  const startTime = Date.now();
+  const firstRecordTime = inbound[0].time;
+  for (const record of inbound) {
+    const delay = startTime + (record.time - firstRecordTime) / options.speed - Date.now();
+    if (delay > 0) {
+      await sleep(delay);
+    }
+
+    if (record.kind === 'closed') {
+      const connection = connections.get(`${record.address}:${record.port}`);
+      if (connection) {
+        udpServer.connectionClosed(connection);
+        connections.delete(`${record.address}:${record.port}`);
+      }
+      continue;
+    }
+
+    const rinfo: dgram.RemoteInfo = {
+      address: record.address,
+      family: record.address.includes(':') ? 'IPv6' : 'IPv4',
+      port: record.port,
+      size: record.data.length
+    };
+    udpServer.handleDatagram(record.data, rinfo, record.transport === 'stream' ? getConnection(record) : undefined);
+  }
+
+  await sleep(REPLAY_SETTLE_TIME);
+
+  const status = await udpServer.stopCapture();
+  server.shutdown();
+
+  console.log(`Replay finished, server traffic written to ${status?.file}`);
+  printSummary(records, readCapture(options.output));
+}
+
+const options = parseArguments(process.argv.slice(2));
+if (!options) {
+  console.error('Usage: npm run replay -- <capture> [--speed <factor>] [--seed <number>] [--output <capture>]');
+  process.exit(1);
+}
+
+replay(options)
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(`Replay failed: ${error}`);
+    process.exit(1);
+  });
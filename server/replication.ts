@@ -0,0 +1,140 @@
+// Highest state update rate any area can be replicated at, also the replication loop rate
+export const MAX_UPDATE_FREQUENCY = 60;
+
+// Allows for floating point error when the area rate equals the loop rate
+const CREDIT_TOLERANCE = 1e-6;
+
+// Entities within maxDistanceRatio of the area radius are updated every `interval` updates
+export interface LodTier {
+  maxDistanceRatio: number;
+  interval: number;
+}
+
+export interface ReplicationSettings {
+  highLoadThreshold: number; // Load percentage above which the update rate is lowered
+  minLoadFactor: number;     // Fraction of the configured rate kept at 100% load
+  minUpdateFrequency: number;
+  lodTiers: LodTier[];       // Sorted by maxDistanceRatio, the last tier covers everything beyond
+}
+
+// Per-area replication timing
+interface AreaSchedule {
+  credit: number; // Updates owed, an update is sent whenever this reaches 1
+  lastTick: number;
+  effectiveFrequency: number;
+}
+
+// Schedules state replication per area of interest, honoring each area's update frequency
+// and lowering it under load, plus distance-based LOD for entities within an area
+export class ReplicationScheduler {
+  private areas: Map<string, AreaSchedule> = new Map();
+  private clientUpdateCounts: Map<string, number> = new Map();
+  private settings: ReplicationSettings;
+
+  constructor(
+    settings: ReplicationSettings = {
+      highLoadThreshold: 75,
+      minLoadFactor: 0.25,
+      minUpdateFrequency: 5,
+      lodTiers: [
+        { maxDistanceRatio: 0.25, interval: 1 },
+        { maxDistanceRatio: 0.5, interval: 2 },
+        { maxDistanceRatio: Infinity, interval: 4 }
+      ]
+    }
+  ) {
+    this.settings = settings;
+  }
+
+  // Advance an area's schedule and report whether it should be replicated this tick
+  isAreaDue(areaId: string, updateFrequency: number, load: number, now: number): boolean {
+    let schedule = this.areas.get(areaId);
+    if (!schedule) {
+      // New areas are replicated straight away
+      schedule = { credit: 1, lastTick: now, effectiveFrequency: updateFrequency };
+      this.areas.set(areaId, schedule);
+    }
+
+    schedule.effectiveFrequency = this.getEffectiveFrequency(updateFrequency, load);
+
+    // Credit accumulates with elapsed time, so rates that don't divide the loop rate still average out.
+    // A little extra credit is kept to absorb timer jitter, but not enough to cause bursts.
+    const elapsed = (now - schedule.lastTick) / 1000;
+    schedule.lastTick = now;
+    schedule.credit = Math.min(2, schedule.credit + elapsed * schedule.effectiveFrequency);
+
+    if (schedule.credit < 1 - CREDIT_TOLERANCE) {
+      return false;
+    }
+
+    schedule.credit = Math.max(0, schedule.credit - 1);
+    return true;
+  }
+
+  // Update rate for an area after load throttling
+  getEffectiveFrequency(updateFrequency: number, load: number): number {
+    const frequency = Math.min(updateFrequency, MAX_UPDATE_FREQUENCY);
+    const { highLoadThreshold, minLoadFactor, minUpdateFrequency } = this.settings;
+
+    if (load <= highLoadThreshold) {
+      return frequency;
+    }
+
+    // Scale linearly from the full rate at the threshold down to minLoadFactor at 100% load
+    const overload = Math.min(1, (load - highLoadThreshold) / (100 - highLoadThreshold));
+    const factor = 1 - overload * (1 - minLoadFactor);
+
+    return Math.max(Math.min(minUpdateFrequency, frequency), frequency * factor);
+  }
+
+  // Last effective update rate used for an area
+  getAreaFrequency(areaId: string): number | undefined {
+    return this.areas.get(areaId)?.effectiveFrequency;
+  }
+
+  // Start a new state update for a client, returning its update number for LOD checks
+  beginClientUpdate(clientId: string): number {
+    const count = this.clientUpdateCounts.get(clientId) || 0;
+    this.clientUpdateCounts.set(clientId, count + 1);
+    return count;
+  }
+
+  // Whether an entity at the given distance is included in this update
+  isEntityDue(updateNumber: number, entityId: string, distance: number, areaRadius: number): boolean {
+    const interval = this.getLodInterval(distance, areaRadius);
+    if (interval <= 1) {
+      return true;
+    }
+
+    // Offset by entity so far entities are spread across updates instead of arriving together
+    return (updateNumber + this.hashEntityId(entityId)) % interval === 0;
+  }
+
+  removeClient(clientId: string): void {
+    this.clientUpdateCounts.delete(clientId);
+  }
+
+  removeArea(areaId: string): void {
+    this.areas.delete(areaId);
+  }
+
+  private getLodInterval(distance: number, areaRadius: number): number {
+    const ratio = areaRadius > 0 ? distance / areaRadius : 0;
+
+    for (const tier of this.settings.lodTiers) {
+      if (ratio <= tier.maxDistanceRatio) {
+        return tier.interval;
+      }
+    }
+
+    return this.settings.lodTiers[this.settings.lodTiers.length - 1].interval;
+  }
+
+  private hashEntityId(entityId: string): number {
+    let hash = 0;
+    for (let i = 0; i < entityId.length; i++) {
+      hash = (hash * 31 + entityId.charCodeAt(i)) >>> 0;
+    }
+    return hash;
+  }
+}
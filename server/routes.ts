@@ -1,9 +1,13 @@
-import type { Express, Request, Response } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { Vector3 } from "@shared/math";
+import type { AddressBan, CaptureStatus, ShardStatus } from "@shared/types";
 import { serverInstance, GameServer } from "./index";
 import { log } from "./vite";
+import { authManager, verifyAdminSecret } from "./auth";
+import { resolveCapturePath } from "./capture";
+import { MAX_AREA_RADIUS } from "./aoi";
 import { db } from "./db";
 import { sql } from "drizzle-orm";
 import { 
@@ -14,7 +18,8 @@ import {
   serverLogs, 
   serverStats, 
   missions,
-  shipTemplates
+  shipTemplates,
+  type InsertAreaOfInterest
 } from "@shared/schema";
 
 // API response interfaces
@@ -24,6 +29,76 @@ interface ApiResponse<T> {
   error?: string;
 }
 
+// Take the fields of an area of interest an admin may set from a request body. Runtime
+// statistics such as player counts and load are left out.
+function parseAreaOfInterestFields(body: any): { fields: Partial<InsertAreaOfInterest> } | { error: string } {
+  const fields: Partial<InsertAreaOfInterest> = {};
+  
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || body.name.trim() === '') {
+      return { error: 'name must be a non-empty string' };
+    }
+    fields.name = body.name.trim();
+  }
+  
+  for (const key of ['centerX', 'centerY', 'centerZ'] as const) {
+    if (body[key] !== undefined) {
+      if (typeof body[key] !== 'number' || !isFinite(body[key])) {
+        return { error: `${key} must be a number` };
+      }
+      fields[key] = body[key];
+    }
+  }
+  
+  if (body.radius !== undefined) {
+    if (typeof body.radius !== 'number' || !(body.radius > 0) || body.radius > MAX_AREA_RADIUS) {
+      return { error: `radius must be a positive number up to ${MAX_AREA_RADIUS}` };
+    }
+    fields.radius = body.radius;
+  }
+  
+  for (const key of ['updateFrequency', 'capacityLimit'] as const) {
+    if (body[key] !== undefined) {
+      if (!Number.isInteger(body[key]) || body[key] <= 0) {
+        return { error: `${key} must be a positive integer` };
+      }
+      fields[key] = body[key];
+    }
+  }
+  
+  // An area with a celestial body moves with it, its center being relative to the body
+  if (body.nearestCelestialBodyId !== undefined) {
+    if (body.nearestCelestialBodyId !== null && !Number.isInteger(body.nearestCelestialBodyId)) {
+      return { error: 'nearestCelestialBodyId must be an integer or null' };
+    }
+    fields.nearestCelestialBodyId = body.nearestCelestialBodyId;
+  }
+  
+  return { fields };
+}
+
+// Routes that can take over accounts require the ADMIN_SECRET environment variable as a bearer
+// token, and are disabled while it is not set
+function requireAdminSecret(req: Request, res: Response, next: NextFunction) {
+  if (!process.env.ADMIN_SECRET) {
+    return res.status(403).json({
+      success: false,
+      error: 'ADMIN_SECRET is not set on the server',
+    });
+  }
+  
+  const authorization = req.headers.authorization;
+  const presented = authorization?.startsWith('Bearer ') ? authorization.substring(7) : undefined;
+  if (!verifyAdminSecret(presented, process.env.ADMIN_SECRET)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid admin credentials',
+    });
+  }
+  
+  next();
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Create HTTP server
   const httpServer = createServer(app);
@@ -40,10 +115,96 @@ export async function registerRoutes(app: Express): Promise<Server> {
         playerCount,
         maxPlayers: 2000,
         uptime: serverInstance ? serverInstance.getUptime() : 0,
+        shards: serverInstance ? serverInstance.getShardStatus() : [],
       }
     });
   });
   
+  // Authentication API
+  // Register a new user account
+  app.post('/api/auth/register', async (req: Request, res: Response) => {
+    try {
+      const { username, password } = req.body;
+      
+      if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing required fields: username, password',
+        });
+      }
+      
+      const existing = await storage.getUserByUsername(username);
+      if (existing) {
+        return res.status(409).json({
+          success: false,
+          error: 'Username is already taken',
+        });
+      }
+      
+      const user = await storage.createUser({
+        username,
+        password: await authManager.hashPassword(password),
+      });
+      
+      const response: ApiResponse<{ userId: number; username: string }> = {
+        success: true,
+        data: { userId: user.id, username: user.username },
+      };
+      
+      res.status(201).json(response);
+    } catch (error) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Failed to register user: ${error}`,
+      };
+      
+      res.status(500).json(response);
+    }
+  });
+  
+  // Log in and receive a session token for CLIENT_CONNECT
+  app.post('/api/auth/login', async (req: Request, res: Response) => {
+    try {
+      const { username, password } = req.body;
+      
+      if (typeof username !== 'string' || typeof password !== 'string') {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing required fields: username, password',
+        });
+      }
+      
+      const user = await storage.getUserByUsername(username);
+      if (user && !authManager.isPasswordHashed(user.password)) {
+        log(`User ${user.username} has an unhashed password and must be reset before logging in`, 'warn');
+      }
+      
+      if (!user || !(await authManager.verifyPassword(password, user.password))) {
+        return res.status(401).json({
+          success: false,
+          error: 'Invalid username or password',
+        });
+      }
+      
+      // Token is bound to the address the client logs in from
+      const session = authManager.issueSession(user, req.ip || req.socket.remoteAddress || '');
+      
+      const response: ApiResponse<typeof session & { userId: number }> = {
+        success: true,
+        data: { ...session, userId: user.id },
+      };
+      
+      res.json(response);
+    } catch (error) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Failed to log in: ${error}`,
+      };
+      
+      res.status(500).json(response);
+    }
+  });
+  
   // Celestial bodies API
   app.get('/api/celestial', async (req: Request, res: Response) => {
     try {
@@ -392,7 +553,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create NPC fleet API
   app.post('/api/npc/fleets', async (req: Request, res: Response) => {
     try {
-      const { type, count, location, nearestCelestialBodyId } = req.body;
+      const { type, count, location, nearestCelestialBodyId, factionId } = req.body;
       
       if (!type || !count || !location || !nearestCelestialBodyId) {
         return res.status(400).json({
@@ -408,12 +569,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      // Without a faction the fleet flies for the default faction of its type
+      if (factionId !== undefined && !serverInstance.factionManager.getFaction(factionId)) {
+        return res.status(400).json({
+          success: false,
+          error: `Unknown faction: ${factionId}`,
+        });
+      }
+      
       // Create the fleet
       const fleetResult = serverInstance.npcManager.createNPCFleet(
         type,
         parseInt(count, 10),
         location,
-        parseInt(nearestCelestialBodyId, 10)
+        parseInt(nearestCelestialBodyId, 10),
+        factionId
       );
       
       // Save to storage
@@ -803,144 +973,635 @@ export async function registerRoutes(app: Express): Promise<Server> {
             leaderNpcId: npcId
           }
         });
-      } else {
-        res.status(404).json({
+      } else {
+        res.status(404).json({
+          success: false,
+          error: 'Fleet or leader NPC not found'
+        });
+      }
+    } catch (error) {
+      console.error('Error setting fleet formation:', error);
+      res.status(500).json({
+        success: false,
+        error: `Failed to set fleet formation: ${error}`
+      });
+    }
+  });
+  
+  // Clear fleet formation (reset to individual behavior)
+  app.delete('/api/npc/fleet/:fleetId/formation', async (req: Request, res: Response) => {
+    try {
+      const { fleetId } = req.params;
+      
+      if (!fleetId) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing fleet ID'
+        });
+      }
+      
+      if (!serverInstance || !serverInstance.npcManager) {
+        return res.status(500).json({
+          success: false,
+          error: 'NPC manager not initialized'
+        });
+      }
+      
+      // Get all ships in the fleet
+      const ships = await storage.getNpcShipsByFleet(fleetId);
+      
+      if (!ships || ships.length === 0) {
+        return res.status(404).json({
+          success: false,
+          error: `No ships found for fleet ID ${fleetId}`
+        });
+      }
+      
+      // Reset all ships to patrolling behavior
+      let successCount = 0;
+      for (const ship of ships) {
+        if (ship.navigationState === 'formation') {
+          ship.navigationState = 'none';
+          ship.aiState = 'patrolling';
+          ship.formationPosition = null;
+          await storage.updateNpcShip(ship.id, ship);
+          successCount++;
+        }
+      }
+      
+      res.json({
+        success: true,
+        data: {
+          message: 'Fleet formation cleared successfully',
+          fleetId,
+          shipsUpdated: successCount
+        }
+      });
+    } catch (error) {
+      console.error('Error clearing fleet formation:', error);
+      res.status(500).json({
+        success: false,
+        error: `Failed to clear fleet formation: ${error}`
+      });
+    }
+  });
+  
+  // Players API
+  app.get('/api/players', async (req: Request, res: Response) => {
+    try {
+      const players = await storage.getConnectedPlayers();
+      
+      const response: ApiResponse<typeof players> = {
+        success: true,
+        data: players,
+      };
+      
+      res.json(response);
+    } catch (error) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Failed to fetch players: ${error}`,
+      };
+      
+      res.status(500).json(response);
+    }
+  });
+  
+  // Network statistics for a connected player
+  app.get('/api/players/:clientId/network', (req: Request, res: Response) => {
+    if (!serverInstance) {
+      return res.status(500).json({
+        success: false,
+        error: 'Server not initialized',
+      });
+    }
+    
+    const stats = serverInstance.getClientNetworkStats(req.params.clientId);
+    if (!stats) {
+      return res.status(404).json({
+        success: false,
+        error: 'Client not connected',
+      });
+    }
+    
+    const response: ApiResponse<typeof stats> = {
+      success: true,
+      data: stats,
+    };
+    
+    res.json(response);
+  });
+  
+  // Address bans from flood protection or admins
+  app.get('/api/admin/bans', (req: Request, res: Response) => {
+    if (!serverInstance) {
+      return res.status(500).json({
+        success: false,
+        error: 'Server not initialized',
+      });
+    }
+    
+    const response: ApiResponse<{ bans: AddressBan[]; connectChallengeActive: boolean }> = {
+      success: true,
+      data: {
+        bans: serverInstance.getBans(),
+        connectChallengeActive: serverInstance.isConnectChallengeActive(),
+      },
+    };
+    
+    res.json(response);
+  });
+  
+  app.post('/api/admin/bans', (req: Request, res: Response) => {
+    if (!serverInstance) {
+      return res.status(500).json({
+        success: false,
+        error: 'Server not initialized',
+      });
+    }
+    
+    const { address, reason, durationSeconds } = req.body;
+    
+    if (typeof address !== 'string' || !address) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required field: address',
+      });
+    }
+    
+    if (durationSeconds !== undefined && (typeof durationSeconds !== 'number' || durationSeconds <= 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'durationSeconds must be a positive number',
+      });
+    }
+    
+    const ban = serverInstance.banAddress(
+      address,
+      typeof reason === 'string' && reason ? reason : 'admin',
+      durationSeconds !== undefined ? durationSeconds * 1000 : undefined
+    );
+    
+    log(`Address ${ban.address} banned by admin`, 'warn');
+    
+    const response: ApiResponse<AddressBan> = {
+      success: true,
+      data: ban,
+    };
+    
+    res.status(201).json(response);
+  });
+  
+  app.delete('/api/admin/bans/:address', (req: Request, res: Response) => {
+    if (!serverInstance) {
+      return res.status(500).json({
+        success: false,
+        error: 'Server not initialized',
+      });
+    }
+    
+    if (!serverInstance.unbanAddress(req.params.address)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Address is not banned',
+      });
+    }
+    
+    log(`Address ${req.params.address} unbanned by admin`, 'info');
+    
+    const response: ApiResponse<{ address: string }> = {
+      success: true,
+      data: { address: req.params.address },
+    };
+    
+    res.json(response);
+  });
+  
+  // Set a new password for a user, e.g. an account from before passwords were hashed
+  app.put('/api/admin/users/:userId/password', requireAdminSecret, async (req: Request, res: Response) => {
+    const userId = Number(req.params.userId);
+    if (!Number.isInteger(userId) || userId <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid user ID',
+      });
+    }
+    
+    const { password } = req.body;
+    
+    if (typeof password !== 'string' || !password) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required field: password',
+      });
+    }
+    
+    try {
+      const user = await storage.updateUser(userId, {
+        password: await authManager.hashPassword(password),
+      });
+      
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          error: 'User not found',
+        });
+      }
+      
+      log(`Password of user ${user.username} reset by admin`, 'info');
+      
+      const response: ApiResponse<{ userId: number; username: string }> = {
+        success: true,
+        data: { userId: user.id, username: user.username },
+      };
+      
+      res.json(response);
+    } catch (error) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Failed to reset password: ${error}`,
+      };
+      
+      res.status(500).json(response);
+    }
+  });
+  
+  // Packet captures of the game traffic, for replaying with server/replay.ts
+  app.get('/api/admin/capture', (req: Request, res: Response) => {
+    if (!serverInstance) {
+      return res.status(500).json({
+        success: false,
+        error: 'Server not initialized',
+      });
+    }
+    
+    const response: ApiResponse<CaptureStatus | null> = {
+      success: true,
+      data: serverInstance.getCaptureStatus(),
+    };
+    
+    res.json(response);
+  });
+  
+  app.post('/api/admin/capture', (req: Request, res: Response) => {
+    if (!serverInstance) {
+      return res.status(500).json({
+        success: false,
+        error: 'Server not initialized',
+      });
+    }
+    
+    const { file } = req.body;
+    
+    if (file !== undefined && typeof file !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'file must be a string',
+      });
+    }
+    
+    const capturePath = resolveCapturePath(file);
+    if (!capturePath) {
+      return res.status(400).json({
+        success: false,
+        error: 'file must be a plain file name',
+      });
+    }
+    
+    try {
+      if (!serverInstance.startCapture(capturePath)) {
+        return res.status(409).json({
+          success: false,
+          error: 'A capture is already running',
+        });
+      }
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: `Failed to start capture: ${error}`,
+      });
+    }
+    
+    log(`Packet capture started by admin: ${capturePath}`, 'info');
+    
+    const response: ApiResponse<CaptureStatus | null> = {
+      success: true,
+      data: serverInstance.getCaptureStatus(),
+    };
+    
+    res.status(201).json(response);
+  });
+  
+  app.delete('/api/admin/capture', async (req: Request, res: Response) => {
+    if (!serverInstance) {
+      return res.status(500).json({
+        success: false,
+        error: 'Server not initialized',
+      });
+    }
+    
+    const status = await serverInstance.stopCapture();
+    if (!status) {
+      return res.status(404).json({
+        success: false,
+        error: 'No capture is running',
+      });
+    }
+    
+    log(`Packet capture stopped by admin: ${status.file}`, 'info');
+    
+    const response: ApiResponse<CaptureStatus> = {
+      success: true,
+      data: status,
+    };
+    
+    res.json(response);
+  });
+  
+  // Shard processes simulating the areas of interest, empty when the server runs without shards
+  app.get('/api/admin/shards', (req: Request, res: Response) => {
+    if (!serverInstance) {
+      return res.status(500).json({
+        success: false,
+        error: 'Server not initialized',
+      });
+    }
+    
+    const response: ApiResponse<ShardStatus[]> = {
+      success: true,
+      data: serverInstance.getShardStatus(),
+    };
+    
+    res.json(response);
+  });
+  
+  // Move an area of interest to another shard, its players follow on the next tick
+  app.put('/api/admin/shards/areas/:areaId', (req: Request, res: Response) => {
+    if (!serverInstance) {
+      return res.status(500).json({
+        success: false,
+        error: 'Server not initialized',
+      });
+    }
+    
+    const { shardId } = req.body;
+    
+    if (!Number.isInteger(shardId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'shardId must be an integer',
+      });
+    }
+    
+    if (!serverInstance.assignAreaToShard(req.params.areaId, shardId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Shard or area not found',
+      });
+    }
+    
+    log(`Area ${req.params.areaId} assigned to shard ${shardId} by admin`, 'info');
+    
+    const response: ApiResponse<ShardStatus[]> = {
+      success: true,
+      data: serverInstance.getShardStatus(),
+    };
+    
+    res.json(response);
+  });
+  
+  // Areas of interest API
+  app.get('/api/aoi', async (req: Request, res: Response) => {
+    try {
+      const areas = await storage.getAllAreasOfInterest();
+      
+      // If server instance is available, get the current state
+      if (serverInstance && serverInstance.aoiManager) {
+        const areaStates = serverInstance.aoiManager.getAllAreaStates();
+        const gameStateManager = serverInstance.gameStateManager;
+        
+        // Map DB records to current states for additional data
+        const enrichedAreas = areas.map(area => {
+          const state = areaStates.find(s => s.id === `aoi-${area.id}`);
+          
+          if (state) {
+            return {
+              ...area,
+              currentPlayerCount: state.playerCount,
+              currentNpcCount: state.npcCount,
+              currentLoad: state.load,
+              currentLatency: state.latency,
+              currentCenter: state.center, // Differs from the stored center once the area follows its body
+              currentUpdateFrequency: gameStateManager.getAreaUpdateFrequency(state.id) ?? area.updateFrequency,
+            };
+          }
+          
+          return area;
+        });
+        
+        const response: ApiResponse<typeof enrichedAreas> = {
+          success: true,
+          data: enrichedAreas,
+        };
+        
+        return res.json(response);
+      }
+      
+      const response: ApiResponse<typeof areas> = {
+        success: true,
+        data: areas,
+      };
+      
+      res.json(response);
+    } catch (error) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Failed to fetch areas of interest: ${error}`,
+      };
+      
+      res.status(500).json(response);
+    }
+  });
+  
+  // Create an area of interest. It is stored, so it is loaded again on the next start.
+  app.post('/api/aoi', async (req: Request, res: Response) => {
+    try {
+      if (!serverInstance) {
+        return res.status(500).json({
+          success: false,
+          error: 'Server not initialized',
+        });
+      }
+      
+      const parsed = parseAreaOfInterestFields(req.body || {});
+      if ('error' in parsed) {
+        return res.status(400).json({
+          success: false,
+          error: parsed.error,
+        });
+      }
+      
+      const { fields } = parsed;
+      if (fields.name === undefined || fields.radius === undefined) {
+        return res.status(400).json({
           success: false,
-          error: 'Fleet or leader NPC not found'
+          error: 'Missing required fields: name, radius',
+        });
+      }
+      
+      if (fields.nearestCelestialBodyId != null && !serverInstance.celestialManager.getBody(fields.nearestCelestialBodyId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Celestial body not found',
         });
       }
+      
+      const createdArea = await storage.createAreaOfInterest({
+        name: fields.name,
+        centerX: fields.centerX ?? 0,
+        centerY: fields.centerY ?? 0,
+        centerZ: fields.centerZ ?? 0,
+        radius: fields.radius,
+        nearestCelestialBodyId: fields.nearestCelestialBodyId ?? null,
+        playerCount: 0,
+        npcCount: 0,
+        updateFrequency: fields.updateFrequency ?? 60,
+        latency: 0,
+        load: 0,
+        capacityLimit: fields.capacityLimit ?? 400,
+      });
+      
+      serverInstance.applyAreaOfInterest(createdArea);
+      log(`Area of interest ${createdArea.id} (${createdArea.name}) created`, 'info');
+      
+      const response: ApiResponse<typeof createdArea> = {
+        success: true,
+        data: createdArea,
+      };
+      
+      res.status(201).json(response);
     } catch (error) {
-      console.error('Error setting fleet formation:', error);
-      res.status(500).json({
+      const response: ApiResponse<null> = {
         success: false,
-        error: `Failed to set fleet formation: ${error}`
-      });
+        error: `Failed to create area of interest: ${error}`,
+      };
+      
+      res.status(500).json(response);
     }
   });
   
-  // Clear fleet formation (reset to individual behavior)
-  app.delete('/api/npc/fleet/:fleetId/formation', async (req: Request, res: Response) => {
+  // Update an area of interest. The running AOI system picks up the change straight away.
+  app.put('/api/aoi/:id', async (req: Request, res: Response) => {
     try {
-      const { fleetId } = req.params;
-      
-      if (!fleetId) {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
         return res.status(400).json({
           success: false,
-          error: 'Missing fleet ID'
+          error: 'Invalid area of interest ID',
         });
       }
       
-      if (!serverInstance || !serverInstance.npcManager) {
+      if (!serverInstance) {
         return res.status(500).json({
           success: false,
-          error: 'NPC manager not initialized'
+          error: 'Server not initialized',
         });
       }
       
-      // Get all ships in the fleet
-      const ships = await storage.getNpcShipsByFleet(fleetId);
-      
-      if (!ships || ships.length === 0) {
+      const existingArea = await storage.getAreaOfInterest(id);
+      if (!existingArea) {
         return res.status(404).json({
           success: false,
-          error: `No ships found for fleet ID ${fleetId}`
+          error: 'Area of interest not found',
         });
       }
       
-      // Reset all ships to patrolling behavior
-      let successCount = 0;
-      for (const ship of ships) {
-        if (ship.navigationState === 'formation') {
-          ship.navigationState = 'none';
-          ship.aiState = 'patrolling';
-          ship.formationPosition = null;
-          await storage.updateNpcShip(ship.id, ship);
-          successCount++;
-        }
+      const parsed = parseAreaOfInterestFields(req.body || {});
+      if ('error' in parsed) {
+        return res.status(400).json({
+          success: false,
+          error: parsed.error,
+        });
       }
       
-      res.json({
-        success: true,
-        data: {
-          message: 'Fleet formation cleared successfully',
-          fleetId,
-          shipsUpdated: successCount
-        }
-      });
-    } catch (error) {
-      console.error('Error clearing fleet formation:', error);
-      res.status(500).json({
-        success: false,
-        error: `Failed to clear fleet formation: ${error}`
-      });
-    }
-  });
-  
-  // Players API
-  app.get('/api/players', async (req: Request, res: Response) => {
-    try {
-      const players = await storage.getConnectedPlayers();
+      const { fields } = parsed;
+      if (fields.nearestCelestialBodyId != null && !serverInstance.celestialManager.getBody(fields.nearestCelestialBodyId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Celestial body not found',
+        });
+      }
       
-      const response: ApiResponse<typeof players> = {
+      const updatedArea = await storage.updateAreaOfInterest(id, fields);
+      if (!updatedArea) {
+        return res.status(404).json({
+          success: false,
+          error: 'Area of interest not found',
+        });
+      }
+      
+      serverInstance.applyAreaOfInterest(updatedArea);
+      log(`Area of interest ${id} (${updatedArea.name}) updated`, 'info');
+      
+      const response: ApiResponse<typeof updatedArea> = {
         success: true,
-        data: players,
+        data: updatedArea,
       };
       
       res.json(response);
     } catch (error) {
       const response: ApiResponse<null> = {
         success: false,
-        error: `Failed to fetch players: ${error}`,
+        error: `Failed to update area of interest: ${error}`,
       };
       
       res.status(500).json(response);
     }
   });
   
-  // Areas of interest API
-  app.get('/api/aoi', async (req: Request, res: Response) => {
+  // Delete an area of interest. Entities in it move to the areas they are now in.
+  app.delete('/api/aoi/:id', async (req: Request, res: Response) => {
     try {
-      const areas = await storage.getAllAreasOfInterest();
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid area of interest ID',
+        });
+      }
       
-      // If server instance is available, get the current state
-      if (serverInstance && serverInstance.aoiManager) {
-        const areaStates = serverInstance.aoiManager.getAllAreaStates();
-        
-        // Map DB records to current states for additional data
-        const enrichedAreas = areas.map(area => {
-          const state = areaStates.find(s => s.id === `aoi-${area.id}`);
-          
-          if (state) {
-            return {
-              ...area,
-              currentPlayerCount: state.playerCount,
-              currentNpcCount: state.npcCount,
-              currentLoad: state.load,
-              currentLatency: state.latency,
-            };
-          }
-          
-          return area;
+      if (!serverInstance) {
+        return res.status(500).json({
+          success: false,
+          error: 'Server not initialized',
         });
-        
-        const response: ApiResponse<typeof enrichedAreas> = {
-          success: true,
-          data: enrichedAreas,
-        };
-        
-        return res.json(response);
       }
       
-      const response: ApiResponse<typeof areas> = {
+      const existingArea = await storage.getAreaOfInterest(id);
+      if (!existingArea) {
+        return res.status(404).json({
+          success: false,
+          error: 'Area of interest not found',
+        });
+      }
+      
+      await storage.deleteAreaOfInterest(id);
+      serverInstance.removeAreaOfInterest(id);
+      log(`Area of interest ${id} (${existingArea.name}) deleted`, 'info');
+      
+      const response: ApiResponse<{ id: number, message: string }> = {
         success: true,
-        data: areas,
+        data: {
+          id,
+          message: 'Area of interest deleted successfully',
+        },
       };
       
       res.json(response);
     } catch (error) {
       const response: ApiResponse<null> = {
         success: false,
-        error: `Failed to fetch areas of interest: ${error}`,
+        error: `Failed to delete area of interest: ${error}`,
       };
       
       res.status(500).json(response);
@@ -1478,6 +2139,167 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Factions API
+  app.get('/api/factions', (req: Request, res: Response) => {
+    if (!serverInstance) {
+      return res.status(500).json({
+        success: false,
+        error: 'Server not initialized',
+      });
+    }
+    
+    const factions = serverInstance.factionManager.getAllFactions();
+    
+    const response: ApiResponse<typeof factions> = {
+      success: true,
+      data: factions,
+    };
+    
+    res.json(response);
+  });
+  
+  // Set how one faction regards another, from -100 (at war) to 100 (allied)
+  app.put('/api/factions/:factionId/standings/:otherFactionId', async (req: Request, res: Response) => {
+    if (!serverInstance) {
+      return res.status(500).json({
+        success: false,
+        error: 'Server not initialized',
+      });
+    }
+    
+    const { factionId, otherFactionId } = req.params;
+    const { standing } = req.body;
+    
+    if (typeof standing !== 'number' || !Number.isFinite(standing)) {
+      return res.status(400).json({
+        success: false,
+        error: 'standing must be a number',
+      });
+    }
+    
+    try {
+      const updated = await serverInstance.factionManager.setStanding(factionId, otherFactionId, standing);
+      
+      if (!updated) {
+        return res.status(404).json({
+          success: false,
+          error: 'Faction not found, or both factions are the same',
+        });
+      }
+      
+      log(`Standing of ${factionId} toward ${otherFactionId} set to ${standing}`, 'info');
+      
+      const faction = serverInstance.factionManager.getFaction(factionId);
+      
+      const response: ApiResponse<typeof faction> = {
+        success: true,
+        data: faction,
+      };
+      
+      res.json(response);
+    } catch (error) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Failed to update standing: ${error}`,
+      };
+      
+      res.status(500).json(response);
+    }
+  });
+  
+  // A user's faction, reputations, and how each faction regards them
+  app.get('/api/users/:userId/factions', async (req: Request, res: Response) => {
+    if (!serverInstance) {
+      return res.status(500).json({
+        success: false,
+        error: 'Server not initialized',
+      });
+    }
+    
+    try {
+      const user = await storage.getUser(parseInt(req.params.userId, 10));
+      
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          error: 'User not found',
+        });
+      }
+      
+      const factionManager = serverInstance.factionManager;
+      factionManager.registerUser(user);
+      
+      const standings: Record<string, number> = {};
+      factionManager.getAllFactions().forEach(faction => {
+        standings[faction.factionId] = factionManager.getStandingTowardPlayer(faction.factionId, user.id);
+      });
+      
+      const response: ApiResponse<{ factionId: string | null; reputations: Record<string, number>; standings: Record<string, number> }> = {
+        success: true,
+        data: {
+          factionId: factionManager.getPlayerFactionId(user.id),
+          reputations: factionManager.getReputations(user.id),
+          standings,
+        },
+      };
+      
+      res.json(response);
+    } catch (error) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Failed to fetch user factions: ${error}`,
+      };
+      
+      res.status(500).json(response);
+    }
+  });
+  
+  // Join a faction, or leave the current one with a null factionId
+  app.put('/api/users/:userId/faction', async (req: Request, res: Response) => {
+    if (!serverInstance) {
+      return res.status(500).json({
+        success: false,
+        error: 'Server not initialized',
+      });
+    }
+    
+    const { factionId } = req.body;
+    
+    if (factionId !== null && (typeof factionId !== 'string' || !serverInstance.factionManager.getFaction(factionId))) {
+      return res.status(400).json({
+        success: false,
+        error: 'factionId must be a known faction ID or null',
+      });
+    }
+    
+    try {
+      const user = await serverInstance.factionManager.setPlayerFaction(parseInt(req.params.userId, 10), factionId);
+      
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          error: 'User not found',
+        });
+      }
+      
+      log(`User ${user.username} ${factionId ? `joined ${factionId}` : 'left their faction'}`, 'info');
+      
+      const response: ApiResponse<{ userId: number; factionId: string | null }> = {
+        success: true,
+        data: { userId: user.id, factionId: user.factionId },
+      };
+      
+      res.json(response);
+    } catch (error) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Failed to update user faction: ${error}`,
+      };
+      
+      res.status(500).json(response);
+    }
+  });
+  
   // Frozen solar system toggle API
   app.get('/api/celestial/frozen', (req: Request, res: Response) => {
     try {
@@ -1860,6 +2682,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       { path: '/api/stats', method: 'GET', description: 'Get server performance statistics', group: 'Server Status & Settings' },
       { path: '/api/logs', method: 'GET', description: 'Get server logs', group: 'Server Status & Settings' },
       { path: '/api/emergency-stop', method: 'POST', description: 'Emergency stop the server', group: 'Server Status & Settings' },
+      { path: '/api/admin/bans', method: 'GET', description: 'List temporary address bans and whether connect challenges are active', group: 'Server Status & Settings' },
+      { path: '/api/admin/bans', method: 'POST', description: 'Ban an address temporarily', group: 'Server Status & Settings' },
+      { path: '/api/admin/bans/:address', method: 'DELETE', description: 'Lift an address ban', group: 'Server Status & Settings' },
+      { path: '/api/admin/users/:userId/password', method: 'PUT', description: 'Reset the password of a user, with the ADMIN_SECRET as bearer token', group: 'Server Status & Settings' },
+      { path: '/api/admin/capture', method: 'GET', description: 'Get the status of the running packet capture', group: 'Server Status & Settings' },
+      { path: '/api/admin/capture', method: 'POST', description: 'Start capturing game traffic to a file', group: 'Server Status & Settings' },
+      { path: '/api/admin/capture', method: 'DELETE', description: 'Stop the running packet capture', group: 'Server Status & Settings' },
+      { path: '/api/admin/shards', method: 'GET', description: 'Get the shard processes and the areas they simulate', group: 'Server Status & Settings' },
+      { path: '/api/admin/shards/areas/:areaId', method: 'PUT', description: 'Move an area of interest to another shard', group: 'Server Status & Settings' },
       { path: '/api/endpoints', method: 'GET', description: 'Get all API endpoints', group: 'Server Status & Settings' },
       { path: '/api/settings/auto-save', method: 'GET', description: 'Get auto-save settings', group: 'Server Status & Settings' },
       { path: '/api/settings/auto-save', method: 'POST', description: 'Update auto-save settings', group: 'Server Status & Settings' },
@@ -1867,6 +2698,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       { path: '/api/world/load', method: 'POST', description: 'Load saved world state', group: 'Server Status & Settings' },
       { path: '/api/world/reset', method: 'POST', description: 'Reset world state to default', group: 'Server Status & Settings' },
       
+      // Authentication
+      { path: '/api/auth/register', method: 'POST', description: 'Register a new user account', group: 'Authentication' },
+      { path: '/api/auth/login', method: 'POST', description: 'Log in and receive a session token for the UDP connection', group: 'Authentication' },
+      
       // Celestial bodies
       { path: '/api/celestial', method: 'GET', description: 'Get all celestial bodies', group: 'Celestial Bodies' },
       { path: '/api/celestial/:id', method: 'GET', description: 'Get a specific celestial body by ID', group: 'Celestial Bodies' },
@@ -1894,12 +2729,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Players
       { path: '/api/players', method: 'GET', description: 'Get all connected players', group: 'Players' },
+      { path: '/api/players/:clientId/network', method: 'GET', description: 'Get network statistics for a connected player', group: 'Players' },
       { path: '/api/simulated-players', method: 'GET', description: 'Get all simulated players', group: 'Players' },
       { path: '/api/simulated-players', method: 'POST', description: 'Create simulated players', group: 'Players' },
       { path: '/api/simulated-players', method: 'DELETE', description: 'Delete all simulated players', group: 'Players' },
       
       // Area of Interest
       { path: '/api/aoi', method: 'GET', description: 'Get all areas of interest', group: 'Area of Interest' },
+      { path: '/api/aoi', method: 'POST', description: 'Create an area of interest', group: 'Area of Interest' },
+      { path: '/api/aoi/:id', method: 'PUT', description: 'Update an area of interest', group: 'Area of Interest' },
+      { path: '/api/aoi/:id', method: 'DELETE', description: 'Delete an area of interest', group: 'Area of Interest' },
       
       // Missions
       { path: '/api/missions', method: 'GET', description: 'Get all missions', group: 'Missions' },
@@ -1907,6 +2746,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       { path: '/api/missions/:missionId', method: 'DELETE', description: 'Delete a mission', group: 'Missions' },
       { path: '/api/missions/:missionId/assign', method: 'PUT', description: 'Assign a mission to a fleet', group: 'Missions' },
       
+      // Factions
+      { path: '/api/factions', method: 'GET', description: 'Get all factions and their standings', group: 'Factions' },
+      { path: '/api/factions/:factionId/standings/:otherFactionId', method: 'PUT', description: 'Set how one faction regards another', group: 'Factions' },
+      { path: '/api/users/:userId/factions', method: 'GET', description: 'Get the faction, reputations and standings of a user', group: 'Factions' },
+      { path: '/api/users/:userId/faction', method: 'PUT', description: 'Join or leave a faction', group: 'Factions' },
+      
       // Ship Templates
       { path: '/api/ship-templates', method: 'GET', description: 'Get all ship templates', group: 'Ship Templates' },
       { path: '/api/ship-templates/:id', method: 'GET', description: 'Get a specific ship template by ID', group: 'Ship Templates' },
@@ -1942,6 +2787,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           signatureRadius: 100,
           attackRange: 300.0,
           fleeThreshold: 0.3,
+          maxHull: 400.0,
+          maxShield: 200.0,
+          weaponDamage: 25.0,
+          weaponRange: 600.0,
+          weaponCooldown: 1500,
+          projectileSpeed: 400.0,
           waypointArrivalDistance: 100.0,
           pathfindingUpdateInterval: 5000,
           obstacleAvoidanceDistance: 200.0,
@@ -1960,6 +2811,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           signatureRadius: 200,
           attackRange: 0.0,
           fleeThreshold: 0.5,
+          maxHull: 800.0,
+          maxShield: 100.0,
+          weaponDamage: 0.0,
+          weaponRange: 0.0,
+          weaponCooldown: 0,
+          projectileSpeed: 0.0,
           waypointArrivalDistance: 150.0,
           pathfindingUpdateInterval: 7000,
           obstacleAvoidanceDistance: 300.0,
@@ -1978,6 +2835,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           signatureRadius: 80,
           attackRange: 0.0,
           fleeThreshold: 0.7,
+          maxHull: 300.0,
+          maxShield: 50.0,
+          weaponDamage: 0.0,
+          weaponRange: 0.0,
+          weaponCooldown: 0,
+          projectileSpeed: 0.0,
           waypointArrivalDistance: 120.0,
           pathfindingUpdateInterval: 6000,
           obstacleAvoidanceDistance: 250.0,
@@ -1996,6 +2859,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           signatureRadius: 150,
           attackRange: 0.0,
           fleeThreshold: 0.8,
+          maxHull: 500.0,
+          maxShield: 100.0,
+          weaponDamage: 0.0,
+          weaponRange: 0.0,
+          weaponCooldown: 0,
+          projectileSpeed: 0.0,
           waypointArrivalDistance: 80.0,
           pathfindingUpdateInterval: 10000,
           obstacleAvoidanceDistance: 350.0,
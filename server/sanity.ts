@@ -1,5 +1,5 @@
 import { Vector3 } from '@shared/math';
-import { MessageType, ServerSanityCheckMessage } from '@shared/types';
+import { MessageType, ServerSanityCheckMessage, DeliveryChannel } from '@shared/types';
 import { UDPServer } from './udp';
 import { Player } from '@shared/schema';
 
@@ -84,7 +84,7 @@ export class SanityCheckManager {
     }
     
     // Send the check request
-    this.udpServer.sendToClient(clientId, message, true); // Use reliable delivery
+    this.udpServer.sendToClient(clientId, message, DeliveryChannel.RELIABLE_UNORDERED); // Use reliable delivery
   }
   
   // Process a sanity check response from client
@@ -0,0 +1,381 @@
+import { Vector3, Quaternion } from '@shared/math';
+import {
+  EntityState,
+  AreaOfInterest,
+  ClientInputMessage,
+  ServerStateUpdateMessage,
+  ServerDeltaStateUpdateMessage,
+  ShardStatus
+} from '@shared/types';
+import { ENTITY_STATE } from '@shared/messages';
+import { AOIManager } from './aoi';
+import { SnapshotManager } from './snapshot';
+import { PriorityAccumulator, PriorityCandidate } from './priority';
+import { ReplicationScheduler, MAX_UPDATE_FREQUENCY } from './replication';
+import { InputProcessor } from './movement';
+import { encodeValue } from './codec';
+
+// Entry point of a shard process. Shards are started by the coordinator in the main server
+// process (see server/coordinator.ts), which keeps the game socket and assigns each shard the
+// players of some areas of interest. A shard integrates the inputs of its players and builds
+// their state updates, which the coordinator sends on. Everything else its players can see is
+// mirrored from the coordinator as ghosts.
+//
+// Messages between the processes are structured clones, so vectors arrive as plain objects.
+
+// An area of interest as mirrored to every shard
+export type ShardArea = Pick<AreaOfInterest, 'id' | 'name' | 'center' | 'radius' | 'capacityLimit' | 'updateFrequency'>;
+
+// A player handed to a shard, on connect or when it moves in from another shard
+export interface ShardPlayer {
+  state: EntityState;
+  quantized: boolean;                  // The client gets AOI-relative positions
+  nextSnapshotId: number;              // Continues the numbering of the shard it came from
+  lastProcessedInputSequence?: number; // Absent until the player sent an input
+}
+
+// An entity simulated by the coordinator or another shard
+export interface ShardGhost {
+  state: EntityState;
+  targetId?: string; // Entity the NPC is targeting
+}
+
+// Figures a shard reports about itself every second
+export type ShardReport = Pick<ShardStatus, 'ghostCount' | 'tickTime' | 'updatesPerSecond' | 'memoryUsage'>;
+
+// Messages from the coordinator to a shard
+export type CoordinatorMessage =
+  | { type: 'configure', stateUpdateBudget: number }
+  | { type: 'areas', areas: ShardArea[] }                // Replaces all areas
+  | { type: 'ghosts', ghosts: ShardGhost[] }             // Replaces all ghosts
+  | { type: 'addPlayer', player: ShardPlayer }
+  | { type: 'removePlayer', clientId: string }
+  | { type: 'resetPlayer', clientId: string }            // The client resumed, start over with a full snapshot
+  | { type: 'playerState', state: EntityState }          // Moved by the client or by the coordinator
+  | { type: 'input', input: ClientInputMessage }
+  | { type: 'snapshotAck', clientId: string, snapshotId: number };
+
+// Player states changed by inputs, with the last input applied
+export interface ShardPlayerState {
+  state: EntityState;
+  lastProcessedInputSequence: number;
+}
+
+// Messages from a shard to the coordinator
+export type ShardMessage =
+  | { type: 'stateUpdates', updates: Array<ServerStateUpdateMessage | ServerDeltaStateUpdateMessage> }
+  | { type: 'playerStates', players: ShardPlayerState[] }
+  | { type: 'report', report: ShardReport };
+
+const REPORT_INTERVAL = 1000;
+
+// Rebuild the vectors of an entity state received from another process
+function toEntityState(state: EntityState): EntityState {
+  return {
+    entityId: state.entityId,
+    entityType: state.entityType,
+    position: Vector3.from(state.position),
+    velocity: Vector3.from(state.velocity),
+    rotation: Quaternion.from(state.rotation)
+  };
+}
+
+interface ShardPlayerEntry {
+  state: EntityState;
+  quantized: boolean;
+}
+
+// The simulation run by a shard process
+export class ShardSimulation {
+  private aoiManager: AOIManager = new AOIManager();
+  private snapshotManager: SnapshotManager = new SnapshotManager();
+  private priorityAccumulator: PriorityAccumulator = new PriorityAccumulator();
+  private replicationScheduler: ReplicationScheduler = new ReplicationScheduler();
+  private inputProcessor: InputProcessor = new InputProcessor();
+
+  private players: Map<string, ShardPlayerEntry> = new Map();
+  private ghosts: Map<string, ShardGhost> = new Map();
+  private movedPlayerIds: Set<string> = new Set(); // Moved since the last report to the coordinator
+
+  // Replication figures since the last report
+  private lastReportTime: number = Date.now();
+  private replicationPasses: number = 0;
+  private replicationTime: number = 0;
+  private updatesSent: number = 0;
+
+  constructor(private shardId: number, private send: (message: ShardMessage) => void) {}
+
+  start(): void {
+    setInterval(() => this.tick(), Math.floor(1000 / MAX_UPDATE_FREQUENCY));
+    console.log(`Shard ${this.shardId} started in process ${process.pid}`);
+  }
+
+  handleMessage(message: CoordinatorMessage): void {
+    switch (message.type) {
+      case 'configure':
+        this.priorityAccumulator.setBudget(message.stateUpdateBudget);
+        break;
+
+      case 'areas':
+        this.setAreas(message.areas);
+        break;
+
+      case 'ghosts':
+        this.setGhosts(message.ghosts);
+        break;
+
+      case 'addPlayer':
+        this.addPlayer(message.player);
+        break;
+
+      case 'removePlayer':
+        this.removePlayer(message.clientId);
+        break;
+
+      case 'resetPlayer':
+        this.snapshotManager.resetClient(message.clientId);
+        this.inputProcessor.removeClient(message.clientId);
+        break;
+
+      case 'playerState':
+        this.setPlayerState(toEntityState(message.state));
+        break;
+
+      case 'input':
+        this.applyInput(message.input);
+        break;
+
+      case 'snapshotAck':
+        if (this.players.has(message.clientId)) {
+          this.snapshotManager.acknowledge(message.clientId, message.snapshotId);
+        }
+        break;
+    }
+  }
+
+  private setAreas(areas: ShardArea[]): void {
+    const areaIds = new Set(areas.map(area => area.id));
+    this.aoiManager.getAllAreas()
+      .filter(area => !areaIds.has(area.id))
+      .forEach(area => {
+        this.aoiManager.removeArea(area.id);
+        this.replicationScheduler.removeArea(area.id);
+      });
+
+    areas.forEach(area => {
+      const definition = { ...area, center: Vector3.from(area.center) };
+      if (!this.aoiManager.updateArea(area.id, definition)) {
+        this.aoiManager.createArea(area.id, area.name, definition.center, area.radius, area.capacityLimit, area.updateFrequency);
+      }
+    });
+  }
+
+  private setGhosts(ghosts: ShardGhost[]): void {
+    const ghostIds: Set<string> = new Set();
+
+    ghosts.forEach(ghost => {
+      const entityId = ghost.state.entityId;
+      // A player that just moved in may still arrive as a ghost
+      if (this.players.has(entityId)) return;
+
+      const state = toEntityState(ghost.state);
+      ghostIds.add(entityId);
+      this.ghosts.set(entityId, { state, targetId: ghost.targetId });
+      this.aoiManager.updateEntityPosition(entityId, state.position, state.entityType);
+    });
+
+    Array.from(this.ghosts.values())
+      .filter(ghost => !ghostIds.has(ghost.state.entityId))
+      .forEach(ghost => {
+        this.ghosts.delete(ghost.state.entityId);
+        this.aoiManager.removeEntity(ghost.state.entityId, ghost.state.entityType);
+      });
+  }
+
+  private addPlayer(player: ShardPlayer): void {
+    const state = toEntityState(player.state);
+    const clientId = state.entityId;
+
+    this.ghosts.delete(clientId);
+    this.players.set(clientId, { state, quantized: player.quantized });
+    this.aoiManager.updateEntityPosition(clientId, state.position, 'player');
+
+    this.snapshotManager.startClient(clientId, player.nextSnapshotId);
+    if (player.lastProcessedInputSequence !== undefined) {
+      this.inputProcessor.restoreClient(clientId, player.lastProcessedInputSequence, Date.now());
+    }
+  }
+
+  private removePlayer(clientId: string): void {
+    if (!this.players.delete(clientId)) return;
+
+    this.aoiManager.removeEntity(clientId, 'player');
+    this.movedPlayerIds.delete(clientId);
+    this.snapshotManager.removeClient(clientId);
+    this.priorityAccumulator.removeClient(clientId);
+    this.replicationScheduler.removeClient(clientId);
+    this.inputProcessor.removeClient(clientId);
+  }
+
+  private setPlayerState(state: EntityState): void {
+    const player = this.players.get(state.entityId);
+    if (!player) return;
+
+    player.state = state;
+    this.aoiManager.updateEntityPosition(state.entityId, state.position, 'player');
+
+    // Reported back so the coordinator ends up with it even if an older report crossed this message
+    this.movedPlayerIds.add(state.entityId);
+  }
+
+  private applyInput(input: ClientInputMessage): void {
+    const player = this.players.get(input.clientId);
+    if (!player) return;
+
+    const next = this.inputProcessor.applyInput(input.clientId, player.state, {
+      ...input,
+      thrust: Vector3.from(input.thrust),
+      rotationInput: Vector3.from(input.rotationInput)
+    }, Date.now());
+
+    if (next) {
+      this.setPlayerState({ ...player.state, ...next });
+    }
+  }
+
+  private tick(): void {
+    const start = Date.now();
+
+    this.reportMovedPlayers();
+    this.replicate(start);
+
+    this.replicationPasses++;
+    this.replicationTime += Date.now() - start;
+
+    if (start - this.lastReportTime >= REPORT_INTERVAL) {
+      this.report(start);
+    }
+  }
+
+  private reportMovedPlayers(): void {
+    if (this.movedPlayerIds.size === 0) return;
+
+    const players: ShardPlayerState[] = [];
+    this.movedPlayerIds.forEach(clientId => {
+      const player = this.players.get(clientId);
+      if (player) {
+        players.push({
+          state: player.state,
+          lastProcessedInputSequence: this.inputProcessor.getLastProcessedInput(clientId) ?? 0
+        });
+      }
+    });
+    this.movedPlayerIds.clear();
+
+    this.send({ type: 'playerStates', players });
+  }
+
+  // Build state updates for players in areas that are due, as GameStateManager.sendStateUpdates
+  // does without shards
+  private replicate(now: number): void {
+    this.aoiManager.refreshAreaLoads();
+    const dueAreaIds: Set<string> = new Set();
+    this.aoiManager.getAllAreas().forEach(area => {
+      if (this.replicationScheduler.isAreaDue(area.id, area.updateFrequency, area.load, now)) {
+        dueAreaIds.add(area.id);
+      }
+    });
+
+    if (dueAreaIds.size === 0) return;
+
+    const updates: Array<ServerStateUpdateMessage | ServerDeltaStateUpdateMessage> = [];
+    this.players.forEach((player, clientId) => {
+      const playerArea = this.aoiManager.getEntityArea(clientId);
+      if (!playerArea || !dueAreaIds.has(playerArea.id)) return;
+
+      const observerPosition = player.state.position;
+      const updateNumber = this.replicationScheduler.beginClientUpdate(clientId);
+      const candidates: PriorityCandidate[] = [];
+      const lodDeferred: string[] = [];
+
+      for (const entity of this.aoiManager.getRelevantEntities(clientId)) {
+        if (entity.id === clientId) continue;
+
+        const distance = entity.position.distance(observerPosition);
+        if (!this.replicationScheduler.isEntityDue(updateNumber, entity.id, distance, playerArea.radius)) {
+          lodDeferred.push(entity.id);
+          continue;
+        }
+
+        const otherPlayer = this.players.get(entity.id);
+        const ghost = this.ghosts.get(entity.id);
+        if (otherPlayer) {
+          candidates.push({ state: otherPlayer.state, targetsObserver: false });
+        } else if (ghost) {
+          candidates.push({ state: ghost.state, targetsObserver: ghost.targetId === clientId });
+        }
+      }
+
+      const origin = player.quantized ? playerArea.center : undefined;
+      const { selected, deferred } = this.priorityAccumulator.select(
+        clientId,
+        observerPosition,
+        candidates,
+        entity => encodeValue(ENTITY_STATE, entity, origin).length
+      );
+
+      const message = this.snapshotManager.buildStateUpdate(
+        clientId,
+        selected,
+        playerArea.id,
+        now,
+        lodDeferred.concat(deferred)
+      );
+      message.origin = playerArea.center;
+
+      const lastProcessedInputSequence = this.inputProcessor.getLastProcessedInput(clientId);
+      if (lastProcessedInputSequence !== undefined) {
+        message.reconciliation = { lastProcessedInputSequence, state: player.state };
+      }
+
+      updates.push(message);
+    });
+
+    if (updates.length > 0) {
+      this.updatesSent += updates.length;
+      this.send({ type: 'stateUpdates', updates });
+    }
+  }
+
+  private report(now: number): void {
+    const elapsedSeconds = (now - this.lastReportTime) / 1000;
+
+    this.send({
+      type: 'report',
+      report: {
+        ghostCount: this.ghosts.size,
+        tickTime: this.replicationPasses > 0 ? this.replicationTime / this.replicationPasses : 0,
+        updatesPerSecond: this.updatesSent / elapsedSeconds,
+        memoryUsage: Math.round(process.memoryUsage().heapUsed / 1024 / 1024)
+      }
+    });
+
+    this.lastReportTime = now;
+    this.replicationPasses = 0;
+    this.replicationTime = 0;
+    this.updatesSent = 0;
+  }
+}
+
+if (!process.send) {
+  console.error('Shards are started by the shard coordinator, see server/coordinator.ts');
+  process.exit(1);
+}
+
+const simulation = new ShardSimulation(parseInt(process.env.SHARD_ID || '0', 10), message => process.send!(message));
+process.on('message', (message: CoordinatorMessage) => simulation.handleMessage(message));
+
+// Nothing to simulate for once the coordinator is gone
+process.on('disconnect', () => process.exit(0));
+
+simulation.start();
@@ -0,0 +1,269 @@
+import {
+  MessageType,
+  EntityState,
+  EntityDelta,
+  EntityDeltaField,
+  ServerStateUpdateMessage,
+  ServerDeltaStateUpdateMessage
+} from '@shared/types';
+
+// A snapshot of the entity states sent to a client in one state update
+interface SnapshotRecord {
+  snapshotId: number;
+  entities: Map<string, EntityState>;
+  sentAt: number;
+}
+
+// Per-client snapshot history and acknowledgement tracking
+interface ClientSnapshotState {
+  nextSnapshotId: number;
+  history: Map<number, SnapshotRecord>;
+  ackedSnapshotId: number | null;
+}
+
+// Thresholds below which a field is considered unchanged
+export interface SnapshotSettings {
+  historySize: number; // Snapshots kept per client while waiting for acks
+  positionEpsilon: number;
+  velocityEpsilon: number;
+  rotationEpsilon: number;
+}
+
+// Snapshot manager for delta-compressed state replication
+export class SnapshotManager {
+  private clients: Map<string, ClientSnapshotState> = new Map();
+  private settings: SnapshotSettings;
+
+  constructor(
+    settings: SnapshotSettings = {
+      historySize: 32,
+      positionEpsilon: 0.01,
+      velocityEpsilon: 0.01,
+      rotationEpsilon: 0.0001
+    }
+  ) {
+    this.settings = settings;
+  }
+
+  // Build the state update for a client, as a delta against its last acked snapshot if possible.
+  // Deferred entities are still relevant but were left out of this update, so they are not
+  // reported as removed.
+  buildStateUpdate(
+    clientId: string,
+    entities: EntityState[],
+    areaOfInterestId: string,
+    serverTime: number,
+    deferredEntityIds: string[] = []
+  ): ServerStateUpdateMessage | ServerDeltaStateUpdateMessage {
+    const state = this.getClientState(clientId);
+    const snapshotId = state.nextSnapshotId;
+    state.nextSnapshotId = (state.nextSnapshotId % 0xFFFFFFFF) + 1; // 0 is reserved for "no baseline"
+
+    // Record what the client will know after applying this snapshot
+    const record: SnapshotRecord = {
+      snapshotId,
+      entities: new Map(entities.map(entity => [entity.entityId, entity])),
+      sentAt: serverTime
+    };
+    state.history.set(snapshotId, record);
+    this.pruneHistory(state);
+
+    const baseline = this.getBaseline(state, snapshotId);
+
+    // Without a usable baseline the client gets a full snapshot
+    if (!baseline) {
+      return {
+        messageType: MessageType.SERVER_STATE_UPDATE,
+        sequence: 0, // Will be set by UDP server
+        timestamp: serverTime,
+        clientId,
+        entities,
+        areaOfInterestId,
+        serverTime,
+        snapshotId
+      };
+    }
+
+    // The client keeps its baseline state for deferred entities
+    for (const entityId of deferredEntityIds) {
+      const known = baseline.entities.get(entityId);
+      if (known) {
+        record.entities.set(entityId, known);
+      }
+    }
+
+    const deltas: EntityDelta[] = [];
+    for (const entity of entities) {
+      const delta = this.diffEntity(baseline.entities.get(entity.entityId), entity);
+      if (delta) {
+        deltas.push(delta);
+      }
+    }
+
+    const removedEntityIds: string[] = [];
+    baseline.entities.forEach((_, entityId) => {
+      if (!record.entities.has(entityId)) {
+        removedEntityIds.push(entityId);
+      }
+    });
+
+    return {
+      messageType: MessageType.SERVER_DELTA_STATE_UPDATE,
+      sequence: 0, // Will be set by UDP server
+      timestamp: serverTime,
+      clientId,
+      snapshotId,
+      baselineSnapshotId: baseline.snapshotId,
+      entities: deltas,
+      removedEntityIds,
+      areaOfInterestId,
+      serverTime
+    };
+  }
+
+  // Record a snapshot acknowledgement from a client
+  acknowledge(clientId: string, snapshotId: number): boolean {
+    const state = this.clients.get(clientId);
+    if (!state || !state.history.has(snapshotId)) {
+      return false; // Unknown or already evicted snapshot
+    }
+
+    // Ignore acks that arrive out of order
+    if (state.ackedSnapshotId !== null && !this.isNewer(snapshotId, state.ackedSnapshotId)) {
+      return false;
+    }
+
+    state.ackedSnapshotId = snapshotId;
+
+    // Older snapshots can never become a baseline again
+    Array.from(state.history.keys()).forEach(id => {
+      if (this.isNewer(snapshotId, id)) {
+        state.history.delete(id);
+      }
+    });
+
+    return true;
+  }
+
+  // Force the next update for a client to be a full snapshot
+  resetClient(clientId: string): void {
+    const state = this.clients.get(clientId);
+    if (state) {
+      state.ackedSnapshotId = null;
+      state.history.clear();
+    }
+  }
+
+  // Forget a client entirely
+  removeClient(clientId: string): void {
+    this.clients.delete(clientId);
+  }
+
+  // Continue the snapshot numbering of a client replicated elsewhere until now, so acks for
+  // snapshots it got from there cannot match a different snapshot here
+  startClient(clientId: string, nextSnapshotId: number): void {
+    const state = this.getClientState(clientId);
+    state.nextSnapshotId = nextSnapshotId;
+    state.history.clear();
+    state.ackedSnapshotId = null;
+  }
+
+  // Get the last acknowledged snapshot ID for a client
+  getAckedSnapshotId(clientId: string): number | null {
+    return this.clients.get(clientId)?.ackedSnapshotId ?? null;
+  }
+
+  private getClientState(clientId: string): ClientSnapshotState {
+    let state = this.clients.get(clientId);
+    if (!state) {
+      state = {
+        nextSnapshotId: 1,
+        history: new Map(),
+        ackedSnapshotId: null
+      };
+      this.clients.set(clientId, state);
+    }
+    return state;
+  }
+
+  // Find the baseline for the next delta, falling back to none if acks are too far behind
+  private getBaseline(state: ClientSnapshotState, currentSnapshotId: number): SnapshotRecord | undefined {
+    if (state.ackedSnapshotId === null) {
+      return undefined;
+    }
+
+    const baseline = state.history.get(state.ackedSnapshotId);
+    const gap = (currentSnapshotId - state.ackedSnapshotId + 0xFFFFFFFF) % 0xFFFFFFFF;
+
+    if (!baseline || gap > this.settings.historySize) {
+      // Too many snapshots lost or unacknowledged, start over with a full snapshot
+      state.ackedSnapshotId = null;
+      return undefined;
+    }
+
+    return baseline;
+  }
+
+  // Drop the oldest snapshots beyond the history size, keeping the acked baseline
+  private pruneHistory(state: ClientSnapshotState): void {
+    if (state.history.size <= this.settings.historySize) {
+      return;
+    }
+
+    // Maps iterate in insertion order, so the oldest snapshots come first
+    const ids = Array.from(state.history.keys());
+    for (const id of ids) {
+      if (state.history.size <= this.settings.historySize) break;
+      if (id !== state.ackedSnapshotId) {
+        state.history.delete(id);
+      }
+    }
+  }
+
+  // Compare an entity against its baseline state, returning undefined if nothing changed
+  private diffEntity(baseline: EntityState | undefined, current: EntityState): EntityDelta | undefined {
+    if (!baseline) {
+      return {
+        entityId: current.entityId,
+        fieldMask: EntityDeltaField.ENTITY_TYPE | EntityDeltaField.POSITION |
+          EntityDeltaField.VELOCITY | EntityDeltaField.ROTATION,
+        entityType: current.entityType,
+        position: current.position,
+        velocity: current.velocity,
+        rotation: current.rotation
+      };
+    }
+
+    const delta: EntityDelta = { entityId: current.entityId, fieldMask: 0 };
+
+    if (current.position.distance(baseline.position) > this.settings.positionEpsilon) {
+      delta.fieldMask |= EntityDeltaField.POSITION;
+      delta.position = current.position;
+    }
+
+    if (current.velocity.distance(baseline.velocity) > this.settings.velocityEpsilon) {
+      delta.fieldMask |= EntityDeltaField.VELOCITY;
+      delta.velocity = current.velocity;
+    }
+
+    // Quaternions q and -q describe the same rotation
+    const dot = Math.abs(
+      current.rotation.x * baseline.rotation.x +
+      current.rotation.y * baseline.rotation.y +
+      current.rotation.z * baseline.rotation.z +
+      current.rotation.w * baseline.rotation.w
+    );
+    if (1 - dot > this.settings.rotationEpsilon) {
+      delta.fieldMask |= EntityDeltaField.ROTATION;
+      delta.rotation = current.rotation;
+    }
+
+    return delta.fieldMask !== 0 ? delta : undefined;
+  }
+
+  // Sequence comparison that tolerates wrap-around
+  private isNewer(a: number, b: number): boolean {
+    const diff = (a - b + 0xFFFFFFFF) % 0xFFFFFFFF;
+    return diff > 0 && diff < 0x7FFFFFFF;
+  }
+}
@@ -0,0 +1,213 @@
+import { Vector3, Quaternion } from '@shared/math';
+
+// Points p with normal · p + constant >= 0 are on the inner side of the plane
+export interface Plane {
+  normal: Vector3;
+  constant: number;
+}
+
+// Convex volume bounded by planes, with a bounding sphere used to pick the cells to search
+export interface Frustum {
+  planes: Plane[];
+  center: Vector3;
+  radius: number;
+}
+
+function planeThrough(normal: Vector3, point: Vector3): Plane {
+  const unit = normal.normalize();
+  return { normal: unit, constant: -unit.dot(point) };
+}
+
+// Plane through the camera containing a frustum edge direction and an axis, facing the view direction
+function sidePlane(position: Vector3, edge: Vector3, axis: Vector3, forward: Vector3): Plane {
+  const normal = edge.cross(axis);
+  return planeThrough(normal.dot(forward) < 0 ? normal.multiply(-1) : normal, position);
+}
+
+// View frustum of a camera at a position looking along its rotated forward axis.
+// The field of view is vertical, in radians.
+export function createViewFrustum(
+  position: Vector3,
+  rotation: Quaternion,
+  fieldOfView: number,
+  aspect: number,
+  near: number,
+  far: number
+): Frustum {
+  const forward = rotation.rotateVector(Vector3.forward()).normalize();
+  const up = rotation.rotateVector(Vector3.up()).normalize();
+  const right = forward.cross(up).normalize();
+
+  const halfHeight = Math.tan(fieldOfView / 2);
+  const halfWidth = halfHeight * aspect;
+
+  const farCenter = position.add(forward.multiply(far));
+  const planes: Plane[] = [
+    planeThrough(forward, position.add(forward.multiply(near))),
+    planeThrough(forward.multiply(-1), farCenter),
+    sidePlane(position, forward.add(right.multiply(halfWidth)), up, forward),
+    sidePlane(position, forward.subtract(right.multiply(halfWidth)), up, forward),
+    sidePlane(position, forward.add(up.multiply(halfHeight)), right, forward),
+    sidePlane(position, forward.subtract(up.multiply(halfHeight)), right, forward)
+  ];
+
+  // Sphere around the far corners and the camera
+  const center = position.add(forward.multiply(far / 2));
+  const farCorner = farCenter.add(right.multiply(far * halfWidth)).add(up.multiply(far * halfHeight));
+  const radius = Math.max(center.distance(farCorner), center.distance(position));
+
+  return { planes, center, radius };
+}
+
+export function frustumContains(frustum: Frustum, point: Vector3): boolean {
+  return frustum.planes.every(plane => plane.normal.dot(point) + plane.constant >= 0);
+}
+
+interface SpatialEntry<T> {
+  position: Vector3;
+  cellKey: string;
+  value: T;
+}
+
+// Uniform spatial hash of moving points. Each entry lives in the cell containing its position,
+// and only cells that hold entries are stored, so the world can be unbounded and sparse.
+// Queries visit the cells overlapping the query volume, or every occupied cell when that is fewer.
+export class SpatialHash<T> {
+  private cells: Map<string, Map<string, SpatialEntry<T>>> = new Map();
+  private entries: Map<string, SpatialEntry<T>> = new Map();
+
+  constructor(private cellSize: number = 1000) {}
+
+  // Insert an entry, or move it and replace its value
+  update(id: string, position: Vector3, value: T): void {
+    const cellKey = this.getCellKey(position);
+    const entry = this.entries.get(id);
+
+    if (entry && entry.cellKey === cellKey) {
+      entry.position = position;
+      entry.value = value;
+      return;
+    }
+
+    if (entry) {
+      this.removeFromCell(id, entry.cellKey);
+    }
+
+    const moved: SpatialEntry<T> = { position, cellKey, value };
+    this.entries.set(id, moved);
+
+    let cell = this.cells.get(cellKey);
+    if (!cell) {
+      cell = new Map();
+      this.cells.set(cellKey, cell);
+    }
+    cell.set(id, moved);
+  }
+
+  remove(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    this.entries.delete(id);
+    this.removeFromCell(id, entry.cellKey);
+    return true;
+  }
+
+  get(id: string): T | undefined {
+    return this.entries.get(id)?.value;
+  }
+
+  getPosition(id: string): Vector3 | undefined {
+    return this.entries.get(id)?.position;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // Values of all entries within a distance of a point
+  queryRadius(center: Vector3, radius: number): T[] {
+    const radiusSquared = radius * radius;
+    const results: T[] = [];
+
+    this.forEachCellNear(center, radius, cell => {
+      cell.forEach(entry => {
+        if (entry.position.sqrDistance(center) <= radiusSquared) {
+          results.push(entry.value);
+        }
+      });
+    });
+
+    return results;
+  }
+
+  // Values of all entries inside a frustum
+  queryFrustum(frustum: Frustum): T[] {
+    const radiusSquared = frustum.radius * frustum.radius;
+    const results: T[] = [];
+
+    this.forEachCellNear(frustum.center, frustum.radius, cell => {
+      cell.forEach(entry => {
+        if (entry.position.sqrDistance(frustum.center) <= radiusSquared && frustumContains(frustum, entry.position)) {
+          results.push(entry.value);
+        }
+      });
+    });
+
+    return results;
+  }
+
+  clear(): void {
+    this.cells.clear();
+    this.entries.clear();
+  }
+
+  private getCellKey(position: Vector3): string {
+    const x = Math.floor(position.x / this.cellSize);
+    const y = Math.floor(position.y / this.cellSize);
+    const z = Math.floor(position.z / this.cellSize);
+    return `${x},${y},${z}`;
+  }
+
+  private removeFromCell(id: string, cellKey: string): void {
+    const cell = this.cells.get(cellKey);
+    if (!cell) {
+      return;
+    }
+
+    cell.delete(id);
+    if (cell.size === 0) {
+      this.cells.delete(cellKey);
+    }
+  }
+
+  // Call back with every occupied cell that may hold points within a radius of a center
+  private forEachCellNear(center: Vector3, radius: number, callback: (cell: Map<string, SpatialEntry<T>>) => void): void {
+    const minX = Math.floor((center.x - radius) / this.cellSize);
+    const minY = Math.floor((center.y - radius) / this.cellSize);
+    const minZ = Math.floor((center.z - radius) / this.cellSize);
+    const maxX = Math.floor((center.x + radius) / this.cellSize);
+    const maxY = Math.floor((center.y + radius) / this.cellSize);
+    const maxZ = Math.floor((center.z + radius) / this.cellSize);
+
+    // Large queries over a sparse world are cheaper as a scan of the occupied cells
+    const cellsInRange = (maxX - minX + 1) * (maxY - minY + 1) * (maxZ - minZ + 1);
+    if (cellsInRange >= this.cells.size) {
+      this.cells.forEach(callback);
+      return;
+    }
+
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        for (let z = minZ; z <= maxZ; z++) {
+          const cell = this.cells.get(`${x},${y},${z}`);
+          if (cell) {
+            callback(cell);
+          }
+        }
+      }
+    }
+  }
+}
@@ -1,26 +1,51 @@
 import { Vector3, Quaternion } from '@shared/math';
-import { MessageType, EntityState, NPCState, ServerStateUpdateMessage } from '@shared/types';
+import { MessageType, EntityState, NPCState, ProtocolCapability, ClientInputMessage, DeliveryChannel, ServerSettings } from '@shared/types';
 import { UDPServer } from './udp';
-import { AOIManager, AOIEntity } from './aoi';
+import { AOIManager, AOIEntity, AreaTopologyChange, AreaMove, AreaTransition } from './aoi';
 import { Player } from '@shared/schema';
-import { NPCManager } from './npc';
+import { NPCManager, NPCDestruction } from './npc';
 import { storage } from './storage';
+import { SnapshotManager } from './snapshot';
+import { hasCapability } from './protocol';
+import { PriorityAccumulator, PriorityCandidate } from './priority';
+import { ReplicationScheduler } from './replication';
+import { InputProcessor, FrameShiftTracker } from './movement';
+import { StateHistory } from './history';
 
 // Game state manager
 export class GameStateManager {
   private udpServer: UDPServer;
   private aoiManager: AOIManager;
   private npcManager: NPCManager;
+  private snapshotManager: SnapshotManager = new SnapshotManager();
+  private priorityAccumulator: PriorityAccumulator = new PriorityAccumulator();
+  private replicationScheduler: ReplicationScheduler = new ReplicationScheduler();
+  private inputProcessor: InputProcessor = new InputProcessor();
+  private stateHistory: StateHistory = new StateHistory();
+  private frameShifts: FrameShiftTracker = new FrameShiftTracker();
+  private movementAuthority: ServerSettings['movementAuthority'] = 'client';
   
   // Maps to track entity state
   private playerStates: Map<string, Player> = new Map();
   private simulatedPlayers: Map<string, Player> = new Map();
+  private indexedNPCIds: Set<string> = new Set(); // NPC entity IDs known to the AOI system
   private lastUpdateTime: number = Date.now();
   
   constructor(udpServer: UDPServer, aoiManager: AOIManager, npcManager: NPCManager) {
     this.udpServer = udpServer;
     this.aoiManager = aoiManager;
     this.npcManager = npcManager;
+    
+    // A move between two areas emits both events, hand it off once
+    this.aoiManager.on('areaEnter', (transition: AreaTransition) => this.sendAreaHandoff(transition));
+    this.aoiManager.on('areaExit', (transition: AreaTransition) => {
+      if (!transition.toAreaId) {
+        this.sendAreaHandoff(transition);
+      }
+    });
+    
+    // The next AOI sync drops destroyed NPCs from snapshots, clients also get an explicit event
+    this.npcManager.on('npcDestroyed', (destruction: NPCDestruction) => this.broadcastNPCDestroyed(destruction));
   }
   
   // Initialize the game state
@@ -30,11 +55,11 @@ export class GameStateManager {
       const players = await storage.getConnectedPlayers();
       
       for (const player of players) {
-        this.playerStates.set(player.clientId, player);
-        
         // Register player in AOI system
         const position = new Vector3(player.positionX, player.positionY, player.positionZ);
         this.aoiManager.registerEntity(player.clientId, position, 'player');
+        
+        this.playerStates.set(player.clientId, player);
       }
       
       console.log(`Initialized game state with ${players.length} active players`);
@@ -45,12 +70,13 @@ export class GameStateManager {
   
   // Register a new player
   registerPlayer(player: Player): void {
-    this.playerStates.set(player.clientId, player);
-    
-    // Register in AOI system
+    // Register in AOI system. The player is tracked only afterwards, since its first area is
+    // sent with the area list once it is accepted rather than as a handoff.
     const position = new Vector3(player.positionX, player.positionY, player.positionZ);
     const areaId = this.aoiManager.registerEntity(player.clientId, position, 'player');
     
+    this.playerStates.set(player.clientId, player);
+    
     console.log(`Player ${player.clientId} registered in area ${areaId || 'none'}`);
   }
   
@@ -99,6 +125,22 @@ export class GameStateManager {
     }
   }
   
+  // Move a player by integrating a control input (server-authoritative movement)
+  applyPlayerInput(clientId: string, input: ClientInputMessage): void {
+    const player = this.playerStates.get(clientId);
+    if (!player) return;
+    
+    const next = this.inputProcessor.applyInput(clientId, {
+      position: new Vector3(player.positionX, player.positionY, player.positionZ),
+      velocity: new Vector3(player.velocityX, player.velocityY, player.velocityZ),
+      rotation: new Quaternion(player.rotationX, player.rotationY, player.rotationZ, player.rotationW)
+    }, input, Date.now());
+    
+    if (next) {
+      this.updatePlayerState(clientId, next.position, next.velocity, next.rotation);
+    }
+  }
+  
   // Remove a player
   removePlayer(clientId: string): void {
     // Remove from AOI system
@@ -107,33 +149,37 @@ export class GameStateManager {
     // Remove from state map
     this.playerStates.delete(clientId);
     
+    // Drop snapshot history so a reconnect starts from a full snapshot
+    this.snapshotManager.removeClient(clientId);
+    this.priorityAccumulator.removeClient(clientId);
+    this.replicationScheduler.removeClient(clientId);
+    this.inputProcessor.removeClient(clientId);
+    this.frameShifts.removeClient(clientId);
+    
     console.log(`Player ${clientId} removed from game state`);
   }
   
-  // Get all entities (players and NPCs) as generic entities for AOI
-  private getAllEntities(): AOIEntity[] {
-    const entities: AOIEntity[] = [];
+  // Prepare a player whose client resumed its session. The client may have lost updates,
+  // so replication starts again from a full snapshot.
+  resumePlayer(clientId: string): Player | undefined {
+    const player = this.playerStates.get(clientId);
+    if (!player) return undefined;
     
-    // Add players
-    for (const [clientId, player] of this.playerStates.entries()) {
-      entities.push({
-        id: clientId,
-        position: new Vector3(player.positionX, player.positionY, player.positionZ),
-        type: 'player'
-      });
-    }
+    this.snapshotManager.resetClient(clientId);
+    this.inputProcessor.removeClient(clientId);
     
-    // Add NPCs
-    for (const npc of this.npcManager.getAllNPCs()) {
-      const npcId = `npc-${npc.id}`;
-      entities.push({
-        id: npcId,
-        position: new Vector3(npc.positionX, npc.positionY, npc.positionZ),
-        type: 'npc'
-      });
-    }
+    return player;
+  }
+  
+  // Handle a snapshot acknowledgement so later updates can be sent as deltas
+  acknowledgeSnapshot(clientId: string, snapshotId: number): void {
+    if (!this.playerStates.has(clientId)) return;
     
-    return entities;
+    // Only clients that negotiated delta snapshots may receive them
+    const client = this.udpServer.getClientInfo(clientId);
+    if (!client || !hasCapability(client.protocol, ProtocolCapability.DELTA_SNAPSHOTS)) return;
+    
+    this.snapshotManager.acknowledge(clientId, snapshotId);
   }
   
   // Convert a player to an entity state
@@ -147,73 +193,187 @@ export class GameStateManager {
     };
   }
   
-  // Send state updates to all players
-  sendStateUpdates(): void {
+  // Advance NPC movement and behaviors
+  updateNPCs(): void {
     const now = Date.now();
     const deltaTime = (now - this.lastUpdateTime) / 1000; // Convert to seconds
     this.lastUpdateTime = now;
     
-    // Update NPC positions and behaviors
+    // NPCs pick fights with players their factions are hostile to
+    this.npcManager.setPlayerTargets(this.getAllPlayers().map(player => ({
+      entityId: player.clientId,
+      userId: player.userId,
+      position: new Vector3(player.positionX, player.positionY, player.positionZ),
+      velocity: new Vector3(player.velocityX, player.velocityY, player.velocityZ)
+    })));
     this.npcManager.update(deltaTime, now / 1000);
+    this.syncNPCEntities();
+  }
+  
+  // Mirror NPC positions into the AOI system, and remove NPCs that no longer exist
+  private syncNPCEntities(): void {
+    const npcIds: Set<string> = new Set();
     
-    // Get all entities for AOI checks
-    const allEntities = this.getAllEntities();
+    for (const npc of this.npcManager.getAllNPCs()) {
+      const npcId = `npc-${npc.id}`;
+      npcIds.add(npcId);
+      this.aoiManager.updateEntityPosition(npcId, new Vector3(npc.positionX, npc.positionY, npc.positionZ), 'npc');
+    }
+    
+    this.indexedNPCIds.forEach(npcId => {
+      if (!npcIds.has(npcId)) {
+        this.aoiManager.removeEntity(npcId, 'npc');
+      }
+    });
+    this.indexedNPCIds = npcIds;
+  }
+  
+  // Record every player and NPC for lag compensation, once per simulation tick
+  recordStateHistory(): void {
+    const states: EntityState[] = this.getAllPlayers().map(player => this.playerToEntityState(player));
+    
+    for (const npc of this.npcManager.getAllNPCs()) {
+      const npcState = this.npcManager.npcToState(npc);
+      states.push({
+        entityId: npcState.entityId,
+        entityType: 'npc',
+        position: npcState.position,
+        velocity: npcState.velocity,
+        rotation: npcState.rotation
+      });
+    }
+    
+    this.stateHistory.record(Date.now(), states);
+  }
+  
+  // The server time a client was seeing when it sent a message received at serverTime
+  getClientPerceivedTime(clientId: string, serverTime: number = Date.now()): number {
+    const stats = this.udpServer.getClientNetworkStats(clientId);
+    return this.stateHistory.getPerceivedTime(serverTime, stats?.rtt ?? 0);
+  }
+  
+  // The world as a client saw it, for validating interactions it reports
+  rewindForClient(clientId: string, serverTime: number = Date.now()): Map<string, EntityState> {
+    return this.stateHistory.rewind(this.getClientPerceivedTime(clientId, serverTime));
+  }
+  
+  // One entity's state as a client saw it
+  getEntityStateForClient(clientId: string, entityId: string, serverTime: number = Date.now()): EntityState | undefined {
+    return this.stateHistory.getEntityStateAt(entityId, this.getClientPerceivedTime(clientId, serverTime));
+  }
+  
+  // Send state updates to players in areas that are due for replication
+  sendStateUpdates(): void {
+    const now = Date.now();
+    
+    // Each area is replicated at its own frequency, lowered when the area is under load
+    this.aoiManager.refreshAreaLoads();
+    const dueAreaIds = new Set<string>();
+    for (const area of this.aoiManager.getAllAreas()) {
+      if (this.replicationScheduler.isAreaDue(area.id, area.updateFrequency, area.load, now)) {
+        dueAreaIds.add(area.id);
+      }
+    }
+    
+    if (dueAreaIds.size === 0) return;
     
     // Send updates to each player
     for (const [clientId, player] of this.playerStates.entries()) {
+      // Get the player's area
+      const playerArea = this.aoiManager.getEntityArea(clientId);
+      if (!playerArea || !dueAreaIds.has(playerArea.id)) continue;
+      
+      // Suspended clients keep their place in the world but get no updates until they resume
+      const client = this.udpServer.getClientInfo(clientId);
+      if (!client) continue;
+      
+      const observerPosition = new Vector3(player.positionX, player.positionY, player.positionZ);
+      const updateNumber = this.replicationScheduler.beginClientUpdate(clientId);
+      
       // Get relevant entities for this player
-      const relevantEntities = this.aoiManager.getRelevantEntities(clientId, allEntities);
+      const relevantEntities = this.aoiManager.getRelevantEntities(clientId);
       
       // Create entity states for each relevant entity
-      const entityStates: EntityState[] = [];
+      const candidates: PriorityCandidate[] = [];
+      
+      // Far entities skipped by LOD this update, still known to the client
+      const lodDeferred: string[] = [];
       
       for (const entity of relevantEntities) {
         // Skip the player itself (client already knows its own state)
         if (entity.id === clientId) continue;
         
+        const distance = entity.position.distance(observerPosition);
+        if (!this.replicationScheduler.isEntityDue(updateNumber, entity.id, distance, playerArea.radius)) {
+          lodDeferred.push(entity.id);
+          continue;
+        }
+        
         if (entity.type === 'player') {
           const otherPlayer = this.playerStates.get(entity.id);
           if (otherPlayer) {
-            entityStates.push(this.playerToEntityState(otherPlayer));
+            candidates.push({
+              state: this.playerToEntityState(otherPlayer),
+              targetsObserver: false
+            });
           }
         } else if (entity.type === 'npc') {
-          // NPCs have a prefix "npc-" in their ID
-          const npcId = parseInt(entity.id.replace('npc-', ''), 10);
-          const npc = this.npcManager.getAllNPCs().find(n => n.id === npcId);
+          const npc = this.npcManager.getNPCByEntityId(entity.id);
           
           if (npc) {
             const npcState = this.npcManager.npcToState(npc);
-            entityStates.push({
-              entityId: npcState.entityId,
-              entityType: 'npc',
-              position: npcState.position,
-              velocity: npcState.velocity,
-              rotation: npcState.rotation
+            candidates.push({
+              state: {
+                entityId: npcState.entityId,
+                entityType: 'npc',
+                position: npcState.position,
+                velocity: npcState.velocity,
+                rotation: npcState.rotation
+              },
+              targetsObserver: npc.targetId === clientId
             });
           }
         }
       }
       
-      // Get the player's area
-      const playerArea = this.aoiManager.getEntityArea(clientId);
+      // Fill the update's byte budget with the highest priority entities
+      const origin = client.serialization.quantized ? playerArea.center : undefined;
+      const serializer = this.udpServer.getSerializer();
+      const { selected, deferred } = this.priorityAccumulator.select(
+        clientId,
+        observerPosition,
+        candidates,
+        entity => serializer.serializeEntityState(entity, origin).length
+      );
       
-      // Prepare and send state update message
-      if (playerArea) {
-        const message: ServerStateUpdateMessage = {
-          messageType: MessageType.SERVER_STATE_UPDATE,
-          sequence: 0, // Will be set by UDP server
-          timestamp: now,
-          clientId,
-          entities: entityStates,
-          areaOfInterestId: playerArea.id,
-          serverTime: now
+      // Prepare and send state update message (full or delta against the last acked snapshot)
+      const message = this.snapshotManager.buildStateUpdate(
+        clientId,
+        selected,
+        playerArea.id,
+        now,
+        lodDeferred.concat(deferred)
+      );
+      message.origin = playerArea.center; // Reference point for quantized clients
+      
+      // Players moved by their inputs get their authoritative state back for reconciliation
+      const lastProcessedInputSequence = this.inputProcessor.getLastProcessedInput(clientId);
+      if (lastProcessedInputSequence !== undefined) {
+        message.reconciliation = {
+          lastProcessedInputSequence,
+          state: this.playerToEntityState(player)
         };
-        
-        this.udpServer.sendToClient(clientId, message);
       }
+      
+      this.udpServer.sendToClient(clientId, message);
     }
   }
   
+  // Current replication rate of an area in Hz, after load throttling
+  getAreaUpdateFrequency(areaId: string): number | undefined {
+    return this.replicationScheduler.getAreaFrequency(areaId);
+  }
+  
   // Send NPC updates to players
   sendNPCUpdates(): void {
     // For each player's area of interest, find relevant NPCs
@@ -224,10 +384,13 @@ export class GameStateManager {
       
       // Get all NPCs in or near this area
       const playerPos = new Vector3(player.positionX, player.positionY, player.positionZ);
-      const npcsInArea = this.npcManager.getNPCsNearPosition(playerPos, playerArea.radius);
-      
-      // Convert to NPC states
-      const npcStates: NPCState[] = npcsInArea.map(npc => this.npcManager.npcToState(npc));
+      const npcStates: NPCState[] = [];
+      for (const entity of this.aoiManager.getEntitiesInRadius(playerPos, playerArea.radius, 'npc')) {
+        const npc = this.npcManager.getNPCByEntityId(entity.id);
+        if (npc) {
+          npcStates.push(this.npcManager.npcToState(npc));
+        }
+      }
       
       // Send NPC update if there are any NPCs to report
       if (npcStates.length > 0) {
@@ -236,7 +399,8 @@ export class GameStateManager {
           sequence: 0, // Will be set by UDP server
           timestamp: Date.now(),
           clientId,
-          npcs: npcStates
+          npcs: npcStates,
+          origin: playerArea.center // Reference point for quantized clients
         };
         
         this.udpServer.sendToClient(clientId, message);
@@ -262,6 +426,204 @@ export class GameStateManager {
     }
   }
   
+  // Let the AOI manager adapt the areas to player load, and tell every player about the new
+  // areas if anything changed
+  rebalanceAreas(): AreaTopologyChange[] {
+    const changes = this.aoiManager.rebalance();
+    if (changes.length === 0) {
+      return changes;
+    }
+    
+    changes.forEach(change => {
+      console.log(`Area ${change.areaId} ${change.type}${change.relatedAreaIds.length > 0 ? ` (${change.relatedAreaIds.join(', ')})` : ''}`);
+      
+      // Merged and retired areas are gone
+      if (change.type === 'merged') {
+        change.relatedAreaIds.forEach(areaId => this.removeArea(areaId));
+      } else if (change.type === 'retired') {
+        this.removeArea(change.areaId);
+      }
+    });
+    
+    this.broadcastAreaOfInterestUpdate();
+    return changes;
+  }
+  
+  // Move players and NPCs along with areas that followed their celestial bodies. Players are told
+  // with SERVER_FRAME_SHIFT; players whose clients cannot apply it are only carried along when the
+  // server owns their movement, otherwise they stay where their client says they are.
+  moveEntitiesWithAreas(moves: AreaMove[]): void {
+    moves.forEach(move => {
+      move.entityIds.forEach(entityId => {
+        const player = this.playerStates.get(entityId);
+        const simulatedPlayer = this.simulatedPlayers.get(entityId);
+        
+        if (player) {
+          const position = new Vector3(player.positionX, player.positionY, player.positionZ);
+          const client = this.udpServer.getClientInfo(entityId); // Undefined while suspended
+          const followsFrame = !client || hasCapability(client.protocol, ProtocolCapability.FRAME_SHIFTS);
+          
+          if (!followsFrame && this.movementAuthority === 'client') {
+            this.aoiManager.updateEntityPosition(entityId, position, 'player');
+            return;
+          }
+          
+          this.updatePlayerState(
+            entityId,
+            position.add(move.offset),
+            new Vector3(player.velocityX, player.velocityY, player.velocityZ),
+            new Quaternion(player.rotationX, player.rotationY, player.rotationZ, player.rotationW)
+          );
+          
+          // A suspended client gets its shifted position when it resumes
+          if (client && followsFrame) {
+            this.sendFrameShift(entityId, move);
+          }
+        } else if (simulatedPlayer) {
+          simulatedPlayer.positionX += move.offset.x;
+          simulatedPlayer.positionY += move.offset.y;
+          simulatedPlayer.positionZ += move.offset.z;
+        } else {
+          this.npcManager.translateNPC(entityId, move.offset);
+        }
+      });
+    });
+  }
+  
+  // Move a position reported in CLIENT_STATE_UPDATE into the player's current frame, adding the
+  // frame shifts the client had not applied when it sent it
+  reconcileReportedPosition(clientId: string, position: Vector3, frameShiftSequence: number): Vector3 {
+    return this.frameShifts.reconcile(clientId, position, frameShiftSequence);
+  }
+  
+  // Forget frame shifts not yet confirmed by a client that is about to be sent its full state,
+  // returning the sequence of the last shift that state includes
+  resetFrameShifts(clientId: string): number {
+    return this.frameShifts.resetClient(clientId);
+  }
+  
+  private sendFrameShift(clientId: string, move: AreaMove): void {
+    const message = {
+      messageType: MessageType.SERVER_FRAME_SHIFT,
+      sequence: 0, // Will be set by UDP server
+      timestamp: Date.now(),
+      clientId,
+      areaId: move.areaId,
+      offset: move.offset,
+      shiftSequence: this.frameShifts.addShift(clientId, move.offset)
+    };
+    
+    this.udpServer.sendToClient(clientId, message, DeliveryChannel.RELIABLE_ORDERED);
+  }
+  
+  // Tell a player which entities to spawn and despawn after it changed area
+  private sendAreaHandoff(transition: AreaTransition): void {
+    const clientId = transition.entityId;
+    if (transition.type !== 'player' || !this.playerStates.has(clientId)) return;
+    if (!this.aoiManager.getEntityPosition(clientId)) return; // Removed rather than moved
+    
+    const previous = transition.fromAreaId ? this.aoiManager.getRelevantEntities(clientId, transition.fromAreaId) : [];
+    const current = this.aoiManager.getRelevantEntities(clientId);
+    const previousIds = new Set(previous.map(entity => entity.id));
+    const currentIds = new Set(current.map(entity => entity.id));
+    
+    const spawnedEntities: EntityState[] = [];
+    current.forEach(entity => {
+      if (entity.id === clientId || previousIds.has(entity.id)) return;
+      
+      const state = this.getEntityState(entity);
+      if (state) {
+        spawnedEntities.push(state);
+      }
+    });
+    
+    const despawnedEntityIds = previous
+      .filter(entity => entity.id !== clientId && !currentIds.has(entity.id))
+      .map(entity => entity.id);
+    
+    const message = {
+      messageType: MessageType.SERVER_AREA_HANDOFF,
+      sequence: 0, // Will be set by UDP server
+      timestamp: Date.now(),
+      clientId,
+      origin: this.aoiManager.getEntityArea(clientId)?.center, // Reference point for quantized clients
+      previousAreaId: transition.fromAreaId || '',
+      currentAreaId: transition.toAreaId || '',
+      spawnedEntities,
+      despawnedEntityIds
+    };
+    
+    this.udpServer.sendToClient(clientId, message, DeliveryChannel.RELIABLE_ORDERED);
+  }
+  
+  // Current state of a player or NPC known to the AOI system
+  getEntityState(entity: AOIEntity): EntityState | undefined {
+    if (entity.type === 'player') {
+      const player = this.playerStates.get(entity.id);
+      return player ? this.playerToEntityState(player) : undefined;
+    }
+    
+    const npc = this.npcManager.getNPCByEntityId(entity.id);
+    if (!npc) return undefined;
+    
+    const npcState = this.npcManager.npcToState(npc);
+    return {
+      entityId: npcState.entityId,
+      entityType: 'npc',
+      position: npcState.position,
+      velocity: npcState.velocity,
+      rotation: npcState.rotation
+    };
+  }
+  
+  // The entity an NPC known to the AOI system is targeting
+  getEntityTarget(entity: AOIEntity): string | undefined {
+    if (entity.type !== 'npc') return undefined;
+    
+    return this.npcManager.getNPCByEntityId(entity.id)?.targetId ?? undefined;
+  }
+  
+  // Forget the replication state of an area removed from the AOI manager
+  removeArea(areaId: string): void {
+    this.replicationScheduler.removeArea(areaId);
+  }
+  
+  // Send the current areas to all players, including players outside all areas
+  broadcastAreaOfInterestUpdate(): void {
+    const areas = this.aoiManager.getAllAreaStates();
+    
+    this.playerStates.forEach((_, clientId) => {
+      const message = {
+        messageType: MessageType.SERVER_AREA_OF_INTEREST_UPDATE,
+        sequence: 0, // Will be set by UDP server
+        timestamp: Date.now(),
+        clientId,
+        areas,
+        currentAreaId: this.aoiManager.getEntityArea(clientId)?.id || ''
+      };
+      
+      this.udpServer.sendToClient(clientId, message, DeliveryChannel.RELIABLE_ORDERED);
+    });
+  }
+  
+  // Tell all players that an NPC was destroyed
+  private broadcastNPCDestroyed(destruction: NPCDestruction): void {
+    this.playerStates.forEach((_, clientId) => {
+      const message = {
+        messageType: MessageType.SERVER_NPC_DESTROYED,
+        sequence: 0, // Will be set by UDP server
+        timestamp: Date.now(),
+        clientId,
+        entityId: destruction.entityId,
+        npcType: destruction.npc.type as NPCState['npcType'],
+        position: destruction.position,
+        destroyedById: destruction.destroyedById || ''
+      };
+      
+      this.udpServer.sendToClient(clientId, message, DeliveryChannel.RELIABLE_UNORDERED);
+    });
+  }
+  
   // Create simulated players for testing
   createSimulatedPlayers(count: number, areaId?: string): Player[] {
     const simulatedPlayers: Player[] = [];
@@ -600,6 +962,15 @@ export class GameStateManager {
     console.log(`Removed ${removedCount} simulated players`);
   }
   
+  // Set the entity bytes allowed in each client's state update
+  setStateUpdateBudget(budgetBytes: number): void {
+    this.priorityAccumulator.setBudget(budgetBytes);
+  }
+  
+  setMovementAuthority(authority: ServerSettings['movementAuthority']): void {
+    this.movementAuthority = authority;
+  }
+  
   // Get all players (both real and simulated)
   getAllPlayers(): Player[] {
     const realPlayers = Array.from(this.playerStates.values());
@@ -612,6 +983,11 @@ export class GameStateManager {
     return this.playerStates.size + this.simulatedPlayers.size;
   }
   
+  // Get a real player by client ID
+  getPlayer(clientId: string): Player | undefined {
+    return this.playerStates.get(clientId);
+  }
+  
   // Get only real players
   getRealPlayers(): Player[] {
     return Array.from(this.playerStates.values());
@@ -9,6 +9,8 @@ import {
   ServerStat, InsertServerStat,
   ServerSetting, InsertServerSetting,
   ShipTemplate, InsertShipTemplate,
+  Faction, InsertFaction,
+  Reputation, InsertReputation,
   SERVER_SETTINGS
 } from '@shared/schema';
 import { Vector3 } from '@shared/math';
@@ -34,6 +36,7 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, user: Partial<User>): Promise<User | undefined>;
   
   // Celestial Bodies
   getCelestialBody(id: number): Promise<CelestialBody | undefined>;
@@ -90,6 +93,16 @@ export interface IStorage {
   createShipTemplate(template: InsertShipTemplate): Promise<ShipTemplate>;
   updateShipTemplate(id: number, template: Partial<ShipTemplate>): Promise<ShipTemplate | undefined>;
   deleteShipTemplate(id: number): Promise<boolean>;
+  
+  // Factions
+  getAllFactions(): Promise<Faction[]>;
+  createFaction(faction: InsertFaction): Promise<Faction>;
+  updateFaction(id: number, faction: Partial<Faction>): Promise<Faction | undefined>;
+  
+  // Player reputations with factions
+  getAllReputations(): Promise<Reputation[]>;
+  createReputation(reputation: InsertReputation): Promise<Reputation>;
+  updateReputation(id: number, reputation: Partial<Reputation>): Promise<Reputation | undefined>;
 }
 
 // In-memory storage implementation
@@ -104,6 +117,8 @@ export class MemStorage implements IStorage {
   private serverStats: ServerStat[];
   private settings: Map<string, ServerSetting>;
   private shipTemplates: Map<number, ShipTemplate>;
+  private factions: Map<number, Faction>;
+  private reputations: Map<number, Reputation>;
   
   // ID counters
   private userId: number;
@@ -116,6 +131,8 @@ export class MemStorage implements IStorage {
   private serverStatId: number;
   private settingId: number;
   private shipTemplateId: number;
+  private factionId: number;
+  private reputationId: number;
 
   constructor() {
     this.users = new Map();
@@ -128,6 +145,8 @@ export class MemStorage implements IStorage {
     this.serverStats = [];
     this.settings = new Map();
     this.shipTemplates = new Map();
+    this.factions = new Map();
+    this.reputations = new Map();
     
     this.userId = 1;
     this.celestialBodyId = 1;
@@ -139,6 +158,8 @@ export class MemStorage implements IStorage {
     this.serverStatId = 1;
     this.settingId = 1;
     this.shipTemplateId = 1;
+    this.factionId = 1;
+    this.reputationId = 1;
   }
   
   // World persistence methods
@@ -181,6 +202,8 @@ export class MemStorage implements IStorage {
     this.userId = 1;
     this.playerId = 1;
     this.shipTemplateId = 1;
+    this.factionId = 1;
+    this.reputationId = 1;
     return true;
   }
   
@@ -264,11 +287,20 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, factionId: null };
     this.users.set(id, user);
     return user;
   }
   
+  async updateUser(id: number, user: Partial<User>): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
+    
+    const updated = { ...existing, ...user };
+    this.users.set(id, updated);
+    return updated;
+  }
+  
   // Celestial Body methods
   async getCelestialBody(id: number): Promise<CelestialBody | undefined> {
     return this.celestialBodies.get(id);
@@ -350,7 +382,7 @@ export class MemStorage implements IStorage {
   
   async createNpcFleet(fleet: InsertNpcFleet): Promise<NpcFleet> {
     const id = this.npcFleetId++;
-    const npcFleet: NpcFleet = { ...fleet, id };
+    const npcFleet: NpcFleet = { ...fleet, id, factionId: fleet.factionId ?? null };
     this.npcFleets.set(id, npcFleet);
     return npcFleet;
   }
@@ -529,6 +561,48 @@ export class MemStorage implements IStorage {
   async deleteShipTemplate(id: number): Promise<boolean> {
     return this.shipTemplates.delete(id);
   }
+  
+  // Faction methods
+  async getAllFactions(): Promise<Faction[]> {
+    return Array.from(this.factions.values());
+  }
+  
+  async createFaction(faction: InsertFaction): Promise<Faction> {
+    const id = this.factionId++;
+    const newFaction: Faction = { ...faction, id };
+    this.factions.set(id, newFaction);
+    return newFaction;
+  }
+  
+  async updateFaction(id: number, faction: Partial<Faction>): Promise<Faction | undefined> {
+    const existing = this.factions.get(id);
+    if (!existing) return undefined;
+    
+    const updated = { ...existing, ...faction };
+    this.factions.set(id, updated);
+    return updated;
+  }
+  
+  // Reputation methods
+  async getAllReputations(): Promise<Reputation[]> {
+    return Array.from(this.reputations.values());
+  }
+  
+  async createReputation(reputation: InsertReputation): Promise<Reputation> {
+    const id = this.reputationId++;
+    const newReputation: Reputation = { ...reputation, id };
+    this.reputations.set(id, newReputation);
+    return newReputation;
+  }
+  
+  async updateReputation(id: number, reputation: Partial<Reputation>): Promise<Reputation | undefined> {
+    const existing = this.reputations.get(id);
+    if (!existing) return undefined;
+    
+    const updated = { ...existing, ...reputation };
+    this.reputations.set(id, updated);
+    return updated;
+  }
 }
 
 
@@ -546,6 +620,8 @@ export class JsonStorage implements IStorage {
   private serverStats: ServerStat[];
   private settings: Map<string, ServerSetting>;
   private shipTemplates: Map<number, ShipTemplate>;
+  private factions: Map<number, Faction>;
+  private reputations: Map<number, Reputation>;
   
   // ID counters
   private userId: number;
@@ -558,9 +634,11 @@ export class JsonStorage implements IStorage {
   private serverStatId: number;
   private settingId: number;
   private shipTemplateId: number;
+  private factionId: number;
+  private reputationId: number;
   
-  constructor() {
-    this.dataDir = path.resolve('./data');
+  constructor(dataDir: string = './data') {
+    this.dataDir = path.resolve(dataDir);
     
     // Create data directory if it doesn't exist
     if (!fs.existsSync(this.dataDir)) {
@@ -579,6 +657,8 @@ export class JsonStorage implements IStorage {
     this.serverStats = [];
     this.settings = new Map();
     this.shipTemplates = new Map();
+    this.factions = new Map();
+    this.reputations = new Map();
     
     // Initialize ID counters
     this.userId = 1;
@@ -591,6 +671,8 @@ export class JsonStorage implements IStorage {
     this.serverStatId = 1;
     this.settingId = 1;
     this.shipTemplateId = 1;
+    this.factionId = 1;
+    this.reputationId = 1;
     
     // Load data from disk if it exists
     this.loadDataFromDisk();
@@ -722,6 +804,26 @@ export class JsonStorage implements IStorage {
       });
       log(`Loaded ${shipTemplates.length} ship templates from disk`, 'info');
     }
+    
+    // Load factions
+    const factions = this.loadDataFromFile<Faction[]>('factions');
+    if (factions) {
+      factions.forEach(faction => {
+        this.factions.set(faction.id, faction);
+        this.factionId = Math.max(this.factionId, faction.id + 1);
+      });
+      log(`Loaded ${factions.length} factions from disk`, 'info');
+    }
+    
+    // Load reputations
+    const reputations = this.loadDataFromFile<Reputation[]>('reputations');
+    if (reputations) {
+      reputations.forEach(reputation => {
+        this.reputations.set(reputation.id, reputation);
+        this.reputationId = Math.max(this.reputationId, reputation.id + 1);
+      });
+      log(`Loaded ${reputations.length} reputations from disk`, 'info');
+    }
   }
   
   async resetSequences(): Promise<boolean> {
@@ -768,6 +870,8 @@ export class JsonStorage implements IStorage {
       this.saveDataToDisk('serverStats', this.serverStats);
       this.saveDataToDisk('settings', Array.from(this.settings.values()));
       this.saveDataToDisk('shipTemplates', Array.from(this.shipTemplates.values()));
+      this.saveDataToDisk('factions', Array.from(this.factions.values()));
+      this.saveDataToDisk('reputations', Array.from(this.reputations.values()));
       
       log('World state saved successfully', 'info');
       return true;
@@ -830,12 +934,22 @@ export class JsonStorage implements IStorage {
   
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, factionId: null };
     this.users.set(id, user);
     this.saveDataToDisk('users', Array.from(this.users.values()));
     return user;
   }
   
+  async updateUser(id: number, user: Partial<User>): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
+    
+    const updated = { ...existing, ...user };
+    this.users.set(id, updated);
+    this.saveDataToDisk('users', Array.from(this.users.values()));
+    return updated;
+  }
+  
   // Celestial Body methods
   async getCelestialBody(id: number): Promise<CelestialBody | undefined> {
     return this.celestialBodies.get(id);
@@ -921,7 +1035,7 @@ export class JsonStorage implements IStorage {
   
   async createNpcFleet(fleet: InsertNpcFleet): Promise<NpcFleet> {
     const id = this.npcFleetId++;
-    const npcFleet: NpcFleet = { ...fleet, id };
+    const npcFleet: NpcFleet = { ...fleet, id, factionId: fleet.factionId ?? null };
     this.npcFleets.set(id, npcFleet);
     this.saveDataToDisk('npcFleets', Array.from(this.npcFleets.values()));
     return npcFleet;
@@ -1185,10 +1299,56 @@ export class JsonStorage implements IStorage {
     this.saveDataToDisk('shipTemplates', Array.from(this.shipTemplates.values()));
     return result;
   }
+  
+  // Faction methods
+  async getAllFactions(): Promise<Faction[]> {
+    return Array.from(this.factions.values());
+  }
+  
+  async createFaction(faction: InsertFaction): Promise<Faction> {
+    const id = this.factionId++;
+    const newFaction: Faction = { ...faction, id };
+    this.factions.set(id, newFaction);
+    this.saveDataToDisk('factions', Array.from(this.factions.values()));
+    return newFaction;
+  }
+  
+  async updateFaction(id: number, faction: Partial<Faction>): Promise<Faction | undefined> {
+    const existing = this.factions.get(id);
+    if (!existing) return undefined;
+    
+    const updated = { ...existing, ...faction };
+    this.factions.set(id, updated);
+    this.saveDataToDisk('factions', Array.from(this.factions.values()));
+    return updated;
+  }
+  
+  // Reputation methods
+  async getAllReputations(): Promise<Reputation[]> {
+    return Array.from(this.reputations.values());
+  }
+  
+  async createReputation(reputation: InsertReputation): Promise<Reputation> {
+    const id = this.reputationId++;
+    const newReputation: Reputation = { ...reputation, id };
+    this.reputations.set(id, newReputation);
+    this.saveDataToDisk('reputations', Array.from(this.reputations.values()));
+    return newReputation;
+  }
+  
+  async updateReputation(id: number, reputation: Partial<Reputation>): Promise<Reputation | undefined> {
+    const existing = this.reputations.get(id);
+    if (!existing) return undefined;
+    
+    const updated = { ...existing, ...reputation };
+    this.reputations.set(id, updated);
+    this.saveDataToDisk('reputations', Array.from(this.reputations.values()));
+    return updated;
+  }
 }
 
-// Create and export the storage instance
-const storage = new JsonStorage();
+// Create and export the storage instance, DATA_DIR points it at another data directory
+const storage = new JsonStorage(process.env.DATA_DIR);
 console.log('Using JSON file storage');
 
 export { storage, IStorage };
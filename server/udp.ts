@@ -1,561 +1,186 @@
 import dgram from 'dgram';
 import { randomUUID } from 'crypto';
-import { BinarySerializer, MessageType, MessageHeader } from '@shared/types';
+import { BinarySerializer, MessageType, MessageHeader, EntityState, EntityDelta, NPCState, CelestialBodyState, MissionState, MissionDelta, SerializationOptions, ProtocolCapability, DeliveryChannel, ClientNetworkStats, NetworkTotals, AddressBan, CaptureStatus } from '@shared/types';
+import { MESSAGE_SCHEMAS, ENTITY_STATE, ENTITY_DELTA, NPC_STATE, CELESTIAL_BODY_STATE, MISSION_STATE, MISSION_DELTA, CONNECT_COOKIE_LENGTH } from '@shared/messages';
+import { FieldList, vec3, quat, str } from '@shared/wire';
 import { Vector3, Quaternion } from '@shared/math';
 import { EventEmitter } from 'events';
+import { NegotiatedProtocol, defaultProtocol, hasCapability, supportsMessageType } from './protocol';
+import { verifyDatagram, normalizeAddress } from './auth';
+import { FloodGuard } from './flood';
+import { PacketCapture, CaptureRecordKind } from './capture';
+import { WireWriter, WireReader, writeFields, readFields, encodeValue, decodeValue } from './codec';
+import { FragmentReassembler, MAX_DATAGRAM_SIZE, MAX_FRAGMENT_COUNT, splitIntoChunks } from './fragment';
+import { ReceiveWindow, OrderedReceiveBuffer, RttEstimator, ACK_BITFIELD_SIZE, nextOrderSequence } from './channels';
 
-// Create a binary serializer for efficient network transport
-class BinarySerializerImpl implements BinarySerializer {
+const STRING = str();
+const DEFAULT_SERIALIZATION_OPTIONS: SerializationOptions = { quantized: false };
+
+// Latency probes sent to clients that negotiate SERVER_PINGS
+const SERVER_PING_INTERVAL = 1000;
+const SERVER_PING_TIMEOUT = 5000; // Unanswered pings count as lost after this
+const LOSS_SMOOTHING = 0.05;      // Weight of each delivery outcome in the loss estimate
+const MAX_SUSPENDED_RELIABLE = 256; // Reliable messages kept for a suspended client
+
+// Binary serializer for efficient network transport. Message bodies are encoded from the
+// layouts in shared/messages.ts; only the header is written here.
+export class BinarySerializerImpl implements BinarySerializer {
   serializeVector3(v: Vector3): Buffer {
-    const buffer = Buffer.alloc(12); // 3 floats * 4 bytes
-    buffer.writeFloatLE(v.x, 0);
-    buffer.writeFloatLE(v.y, 4);
-    buffer.writeFloatLE(v.z, 8);
-    return buffer;
+    return encodeValue(vec3, v);
   }
 
   deserializeVector3(buffer: Buffer, offset: number): { value: Vector3, bytesRead: number } {
-    const x = buffer.readFloatLE(offset);
-    const y = buffer.readFloatLE(offset + 4);
-    const z = buffer.readFloatLE(offset + 8);
-    return {
-      value: new Vector3(x, y, z),
-      bytesRead: 12
-    };
+    return decodeValue(vec3, buffer, offset);
   }
 
   serializeQuaternion(q: Quaternion): Buffer {
-    const buffer = Buffer.alloc(16); // 4 floats * 4 bytes
-    buffer.writeFloatLE(q.x, 0);
-    buffer.writeFloatLE(q.y, 4);
-    buffer.writeFloatLE(q.z, 8);
-    buffer.writeFloatLE(q.w, 12);
-    return buffer;
+    return encodeValue(quat, q);
   }
 
   deserializeQuaternion(buffer: Buffer, offset: number): { value: Quaternion, bytesRead: number } {
-    const x = buffer.readFloatLE(offset);
-    const y = buffer.readFloatLE(offset + 4);
-    const z = buffer.readFloatLE(offset + 8);
-    const w = buffer.readFloatLE(offset + 12);
-    return {
-      value: new Quaternion(x, y, z, w),
-      bytesRead: 16
-    };
+    return decodeValue(quat, buffer, offset);
   }
 
   serializeString(str: string): Buffer {
-    const strBuffer = Buffer.from(str, 'utf8');
-    const lengthBuffer = Buffer.alloc(2); // Use 2 bytes for string length (up to 65535)
-    lengthBuffer.writeUInt16LE(strBuffer.length, 0);
-    return Buffer.concat([lengthBuffer, strBuffer]);
+    return encodeValue(STRING, str);
   }
 
   deserializeString(buffer: Buffer, offset: number): { value: string, bytesRead: number } {
-    const length = buffer.readUInt16LE(offset);
-    const str = buffer.toString('utf8', offset + 2, offset + 2 + length);
-    return {
-      value: str,
-      bytesRead: 2 + length
-    };
+    return decodeValue(STRING, buffer, offset);
   }
 
   serializeMessageHeader(header: MessageHeader): Buffer {
-    // Message Type (1 byte) + Sequence Number (4 bytes) + Timestamp (8 bytes)
-    const buffer = Buffer.alloc(13);
-    buffer.writeUInt8(header.messageType, 0);
-    buffer.writeUInt32LE(header.sequence, 1);
-    buffer.writeBigUInt64LE(BigInt(header.timestamp), 5);
-    
-    // Client ID as a string
-    const clientIdBuffer = this.serializeString(header.clientId);
-    
-    return Buffer.concat([buffer, clientIdBuffer]);
+    const writer = new WireWriter(32);
+    this.writeMessageHeader(writer, header);
+    return writer.toBuffer();
   }
 
   deserializeMessageHeader(buffer: Buffer, offset: number = 0): { value: MessageHeader, bytesRead: number } {
-    const messageType = buffer.readUInt8(offset) as MessageType;
-    const sequence = buffer.readUInt32LE(offset + 1);
-    const timestamp = Number(buffer.readBigUInt64LE(offset + 5));
-    
-    const clientIdResult = this.deserializeString(buffer, offset + 13);
-    
-    return {
-      value: {
-        messageType,
-        sequence,
-        timestamp,
-        clientId: clientIdResult.value
-      },
-      bytesRead: 13 + clientIdResult.bytesRead
-    };
+    const reader = new WireReader(buffer, offset);
+    const value = this.readMessageHeader(reader);
+    return { value, bytesRead: reader.offset - offset };
   }
 
-  serializeEntityState(entity: any): Buffer {
-    const entityIdBuffer = this.serializeString(entity.entityId);
-    const entityTypeBuffer = this.serializeString(entity.entityType);
-    const positionBuffer = this.serializeVector3(entity.position);
-    const velocityBuffer = this.serializeVector3(entity.velocity);
-    const rotationBuffer = this.serializeQuaternion(entity.rotation);
-    
-    return Buffer.concat([
-      entityIdBuffer,
-      entityTypeBuffer,
-      positionBuffer,
-      velocityBuffer,
-      rotationBuffer
-    ]);
+  serializeEntityState(entity: EntityState, origin?: Vector3): Buffer {
+    return encodeValue(ENTITY_STATE, entity, origin);
   }
 
-  deserializeEntityState(buffer: Buffer, offset: number): { value: any, bytesRead: number } {
-    let currentOffset = offset;
-    let bytesRead = 0;
-    
-    const entityIdResult = this.deserializeString(buffer, currentOffset);
-    currentOffset += entityIdResult.bytesRead;
-    bytesRead += entityIdResult.bytesRead;
-    
-    const entityTypeResult = this.deserializeString(buffer, currentOffset);
-    currentOffset += entityTypeResult.bytesRead;
-    bytesRead += entityTypeResult.bytesRead;
-    
-    const positionResult = this.deserializeVector3(buffer, currentOffset);
-    currentOffset += positionResult.bytesRead;
-    bytesRead += positionResult.bytesRead;
-    
-    const velocityResult = this.deserializeVector3(buffer, currentOffset);
-    currentOffset += velocityResult.bytesRead;
-    bytesRead += velocityResult.bytesRead;
-    
-    const rotationResult = this.deserializeQuaternion(buffer, currentOffset);
-    bytesRead += rotationResult.bytesRead;
-    
-    return {
-      value: {
-        entityId: entityIdResult.value,
-        entityType: entityTypeResult.value,
-        position: positionResult.value,
-        velocity: velocityResult.value,
-        rotation: rotationResult.value
-      },
-      bytesRead
-    };
+  deserializeEntityState(buffer: Buffer, offset: number, origin?: Vector3): { value: EntityState, bytesRead: number } {
+    return decodeValue(ENTITY_STATE, buffer, offset, origin);
   }
 
-  serializeNPCState(npc: any): Buffer {
-    const entityIdBuffer = this.serializeString(npc.entityId);
-    const npcTypeBuffer = this.serializeString(npc.npcType);
-    const statusBuffer = this.serializeString(npc.status);
-    const positionBuffer = this.serializeVector3(npc.position);
-    const velocityBuffer = this.serializeVector3(npc.velocity);
-    const rotationBuffer = this.serializeQuaternion(npc.rotation);
-    
-    // Target ID (can be undefined)
-    const targetIdBuffer = this.serializeString(npc.targetId || '');
-    
-    // Add a flag to indicate if targetId exists
-    const flagBuffer = Buffer.alloc(1);
-    flagBuffer.writeUInt8(npc.targetId ? 1 : 0, 0);
-    
-    return Buffer.concat([
-      entityIdBuffer,
-      npcTypeBuffer,
-      statusBuffer,
-      positionBuffer,
-      velocityBuffer,
-      rotationBuffer,
-      flagBuffer,
-      targetIdBuffer
-    ]);
+  serializeEntityDelta(delta: EntityDelta, origin?: Vector3): Buffer {
+    return encodeValue(ENTITY_DELTA, delta, origin);
   }
 
-  deserializeNPCState(buffer: Buffer, offset: number): { value: any, bytesRead: number } {
-    let currentOffset = offset;
-    let bytesRead = 0;
-    
-    const entityIdResult = this.deserializeString(buffer, currentOffset);
-    currentOffset += entityIdResult.bytesRead;
-    bytesRead += entityIdResult.bytesRead;
-    
-    const npcTypeResult = this.deserializeString(buffer, currentOffset);
-    currentOffset += npcTypeResult.bytesRead;
-    bytesRead += npcTypeResult.bytesRead;
-    
-    const statusResult = this.deserializeString(buffer, currentOffset);
-    currentOffset += statusResult.bytesRead;
-    bytesRead += statusResult.bytesRead;
-    
-    const positionResult = this.deserializeVector3(buffer, currentOffset);
-    currentOffset += positionResult.bytesRead;
-    bytesRead += positionResult.bytesRead;
-    
-    const velocityResult = this.deserializeVector3(buffer, currentOffset);
-    currentOffset += velocityResult.bytesRead;
-    bytesRead += velocityResult.bytesRead;
-    
-    const rotationResult = this.deserializeQuaternion(buffer, currentOffset);
-    currentOffset += rotationResult.bytesRead;
-    bytesRead += rotationResult.bytesRead;
-    
-    const hasTargetId = buffer.readUInt8(currentOffset) === 1;
-    currentOffset += 1;
-    bytesRead += 1;
-    
-    const targetIdResult = this.deserializeString(buffer, currentOffset);
-    bytesRead += targetIdResult.bytesRead;
-    
-    return {
-      value: {
-        entityId: entityIdResult.value,
-        npcType: npcTypeResult.value,
-        status: statusResult.value,
-        position: positionResult.value,
-        velocity: velocityResult.value,
-        rotation: rotationResult.value,
-        targetId: hasTargetId ? targetIdResult.value : undefined
-      },
-      bytesRead
-    };
+  deserializeEntityDelta(buffer: Buffer, offset: number, origin?: Vector3): { value: EntityDelta, bytesRead: number } {
+    return decodeValue(ENTITY_DELTA, buffer, offset, origin);
   }
 
-  serializeCelestialBodyState(body: any): Buffer {
-    // ID (4 bytes) + Other scalar properties
-    const buffer = Buffer.alloc(24);
-    buffer.writeUInt32LE(body.id, 0);
-    buffer.writeFloatLE(body.radius, 4);
-    buffer.writeFloatLE(body.mass, 8);
-    buffer.writeFloatLE(body.orbitProgress, 12);
-    
-    // Reserved space (3 floats * 4 bytes = 12 bytes) for future use
-    buffer.writeFloatLE(0, 16);
-    buffer.writeFloatLE(0, 20);
-    
-    const nameBuffer = this.serializeString(body.name);
-    const typeBuffer = this.serializeString(body.type);
-    const colorBuffer = this.serializeString(body.color);
-    const positionBuffer = this.serializeVector3(body.position);
-    const velocityBuffer = this.serializeVector3(body.velocity);
-    
-    return Buffer.concat([
-      buffer,
-      nameBuffer,
-      typeBuffer,
-      colorBuffer,
-      positionBuffer,
-      velocityBuffer
-    ]);
+  serializeNPCState(npc: NPCState, origin?: Vector3): Buffer {
+    return encodeValue(NPC_STATE, npc, origin);
   }
 
-  deserializeCelestialBodyState(buffer: Buffer, offset: number): { value: any, bytesRead: number } {
-    let currentOffset = offset;
-    let bytesRead = 0;
-    
-    const id = buffer.readUInt32LE(currentOffset);
-    const radius = buffer.readFloatLE(currentOffset + 4);
-    const mass = buffer.readFloatLE(currentOffset + 8);
-    const orbitProgress = buffer.readFloatLE(currentOffset + 12);
-    currentOffset += 24; // Skip reserved space
-    bytesRead += 24;
-    
-    const nameResult = this.deserializeString(buffer, currentOffset);
-    currentOffset += nameResult.bytesRead;
-    bytesRead += nameResult.bytesRead;
-    
-    const typeResult = this.deserializeString(buffer, currentOffset);
-    currentOffset += typeResult.bytesRead;
-    bytesRead += typeResult.bytesRead;
+  deserializeNPCState(buffer: Buffer, offset: number, origin?: Vector3): { value: NPCState, bytesRead: number } {
+    return decodeValue(NPC_STATE, buffer, offset, origin);
+  }
+
+  serializeCelestialBodyState(body: CelestialBodyState): Buffer {
+    return encodeValue(CELESTIAL_BODY_STATE, body);
+  }
+
+  deserializeCelestialBodyState(buffer: Buffer, offset: number): { value: CelestialBodyState, bytesRead: number } {
+    return decodeValue(CELESTIAL_BODY_STATE, buffer, offset);
+  }
+
+  serializeMissionState(mission: MissionState): Buffer {
+    return encodeValue(MISSION_STATE, mission);
+  }
+
+  deserializeMissionState(buffer: Buffer, offset: number): { value: MissionState, bytesRead: number } {
+    return decodeValue(MISSION_STATE, buffer, offset);
+  }
+
+  serializeMissionDelta(delta: MissionDelta): Buffer {
+    return encodeValue(MISSION_DELTA, delta);
+  }
+
+  deserializeMissionDelta(buffer: Buffer, offset: number): { value: MissionDelta, bytesRead: number } {
+    return decodeValue(MISSION_DELTA, buffer, offset);
+  }
+
+  serializeMessage(message: any, options: SerializationOptions = DEFAULT_SERIALIZATION_OPTIONS): Buffer {
+    const writer = new WireWriter();
+    this.writeMessageHeader(writer, message);
     
-    const colorResult = this.deserializeString(buffer, currentOffset);
-    currentOffset += colorResult.bytesRead;
-    bytesRead += colorResult.bytesRead;
+    // Unknown message types are sent with an empty body
+    const schema: FieldList | undefined = (MESSAGE_SCHEMAS as Record<number, FieldList>)[message.messageType];
+    if (schema) {
+      writeFields(writer, schema, message, { quantized: options.quantized });
+    }
     
-    const positionResult = this.deserializeVector3(buffer, currentOffset);
-    currentOffset += positionResult.bytesRead;
-    bytesRead += positionResult.bytesRead;
+    return writer.toBuffer();
+  }
+
+  deserializeMessage(buffer: Buffer, options: SerializationOptions = DEFAULT_SERIALIZATION_OPTIONS): any {
+    const reader = new WireReader(buffer);
+    const header = this.readMessageHeader(reader);
     
-    const velocityResult = this.deserializeVector3(buffer, currentOffset);
-    bytesRead += velocityResult.bytesRead;
+    // Rejected rather than decoded as an empty body, so garbage never reaches the handlers
+    const schema: FieldList | undefined = (MESSAGE_SCHEMAS as Record<number, FieldList>)[header.messageType];
+    if (!schema) {
+      throw new RangeError(`Unknown message type ${header.messageType}`);
+    }
+    const body = readFields(reader, schema, { quantized: options.quantized });
     
     return {
-      value: {
-        id,
-        name: nameResult.value,
-        type: typeResult.value,
-        position: positionResult.value,
-        velocity: velocityResult.value,
-        radius,
-        mass,
-        orbitProgress,
-        color: colorResult.value
-      },
-      bytesRead
+      ...header,
+      ...body
     };
   }
 
-  serializeMessage(message: any): Buffer {
-    const header = message as MessageHeader;
-    const headerBuffer = this.serializeMessageHeader(header);
-    
-    let bodyBuffer: Buffer;
-    
-    switch (header.messageType) {
-      case MessageType.CLIENT_CONNECT:
-        bodyBuffer = Buffer.concat([
-          this.serializeString(message.username),
-          this.serializeString(message.version)
-        ]);
-        break;
-        
-      case MessageType.CLIENT_DISCONNECT:
-        bodyBuffer = this.serializeString(message.reason);
-        break;
-        
-      case MessageType.CLIENT_PING:
-      case MessageType.SERVER_PONG:
-        bodyBuffer = Buffer.alloc(4);
-        bodyBuffer.writeUInt32LE(message.pingId, 0);
-        break;
-        
-      case MessageType.CLIENT_STATE_UPDATE:
-        bodyBuffer = Buffer.concat([
-          this.serializeVector3(message.position),
-          this.serializeVector3(message.velocity),
-          this.serializeQuaternion(message.rotation),
-          Buffer.alloc(4).writeUInt32LE(message.inputSequence, 0) && Buffer.alloc(4)
-        ]);
-        break;
-        
-      case MessageType.SERVER_ACCEPT:
-        bodyBuffer = Buffer.concat([
-          this.serializeString(message.assignedClientId),
-          Buffer.alloc(8).writeBigUInt64LE(BigInt(message.serverTime), 0) && Buffer.alloc(8),
-          this.serializeVector3(message.initialPosition),
-          this.serializeVector3(message.initialVelocity),
-          this.serializeQuaternion(message.initialRotation)
-        ]);
-        break;
-        
-      case MessageType.SERVER_REJECT:
-        bodyBuffer = this.serializeString(message.reason);
-        break;
-        
-      case MessageType.SERVER_STATE_UPDATE:
-        const entitiesCountBuffer = Buffer.alloc(2);
-        entitiesCountBuffer.writeUInt16LE(message.entities.length, 0);
-        
-        const entityBuffers = message.entities.map((entity: any) => 
-          this.serializeEntityState(entity)
-        );
-        
-        bodyBuffer = Buffer.concat([
-          entitiesCountBuffer,
-          ...entityBuffers,
-          this.serializeString(message.areaOfInterestId),
-          Buffer.alloc(8).writeBigUInt64LE(BigInt(message.serverTime), 0) && Buffer.alloc(8)
-        ]);
-        break;
-        
-      case MessageType.SERVER_NPC_UPDATE:
-        const npcsCountBuffer = Buffer.alloc(2);
-        npcsCountBuffer.writeUInt16LE(message.npcs.length, 0);
-        
-        const npcBuffers = message.npcs.map((npc: any) => 
-          this.serializeNPCState(npc)
-        );
-        
-        bodyBuffer = Buffer.concat([
-          npcsCountBuffer,
-          ...npcBuffers
-        ]);
-        break;
-        
-      case MessageType.SERVER_CELESTIAL_UPDATE:
-        const bodiesCountBuffer = Buffer.alloc(2);
-        bodiesCountBuffer.writeUInt16LE(message.bodies.length, 0);
-        
-        const bodyBuffers = message.bodies.map((body: any) => 
-          this.serializeCelestialBodyState(body)
-        );
-        
-        const simulationTimeBuffer = Buffer.alloc(8);
-        simulationTimeBuffer.writeBigUInt64LE(BigInt(message.simulationTime), 0);
-        
-        bodyBuffer = Buffer.concat([
-          bodiesCountBuffer,
-          ...bodyBuffers,
-          simulationTimeBuffer
-        ]);
-        break;
-        
-      case MessageType.SERVER_RELIABLE_ACK:
-      case MessageType.CLIENT_RELIABLE_ACK:
-        bodyBuffer = Buffer.alloc(4);
-        bodyBuffer.writeUInt32LE(message.acknowledgedSequence, 0);
-        break;
-        
-      default:
-        bodyBuffer = Buffer.from([]);
-    }
+  private writeMessageHeader(writer: WireWriter, header: MessageHeader): void {
+    // Delivery channel occupies the top two bits of the type byte
+    writer.u8(header.messageType | ((header.channel || 0) << 6));
+    writer.u32(header.sequence >>> 0);
+    writer.u64(header.timestamp);
+    writer.string(header.clientId);
     
-    return Buffer.concat([headerBuffer, bodyBuffer]);
+    // Ordered messages carry their position on the ordered channel
+    if (header.channel === DeliveryChannel.RELIABLE_ORDERED) {
+      writer.u16(header.orderSequence || 0);
+    }
   }
 
-  deserializeMessage(buffer: Buffer): any {
-    const headerResult = this.deserializeMessageHeader(buffer);
-    const header = headerResult.value;
-    let currentOffset = headerResult.bytesRead;
+  private readMessageHeader(reader: WireReader): MessageHeader {
+    const typeByte = reader.u8();
+    if ((typeByte >> 6) > DeliveryChannel.RELIABLE_ORDERED) {
+      throw new RangeError(`Unknown delivery channel ${typeByte >> 6}`);
+    }
     
-    let body: any = {};
+    const header: MessageHeader = {
+      messageType: (typeByte & 0x3F) as MessageType,
+      channel: (typeByte >> 6) as DeliveryChannel,
+      sequence: reader.u32(),
+      timestamp: reader.u64(),
+      clientId: reader.string()
+    };
     
-    switch (header.messageType) {
-      case MessageType.CLIENT_CONNECT:
-        const usernameResult = this.deserializeString(buffer, currentOffset);
-        currentOffset += usernameResult.bytesRead;
-        
-        const versionResult = this.deserializeString(buffer, currentOffset);
-        
-        body = {
-          username: usernameResult.value,
-          version: versionResult.value
-        };
-        break;
-        
-      case MessageType.CLIENT_DISCONNECT:
-        const reasonResult = this.deserializeString(buffer, currentOffset);
-        body = {
-          reason: reasonResult.value
-        };
-        break;
-        
-      case MessageType.CLIENT_PING:
-      case MessageType.SERVER_PONG:
-        body = {
-          pingId: buffer.readUInt32LE(currentOffset)
-        };
-        break;
-        
-      case MessageType.CLIENT_STATE_UPDATE:
-        const positionResult = this.deserializeVector3(buffer, currentOffset);
-        currentOffset += positionResult.bytesRead;
-        
-        const velocityResult = this.deserializeVector3(buffer, currentOffset);
-        currentOffset += velocityResult.bytesRead;
-        
-        const rotationResult = this.deserializeQuaternion(buffer, currentOffset);
-        currentOffset += rotationResult.bytesRead;
-        
-        body = {
-          position: positionResult.value,
-          velocity: velocityResult.value,
-          rotation: rotationResult.value,
-          inputSequence: buffer.readUInt32LE(currentOffset)
-        };
-        break;
-        
-      case MessageType.SERVER_ACCEPT:
-        const assignedClientIdResult = this.deserializeString(buffer, currentOffset);
-        currentOffset += assignedClientIdResult.bytesRead;
-        
-        const serverTime = Number(buffer.readBigUInt64LE(currentOffset));
-        currentOffset += 8;
-        
-        const initialPositionResult = this.deserializeVector3(buffer, currentOffset);
-        currentOffset += initialPositionResult.bytesRead;
-        
-        const initialVelocityResult = this.deserializeVector3(buffer, currentOffset);
-        currentOffset += initialVelocityResult.bytesRead;
-        
-        const initialRotationResult = this.deserializeQuaternion(buffer, currentOffset);
-        
-        body = {
-          assignedClientId: assignedClientIdResult.value,
-          serverTime,
-          initialPosition: initialPositionResult.value,
-          initialVelocity: initialVelocityResult.value,
-          initialRotation: initialRotationResult.value
-        };
-        break;
-        
-      case MessageType.SERVER_REJECT:
-        const rejectReasonResult = this.deserializeString(buffer, currentOffset);
-        body = {
-          reason: rejectReasonResult.value
-        };
-        break;
-        
-      case MessageType.SERVER_STATE_UPDATE:
-        const entitiesCount = buffer.readUInt16LE(currentOffset);
-        currentOffset += 2;
-        
-        const entities = [];
-        for (let i = 0; i < entitiesCount; i++) {
-          const entityResult = this.deserializeEntityState(buffer, currentOffset);
-          entities.push(entityResult.value);
-          currentOffset += entityResult.bytesRead;
-        }
-        
-        const areaOfInterestIdResult = this.deserializeString(buffer, currentOffset);
-        currentOffset += areaOfInterestIdResult.bytesRead;
-        
-        const stateServerTime = Number(buffer.readBigUInt64LE(currentOffset));
-        
-        body = {
-          entities,
-          areaOfInterestId: areaOfInterestIdResult.value,
-          serverTime: stateServerTime
-        };
-        break;
-        
-      case MessageType.SERVER_NPC_UPDATE:
-        const npcsCount = buffer.readUInt16LE(currentOffset);
-        currentOffset += 2;
-        
-        const npcs = [];
-        for (let i = 0; i < npcsCount; i++) {
-          const npcResult = this.deserializeNPCState(buffer, currentOffset);
-          npcs.push(npcResult.value);
-          currentOffset += npcResult.bytesRead;
-        }
-        
-        body = {
-          npcs
-        };
-        break;
-        
-      case MessageType.SERVER_CELESTIAL_UPDATE:
-        const bodiesCount = buffer.readUInt16LE(currentOffset);
-        currentOffset += 2;
-        
-        const bodies = [];
-        for (let i = 0; i < bodiesCount; i++) {
-          const bodyResult = this.deserializeCelestialBodyState(buffer, currentOffset);
-          bodies.push(bodyResult.value);
-          currentOffset += bodyResult.bytesRead;
-        }
-        
-        const simulationTime = Number(buffer.readBigUInt64LE(currentOffset));
-        
-        body = {
-          bodies,
-          simulationTime
-        };
-        break;
-        
-      case MessageType.SERVER_RELIABLE_ACK:
-      case MessageType.CLIENT_RELIABLE_ACK:
-        body = {
-          acknowledgedSequence: buffer.readUInt32LE(currentOffset)
-        };
-        break;
+    if (header.channel === DeliveryChannel.RELIABLE_ORDERED) {
+      header.orderSequence = reader.u16();
     }
     
-    return {
-      ...header,
-      ...body
-    };
+    return header;
   }
 }
 
+// A stream transport connection (e.g. WebSocket) that carries whole serialized messages.
+// Delivery is reliable and in order, so messages sent over it are never fragmented or resent.
+export interface ClientConnection {
+  send(data: Buffer): void;
+  close(reason: string): void;
+}
+
 // Client management information
 export interface ClientInfo {
   clientId: string;
@@ -566,13 +191,56 @@ export interface ClientInfo {
   sequenceOut: number;
   reliableMessages: Map<number, { message: Buffer, sendTime: number, attempts: number }>;
   username?: string;
+  protocol: NegotiatedProtocol;
+  serialization: SerializationOptions;
+  userId?: number;
+  sessionKey?: Buffer; // Set once authenticated, every later datagram must carry a valid MAC
+  sessionId?: string;  // Session the client authenticated with, used to resume it after a drop
+  orderSequenceOut: number;
+  receiveWindow: ReceiveWindow;                // Inbound reliable sequences, for acks and deduplication
+  orderedReceive: OrderedReceiveBuffer<any>;   // Inbound ordered messages waiting for earlier ones
+  rtt: RttEstimator;
+  connectedAt: number;
+  bytesIn: number;
+  bytesOut: number;
+  packetsIn: number;
+  packetsOut: number;
+  resends: number;
+  packetLoss: number;                  // Smoothed loss estimate from resends and unanswered pings
+  nextPingId: number;
+  pendingPings: Map<number, number>;   // Ping ID to send time
+  connection?: ClientConnection;       // Set for clients that connected over a stream transport
+}
+
+// A client that lost contact and may resume its session within the grace period
+interface SuspendedClient {
+  client: ClientInfo;
+  reason: string;
+  suspendedAt: number;
+}
+
+// Server-wide traffic counters, kept across client disconnects
+interface TrafficCounters {
+  bytesIn: number;
+  bytesOut: number;
+  packetsIn: number;
+  packetsOut: number;
+  resends: number;
 }
 
 export class UDPServer extends EventEmitter {
   private server: dgram.Socket;
   private clients: Map<string, ClientInfo> = new Map();
   private serializer: BinarySerializer;
-  private nextSequence: number = 0;
+  private nextFragmentGroupId: number = 0;
+  private reassembler: FragmentReassembler = new FragmentReassembler();
+  private traffic: TrafficCounters = { bytesIn: 0, bytesOut: 0, packetsIn: 0, packetsOut: 0, resends: 0 };
+  private floodGuard: FloodGuard = new FloodGuard();
+  private suspended: Map<string, SuspendedClient> = new Map();
+  private reconnectGracePeriod: number = 60000;
+  private capture: PacketCapture | null = null;
+  private outputSuppressed: boolean = false;
+  private createClientId: () => string = randomUUID;
   
   constructor(private port: number) {
     super();
@@ -589,53 +257,7 @@ export class UDPServer extends EventEmitter {
     });
     
     this.server.on('message', (msg, rinfo) => {
-      try {
-        const message = this.serializer.deserializeMessage(msg);
-        
-        // Handle ping messages immediately
-        if (message.messageType === MessageType.CLIENT_PING) {
-          this.handlePing(message, rinfo);
-          return;
-        }
-        
-        // Update client activity time
-        const clientId = message.clientId;
-        if (clientId && this.clients.has(clientId)) {
-          const client = this.clients.get(clientId)!;
-          client.lastActivity = Date.now();
-          
-          // Handle incoming reliable message acknowledgements
-          if (message.messageType === MessageType.CLIENT_RELIABLE_ACK) {
-            this.handleReliableAck(clientId, message.acknowledgedSequence);
-            return;
-          }
-          
-          // Process message normally
-          this.emit('message', message, rinfo);
-        } else if (message.messageType === MessageType.CLIENT_CONNECT) {
-          // New client connection request
-          const newClientId = randomUUID();
-          this.clients.set(newClientId, {
-            clientId: newClientId,
-            address: rinfo.address,
-            port: rinfo.port,
-            lastActivity: Date.now(),
-            sequenceIn: 0,
-            sequenceOut: 0,
-            reliableMessages: new Map(),
-            username: message.username
-          });
-          
-          // Emit client connect event with the new ID
-          message.assignedClientId = newClientId;
-          this.emit('connect', message, rinfo);
-        } else {
-          // Unknown client, reject
-          console.warn(`Received message from unknown client: ${rinfo.address}:${rinfo.port}`);
-        }
-      } catch (error) {
-        console.error('Error processing message:', error);
-      }
+      this.handleDatagram(msg, rinfo);
     });
     
     this.server.on('listening', () => {
@@ -650,8 +272,252 @@ export class UDPServer extends EventEmitter {
     // Start cleanup timer
     setInterval(() => this.cleanupInactiveClients(), 10000);
     
-    // Start reliable message resend timer
-    setInterval(() => this.resendReliableMessages(), 1000);
+    // Drop fragmented messages that never completed
+    setInterval(() => this.reassembler.removeExpired(), 1000);
+    
+    // Start reliable message resend timer (timeouts are per client, based on RTT)
+    setInterval(() => this.resendReliableMessages(), 100);
+    
+    // Probe latency of clients that answer server pings
+    setInterval(() => this.sendPings(), SERVER_PING_INTERVAL);
+    
+    // Forget expired bans and idle rate limits
+    setInterval(() => this.floodGuard.removeExpired(), 10000);
+  }
+  
+  // Process one serialized message, from the UDP socket or a stream transport connection
+  handleDatagram(msg: Buffer, rinfo: dgram.RemoteInfo, connection?: ClientConnection): void {
+    try {
+      if (this.capture) {
+        this.captureRecord('received', rinfo.address, rinfo.port, this.peekClientId(msg), connection, msg);
+      }
+      
+      // Banned addresses are dropped before any parsing
+      if (this.floodGuard.isBanned(rinfo.address)) {
+        return;
+      }
+      
+      let message: any;
+      try {
+        const payload = this.authenticateDatagram(msg, rinfo, connection);
+        if (!payload) {
+          return;
+        }
+        
+        message = this.serializer.deserializeMessage(payload);
+      } catch (error) {
+        this.rejectMalformed(error, rinfo);
+        return;
+      }
+      
+      // Count inbound traffic, including datagrams from clients that are not connected yet
+      this.traffic.bytesIn += msg.length;
+      this.traffic.packetsIn++;
+      const sender = message.clientId ? this.clients.get(message.clientId) : undefined;
+      if (sender) {
+        sender.bytesIn += msg.length;
+        sender.packetsIn++;
+        
+        // Packets beyond the client's rate limit are dropped, and a sustained flood gets it banned
+        const verdict = this.floodGuard.checkPacket(sender.clientId);
+        if (verdict === 'ban') {
+          this.banAddress(rinfo.address, 'packet_flood');
+        }
+        if (verdict !== 'allow') {
+          return;
+        }
+      }
+      
+      // Handle ping messages immediately
+      if (message.messageType === MessageType.CLIENT_PING) {
+        this.handlePing(message, rinfo, connection);
+        return;
+      }
+      
+      // Update client activity time
+      const clientId = message.clientId;
+      if (clientId && this.clients.has(clientId)) {
+        const client = this.clients.get(clientId)!;
+        client.lastActivity = Date.now();
+        
+        // Answers to our latency probes
+        if (message.messageType === MessageType.CLIENT_PONG) {
+          this.handlePong(client, message.pingId);
+          return;
+        }
+        
+        // Handle incoming reliable message acknowledgements
+        if (message.messageType === MessageType.CLIENT_RELIABLE_ACK) {
+          this.handleReliableAck(client, message.acknowledgedSequence, message.ackBitfield);
+          return;
+        }
+        
+        // Acknowledge reliable messages and drop resent duplicates
+        if (message.channel === DeliveryChannel.RELIABLE_UNORDERED ||
+            message.channel === DeliveryChannel.RELIABLE_ORDERED) {
+          const isNew = client.receiveWindow.record(message.sequence);
+          this.sendReliableAck(client);
+          if (!isNew) {
+            return;
+          }
+        }
+        
+        // Buffer fragments until the whole message has arrived
+        if (message.messageType === MessageType.FRAGMENT) {
+          this.handleFragment(client, message, rinfo);
+          return;
+        }
+        
+        // Process message normally
+        this.deliverMessage(client, message, rinfo);
+      } else if (message.messageType === MessageType.CLIENT_CONNECT) {
+        if (!this.admitConnect(message, msg.length, rinfo, connection)) {
+          return;
+        }
+        
+        // New client connection request
+        const newClientId = this.createClientId();
+        if (this.capture) {
+          this.captureRecord('assigned', rinfo.address, rinfo.port, newClientId, connection);
+        }
+        this.clients.set(newClientId, {
+          clientId: newClientId,
+          address: rinfo.address,
+          port: rinfo.port,
+          lastActivity: Date.now(),
+          sequenceIn: 0,
+          sequenceOut: 0,
+          reliableMessages: new Map(),
+          username: message.username,
+          protocol: defaultProtocol(),
+          serialization: { ...DEFAULT_SERIALIZATION_OPTIONS },
+          orderSequenceOut: 0,
+          receiveWindow: new ReceiveWindow(),
+          orderedReceive: new OrderedReceiveBuffer(),
+          rtt: new RttEstimator(),
+          connectedAt: Date.now(),
+          bytesIn: msg.length,
+          bytesOut: 0,
+          packetsIn: 1,
+          packetsOut: 0,
+          resends: 0,
+          packetLoss: 0,
+          nextPingId: 0,
+          pendingPings: new Map(),
+          connection
+        });
+        
+        // Emit client connect event with the new ID
+        message.assignedClientId = newClientId;
+        this.emit('connect', message, rinfo);
+      } else if (this.floodGuard.shouldWarn(rinfo.address)) {
+        // Unknown client, reject
+        console.warn(`Received message from unknown client: ${rinfo.address}:${rinfo.port}`);
+      }
+    } catch (error) {
+      console.error('Error processing message:', error);
+    }
+  }
+  
+  // Apply connect rate limits, and while connects are being challenged require a cookie
+  // proving the sender owns its source address. No client state is allocated before this passes.
+  private admitConnect(message: any, size: number, rinfo: dgram.RemoteInfo, connection?: ClientConnection): boolean {
+    const challengeActive = this.floodGuard.recordConnectAttempt();
+    
+    // Stream connections have completed a TCP handshake, so their address is already proven
+    if (!connection && challengeActive &&
+        !this.floodGuard.verifyCookie(rinfo.address, rinfo.port, message.connectCookie)) {
+      this.sendConnectChallenge(size, rinfo);
+      return false;
+    }
+    
+    const verdict = this.floodGuard.checkConnect(rinfo.address);
+    if (verdict === 'ban') {
+      this.banAddress(rinfo.address, 'connect_flood');
+      return false;
+    }
+    
+    if (verdict === 'drop') {
+      if (this.floodGuard.shouldWarn(rinfo.address)) {
+        console.warn(`Connect rate limit exceeded by ${rinfo.address}:${rinfo.port}`);
+      }
+      return false;
+    }
+    
+    return true;
+  }
+  
+  private sendConnectChallenge(requestSize: number, rinfo: dgram.RemoteInfo): void {
+    const challenge = this.serializer.serializeMessage({
+      messageType: MessageType.SERVER_CONNECT_CHALLENGE,
+      sequence: 0,
+      timestamp: Date.now(),
+      clientId: '',
+      cookie: this.floodGuard.createCookie(rinfo.address, rinfo.port)
+    });
+    
+    // Never answer with more bytes than were received, so the challenge cannot amplify a flood
+    if (challenge.length > requestSize) {
+      return;
+    }
+    
+    this.sendDatagram(challenge, rinfo.port, rinfo.address);
+  }
+  
+  // Verify the MAC trailer and source address of datagrams from authenticated clients.
+  // Returns the datagram without its trailer, or null if it must be dropped.
+  private authenticateDatagram(msg: Buffer, rinfo: dgram.RemoteInfo, connection?: ClientConnection): Buffer | null {
+    const header = this.serializer.deserializeMessageHeader(msg, 0).value;
+    const client = this.clients.get(header.clientId);
+    
+    if (!client) {
+      return msg;
+    }
+    
+    // Stream clients are bound to the connection they joined on, which cannot be spoofed,
+    // so their messages carry no MAC
+    if (client.connection || connection) {
+      if (client.connection !== connection) {
+        return this.rejectDatagram(rinfo, `Dropped message for client ${client.clientId} from another transport at ${rinfo.address}:${rinfo.port}`);
+      }
+      return msg;
+    }
+    
+    if (!client.sessionKey) {
+      return msg;
+    }
+    
+    if (rinfo.address !== client.address) {
+      return this.rejectDatagram(rinfo, `Dropped datagram for client ${client.clientId} from unexpected address ${rinfo.address}:${rinfo.port}`);
+    }
+    
+    const payload = verifyDatagram(client.sessionKey, msg);
+    if (!payload) {
+      return this.rejectDatagram(rinfo, `Dropped datagram with invalid signature for client ${client.clientId} from ${rinfo.address}:${rinfo.port}`);
+    }
+    
+    return payload;
+  }
+  
+  // Count a datagram that failed authentication against its source address, banning addresses
+  // that keep sending them. The warning is rate limited per address like other flood warnings.
+  private rejectDatagram(rinfo: dgram.RemoteInfo, warning: string): null {
+    const verdict = this.floodGuard.checkRejected(rinfo.address);
+    if (verdict === 'ban') {
+      this.banAddress(rinfo.address, 'invalid_datagrams');
+    } else if (this.floodGuard.shouldWarn(rinfo.address)) {
+      console.warn(warning);
+    }
+    return null;
+  }
+  
+  // The decoders throw RangeError for truncated or invalid input, which any sender can produce,
+  // so those count as rejected datagrams. Anything else is a bug and is passed on.
+  private rejectMalformed(error: unknown, rinfo: dgram.RemoteInfo): void {
+    if (!(error instanceof RangeError)) {
+      throw error;
+    }
+    this.rejectDatagram(rinfo, `Dropped malformed datagram from ${rinfo.address}:${rinfo.port}: ${error.message}`);
   }
   
   private cleanupInactiveClients(): void {
@@ -661,123 +527,357 @@ export class UDPServer extends EventEmitter {
     for (const [clientId, client] of this.clients.entries()) {
       if (now - client.lastActivity > timeoutThreshold) {
         console.log(`Client ${clientId} timed out`);
-        this.emit('disconnect', { clientId, reason: 'timeout' });
-        this.clients.delete(clientId);
+        this.dropClient(clientId, 'timeout');
       }
     }
+    
+    // Suspended sessions that were not resumed in time are gone for good
+    this.suspended.forEach((entry, clientId) => {
+      if (now - entry.suspendedAt > this.reconnectGracePeriod) {
+        console.log(`Suspended client ${clientId} did not reconnect`);
+        this.suspended.delete(clientId);
+        this.emit('disconnect', { clientId, reason: entry.reason });
+      }
+    });
   }
   
   private resendReliableMessages(): void {
     const now = Date.now();
-    const resendInterval = 1000; // 1 second
-    const maxAttempts = 5;
+    const maxAttempts = 10;
     
     for (const [clientId, client] of this.clients.entries()) {
       for (const [sequence, data] of client.reliableMessages.entries()) {
-        if (now - data.sendTime > resendInterval) {
+        if (now - data.sendTime > client.rtt.getTimeout(data.attempts)) {
           if (data.attempts >= maxAttempts) {
             // Too many attempts, consider client disconnected
             console.log(`Client ${clientId} failed to acknowledge message after ${maxAttempts} attempts`);
-            this.emit('disconnect', { clientId, reason: 'failed_ack' });
-            this.clients.delete(clientId);
+            this.dropClient(clientId, 'failed_ack');
             break;
           }
           
           // Resend the message
           console.log(`Resending message ${sequence} to client ${clientId}`);
-          this.server.send(
-            data.message,
-            0,
-            data.message.length,
-            client.port,
-            client.address
-          );
+          this.sendDatagram(data.message, client.port, client.address, client);
           
           // Update send time and attempts
           data.sendTime = now;
           data.attempts++;
+          
+          // A resend means the datagram or its ack was lost
+          client.resends++;
+          this.traffic.resends++;
+          this.recordDeliveryOutcome(client, true);
         }
       }
     }
   }
   
-  private handlePing(message: any, rinfo: dgram.RemoteInfo): void {
+  private handlePing(message: any, rinfo: dgram.RemoteInfo, connection?: ClientConnection): void {
+    const client = this.clients.get(message.clientId);
+    
     // Respond immediately with a pong
     const pong = {
       messageType: MessageType.SERVER_PONG,
-      sequence: this.getNextSequence(),
+      sequence: client ? this.getNextSequence(client) : 0,
       timestamp: Date.now(),
       clientId: message.clientId,
       pingId: message.pingId
     };
     
     const buffer = this.serializer.serializeMessage(pong);
-    this.server.send(buffer, 0, buffer.length, rinfo.port, rinfo.address);
+    this.sendDatagram(buffer, rinfo.port, rinfo.address, client, connection);
   }
   
-  private handleReliableAck(clientId: string, acknowledgedSequence: number): void {
-    const client = this.clients.get(clientId);
+  // Send a latency probe to every client that negotiated SERVER_PINGS
+  private sendPings(): void {
+    const now = Date.now();
+    
+    for (const client of Array.from(this.clients.values())) {
+      if (!hasCapability(client.protocol, ProtocolCapability.SERVER_PINGS)) {
+        continue;
+      }
+      
+      // Pings that were never answered count as lost
+      client.pendingPings.forEach((sendTime, pingId) => {
+        if (now - sendTime > SERVER_PING_TIMEOUT) {
+          client.pendingPings.delete(pingId);
+          this.recordDeliveryOutcome(client, true);
+        }
+      });
+      
+      const pingId = client.nextPingId;
+      client.nextPingId = (client.nextPingId + 1) >>> 0;
+      client.pendingPings.set(pingId, now);
+      
+      this.sendToClient(client.clientId, {
+        messageType: MessageType.SERVER_PING,
+        clientId: client.clientId,
+        pingId
+      });
+    }
+  }
+  
+  private handlePong(client: ClientInfo, pingId: number): void {
+    const sendTime = client.pendingPings.get(pingId);
+    if (sendTime === undefined) {
+      return; // Unknown or already expired
+    }
+    
+    client.pendingPings.delete(pingId);
+    client.rtt.addSample(Date.now() - sendTime);
+    this.recordDeliveryOutcome(client, false);
+  }
+  
+  // Fold one delivered or lost datagram into the client's loss estimate
+  private recordDeliveryOutcome(client: ClientInfo, lost: boolean): void {
+    client.packetLoss = (1 - LOSS_SMOOTHING) * client.packetLoss + (lost ? LOSS_SMOOTHING : 0);
+  }
+  
+  // Send a datagram, or a message over the client's stream connection, and count it towards
+  // the traffic statistics
+  private sendDatagram(
+    buffer: Buffer,
+    port: number,
+    address: string,
+    client?: ClientInfo,
+    connection: ClientConnection | undefined = client?.connection
+  ): void {
+    if (this.capture) {
+      this.captureRecord('sent', address, port, client?.clientId || '', connection, buffer);
+    }
+    
+    // Suppressed output is still counted, so a replayed server reports the traffic it would have sent
+    if (!this.outputSuppressed) {
+      if (connection) {
+        connection.send(buffer);
+      } else {
+        this.server.send(buffer, 0, buffer.length, port, address);
+      }
+    }
+    
+    this.traffic.bytesOut += buffer.length;
+    this.traffic.packetsOut++;
     if (client) {
+      client.bytesOut += buffer.length;
+      client.packetsOut++;
+    }
+  }
+  
+  private handleReliableAck(client: ClientInfo, acknowledgedSequence: number, ackBitfield?: number): void {
+    const now = Date.now();
+    
+    const acknowledge = (sequence: number) => {
+      const pending = client.reliableMessages.get(sequence);
+      if (!pending) return;
+      
+      // Only messages that were never resent give an unambiguous RTT sample
+      if (pending.attempts === 1) {
+        client.rtt.addSample(now - pending.sendTime);
+        this.recordDeliveryOutcome(client, false);
+      }
+      
       // Remove acknowledged message from pending list
-      client.reliableMessages.delete(acknowledgedSequence);
+      client.reliableMessages.delete(sequence);
+    };
+    
+    acknowledge(acknowledgedSequence);
+    
+    // Each set bit acknowledges one of the 32 sequences before the acked one
+    if (ackBitfield) {
+      for (let i = 0; i < ACK_BITFIELD_SIZE; i++) {
+        if (ackBitfield & (1 << i)) {
+          acknowledge((acknowledgedSequence - (i + 1)) >>> 0);
+        }
+      }
     }
   }
   
-  private getNextSequence(): number {
-    const sequence = this.nextSequence;
-    this.nextSequence = (this.nextSequence + 1) % 0xFFFFFFFF;
+  // Tell a client which of its reliable messages have arrived
+  private sendReliableAck(client: ClientInfo): void {
+    const ack = client.receiveWindow.getAck();
+    if (!ack) return;
+    
+    this.sendToClient(client.clientId, {
+      messageType: MessageType.SERVER_RELIABLE_ACK,
+      clientId: client.clientId,
+      acknowledgedSequence: ack.sequence,
+      ackBitfield: ack.bitfield
+    });
+  }
+  
+  // Emit a message, holding back ordered messages until earlier ones have arrived
+  private deliverMessage(client: ClientInfo, message: any, rinfo: dgram.RemoteInfo): void {
+    if (message.channel === DeliveryChannel.RELIABLE_ORDERED) {
+      for (const ordered of client.orderedReceive.push(message.orderSequence, message)) {
+        this.emit('message', ordered, rinfo);
+      }
+      return;
+    }
+    
+    this.emit('message', message, rinfo);
+  }
+  
+  private handleFragment(client: ClientInfo, message: any, rinfo: dgram.RemoteInfo): void {
+    const clientId = client.clientId;
+    const complete = this.reassembler.addFragment(clientId, {
+      groupId: message.fragmentGroupId,
+      index: message.fragmentIndex,
+      count: message.fragmentCount,
+      payload: message.payload
+    });
+    
+    if (!complete) {
+      return;
+    }
+    
+    let reassembled: any;
+    try {
+      reassembled = this.serializer.deserializeMessage(complete);
+    } catch (error) {
+      this.rejectMalformed(error, rinfo);
+      return;
+    }
+    
+    // The inner message must belong to the client that sent the fragments
+    if (reassembled.clientId !== clientId) {
+      console.warn(`Dropped reassembled message with mismatched client ID from ${rinfo.address}:${rinfo.port}`);
+      return;
+    }
+    
+    this.deliverMessage(client, reassembled, rinfo);
+  }
+  
+  // Split a serialized message into FRAGMENT datagrams that each fit within the MTU
+  private fragmentMessage(client: ClientInfo, buffer: Buffer, reliable: boolean): { sequence: number, buffer: Buffer }[] {
+    // Fragment header: message header (13 bytes + client ID string) plus group ID, index and count
+    const overhead = 13 + 2 + Buffer.byteLength(client.clientId, 'utf8') + 8;
+    const chunks = splitIntoChunks(buffer, MAX_DATAGRAM_SIZE - overhead);
+    
+    if (chunks.length > MAX_FRAGMENT_COUNT) {
+      console.error(`Message of ${buffer.length} bytes for client ${client.clientId} exceeds the fragment limit`);
+      return [];
+    }
+    
+    const groupId = this.nextFragmentGroupId;
+    this.nextFragmentGroupId = (this.nextFragmentGroupId + 1) % 0xFFFFFFFF;
+    
+    // Fragments are acked individually, ordering is restored from the reassembled message
+    const channel = reliable && hasCapability(client.protocol, ProtocolCapability.RELIABLE_CHANNELS)
+      ? DeliveryChannel.RELIABLE_UNORDERED
+      : DeliveryChannel.UNRELIABLE;
+    
+    return chunks.map((chunk, index) => {
+      const sequence = this.getNextSequence(client);
+      const fragment = {
+        messageType: MessageType.FRAGMENT,
+        sequence,
+        timestamp: Date.now(),
+        clientId: client.clientId,
+        channel,
+        fragmentGroupId: groupId,
+        fragmentIndex: index,
+        fragmentCount: chunks.length,
+        payload: chunk
+      };
+      
+      return { sequence, buffer: this.serializer.serializeMessage(fragment) };
+    });
+  }
+  
+  // Sequences are per client so acks can cover a contiguous window
+  private getNextSequence(client: ClientInfo): number {
+    const sequence = client.sequenceOut;
+    client.sequenceOut = (client.sequenceOut + 1) >>> 0;
     return sequence;
   }
   
-  sendToClient(clientId: string, message: any, reliable: boolean = false): boolean {
-    const client = this.clients.get(clientId);
+  sendToClient(clientId: string, message: any, channel: DeliveryChannel = DeliveryChannel.UNRELIABLE): boolean {
+    const suspended = this.suspended.has(clientId);
+    const client = this.clients.get(clientId) || this.suspended.get(clientId)?.client;
     if (!client) {
       return false;
     }
     
+    // Don't send message types the client said it cannot decode
+    if (!supportsMessageType(client.protocol, message.messageType)) {
+      return false;
+    }
+    
+    const reliable = channel !== DeliveryChannel.UNRELIABLE;
+    
+    // Suspended clients only keep reliable messages, delivered if they resume
+    if (suspended && (!reliable || client.reliableMessages.size >= MAX_SUSPENDED_RELIABLE)) {
+      return false;
+    }
+    
     // Set sequence number
-    message.sequence = this.getNextSequence();
+    message.sequence = this.getNextSequence(client);
     message.timestamp = Date.now();
     
-    // Serialize message
-    const buffer = this.serializer.serializeMessage(message);
+    // Legacy clients get per-message acks only, without channel bits or ordering
+    if (hasCapability(client.protocol, ProtocolCapability.RELIABLE_CHANNELS)) {
+      message.channel = channel;
+      if (channel === DeliveryChannel.RELIABLE_ORDERED) {
+        message.orderSequence = client.orderSequenceOut;
+        client.orderSequenceOut = nextOrderSequence(client.orderSequenceOut);
+      }
+    }
     
-    // Send message
-    this.server.send(
-      buffer,
-      0,
-      buffer.length,
-      client.port,
-      client.address
-    );
-    
-    // For reliable messages, store for potential resend
-    if (reliable) {
-      client.reliableMessages.set(message.sequence, {
-        message: buffer,
-        sendTime: Date.now(),
-        attempts: 1
-      });
+    // Serialize message with the client's negotiated encoding
+    const buffer = this.serializer.serializeMessage(message, client.serialization);
+    
+    // Oversized messages are fragmented for clients that can reassemble them.
+    // Stream connections have no datagram size limit.
+    const datagrams = !client.connection && buffer.length > MAX_DATAGRAM_SIZE &&
+      hasCapability(client.protocol, ProtocolCapability.FRAGMENTATION)
+      ? this.fragmentMessage(client, buffer, reliable)
+      : [{ sequence: message.sequence, buffer }];
+    
+    if (datagrams.length === 0) {
+      return false;
+    }
+    
+    for (const datagram of datagrams) {
+      // Send message
+      if (!suspended) {
+        this.sendDatagram(datagram.buffer, client.port, client.address, client);
+      }
+      
+      // For reliable messages, store each datagram for potential resend.
+      // Stream connections already guarantee delivery, so nothing is kept for them.
+      if (reliable && !client.connection) {
+        client.reliableMessages.set(datagram.sequence, {
+          message: datagram.buffer,
+          sendTime: suspended ? 0 : Date.now(),
+          attempts: 1
+        });
+      }
     }
     
     return true;
   }
   
-  sendToAll(message: any, reliable: boolean = false): void {
+  sendToAll(message: any, channel: DeliveryChannel = DeliveryChannel.UNRELIABLE): void {
     for (const [clientId] of this.clients.entries()) {
-      this.sendToClient(clientId, { ...message }, reliable);
+      this.sendToClient(clientId, { ...message }, channel);
     }
   }
   
-  sendToAllExcept(excludeClientId: string, message: any, reliable: boolean = false): void {
+  sendToAllExcept(excludeClientId: string, message: any, channel: DeliveryChannel = DeliveryChannel.UNRELIABLE): void {
     for (const [clientId] of this.clients.entries()) {
       if (clientId !== excludeClientId) {
-        this.sendToClient(clientId, { ...message }, reliable);
+        this.sendToClient(clientId, { ...message }, channel);
       }
     }
   }
   
   disconnectClient(clientId: string, reason: string = 'server_disconnect'): boolean {
+    // A suspended client has no address to notify, its session just ends
+    if (this.suspended.delete(clientId)) {
+      this.emit('disconnect', { clientId, reason });
+      return true;
+    }
+    
     const client = this.clients.get(clientId);
     if (!client) {
       return false;
@@ -786,23 +886,17 @@ export class UDPServer extends EventEmitter {
     // Send disconnect message to client
     const message = {
       messageType: MessageType.SERVER_REJECT,
-      sequence: this.getNextSequence(),
+      sequence: this.getNextSequence(client),
       timestamp: Date.now(),
       clientId,
       reason
     };
     
     const buffer = this.serializer.serializeMessage(message);
-    this.server.send(
-      buffer,
-      0,
-      buffer.length,
-      client.port,
-      client.address
-    );
+    this.sendDatagram(buffer, client.port, client.address, client);
     
     // Remove client from list
-    this.clients.delete(clientId);
+    this.removeClient(clientId, reason);
     
     // Emit disconnect event
     this.emit('disconnect', { clientId, reason });
@@ -810,6 +904,160 @@ export class UDPServer extends EventEmitter {
     return true;
   }
   
+  // Disconnect every client bound to a stream connection that has closed
+  connectionClosed(connection: ClientConnection): void {
+    const clients = Array.from(this.clients.values()).filter(client => client.connection === connection);
+    if (this.capture && clients.length > 0) {
+      this.captureRecord('closed', clients[0].address, clients[0].port, clients[0].clientId, connection);
+    }
+    
+    clients.forEach(client => {
+      console.log(`Client ${client.clientId} closed its connection`);
+      this.dropClient(client.clientId, 'connection_closed');
+    });
+  }
+  
+  // Remove a client that lost contact. Authenticated clients are suspended instead, so they
+  // can resume their session by reconnecting with the same token within the grace period.
+  private dropClient(clientId: string, reason: string): void {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      return;
+    }
+    
+    if (!client.sessionId || this.reconnectGracePeriod <= 0) {
+      this.emit('disconnect', { clientId, reason });
+      this.removeClient(clientId, reason);
+      return;
+    }
+    
+    this.removeClient(clientId, reason);
+    client.connection = undefined;
+    client.pendingPings.clear();
+    this.suspended.set(clientId, { client, reason, suspendedAt: Date.now() });
+    
+    this.emit('suspend', { clientId, reason });
+  }
+  
+  // ID of the suspended client that authenticated with a session, if any
+  findSuspendedClient(sessionId: string): string | undefined {
+    const entry = Array.from(this.suspended.values()).find(({ client }) => client.sessionId === sessionId);
+    return entry?.client.clientId;
+  }
+  
+  // Move a suspended client onto a fresh connection: the client keeps its ID and outbound
+  // state, takes over the new client's address, and the new client entry is discarded
+  resumeClient(suspendedClientId: string, newClientId: string): boolean {
+    const entry = this.suspended.get(suspendedClientId);
+    const fresh = this.clients.get(newClientId);
+    if (!entry || !fresh) {
+      return false;
+    }
+    
+    this.suspended.delete(suspendedClientId);
+    this.clients.delete(newClientId);
+    this.reassembler.removeSource(newClientId);
+    this.floodGuard.removeClient(newClientId);
+    
+    const client = entry.client;
+    client.address = fresh.address;
+    client.port = fresh.port;
+    client.connection = fresh.connection;
+    client.lastActivity = Date.now();
+    
+    // The client's own sequences start over with its new connection
+    client.receiveWindow = new ReceiveWindow();
+    client.orderedReceive = new OrderedReceiveBuffer();
+    
+    this.clients.set(suspendedClientId, client);
+    
+    // Reliable messages still unacknowledged go out again straight away
+    if (client.connection) {
+      client.reliableMessages.forEach(pending => this.sendDatagram(pending.message, client.port, client.address, client));
+      client.reliableMessages.clear();
+    } else {
+      client.reliableMessages.forEach(pending => {
+        pending.sendTime = 0;
+        pending.attempts = 1;
+      });
+    }
+    
+    console.log(`Client ${suspendedClientId} resumed its session from ${client.address}:${client.port}`);
+    return true;
+  }
+  
+  setReconnectGracePeriod(milliseconds: number): void {
+    this.reconnectGracePeriod = milliseconds;
+  }
+  
+  // Forget a client, closing its stream connection if it has one
+  private removeClient(clientId: string, reason: string): void {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      return;
+    }
+    
+    this.clients.delete(clientId);
+    this.reassembler.removeSource(clientId);
+    this.floodGuard.removeClient(clientId);
+    
+    if (client.connection) {
+      client.connection.close(reason);
+    }
+  }
+  
+  // Ban an address temporarily, disconnecting every client connected from it
+  banAddress(address: string, reason: string, duration?: number): AddressBan {
+    const ban = this.floodGuard.ban(address, reason, duration);
+    console.warn(`Banned ${ban.address} until ${new Date(ban.expiresAt).toISOString()}: ${reason}`);
+    
+    Array.from(this.clients.values())
+      .filter(client => normalizeAddress(client.address) === ban.address)
+      .forEach(client => this.disconnectClient(client.clientId, 'banned'));
+    
+    this.emit('ban', ban);
+    return ban;
+  }
+  
+  unbanAddress(address: string): boolean {
+    return this.floodGuard.unban(address);
+  }
+  
+  getBans(): AddressBan[] {
+    return this.floodGuard.getBans();
+  }
+  
+  isConnectChallengeActive(): boolean {
+    return this.floodGuard.isChallengeActive();
+  }
+  
+  // Apply the outcome of the connect handshake, including the wire encoding
+  setClientProtocol(clientId: string, protocol: NegotiatedProtocol): boolean {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      return false;
+    }
+    
+    client.protocol = protocol;
+    client.serialization = {
+      quantized: hasCapability(protocol, ProtocolCapability.QUANTIZED_ENCODING)
+    };
+    return true;
+  }
+  
+  // Require signed datagrams from a client that presented a valid session token
+  setClientSession(clientId: string, userId: number, sessionKey: Buffer, sessionId?: string): boolean {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      return false;
+    }
+    
+    client.userId = userId;
+    client.sessionKey = sessionKey;
+    client.sessionId = sessionId;
+    return true;
+  }
+  
   getConnectedClients(): string[] {
     return Array.from(this.clients.keys());
   }
@@ -818,6 +1066,108 @@ export class UDPServer extends EventEmitter {
     return this.clients.get(clientId);
   }
   
+  getClientNetworkStats(clientId: string): ClientNetworkStats | undefined {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      return undefined;
+    }
+    
+    return {
+      clientId,
+      connectedAt: client.connectedAt,
+      bytesIn: client.bytesIn,
+      bytesOut: client.bytesOut,
+      packetsIn: client.packetsIn,
+      packetsOut: client.packetsOut,
+      resends: client.resends,
+      pendingReliable: client.reliableMessages.size,
+      rtt: client.rtt.getSmoothedRtt(),
+      jitter: client.rtt.getRttVariance(),
+      packetLoss: client.packetLoss
+    };
+  }
+  
+  // Totals since the server started, with latency and loss averaged over connected clients
+  getNetworkTotals(): NetworkTotals {
+    const clients = Array.from(this.clients.values());
+    const measured = clients
+      .map(client => client.rtt.getSmoothedRtt())
+      .filter((rtt): rtt is number => rtt !== null);
+    
+    return {
+      ...this.traffic,
+      averageRtt: measured.length > 0
+        ? measured.reduce((sum, rtt) => sum + rtt, 0) / measured.length
+        : null,
+      averagePacketLoss: clients.length > 0
+        ? clients.reduce((sum, client) => sum + client.packetLoss, 0) / clients.length
+        : 0
+    };
+  }
+  
+  // Start writing every datagram received and sent to a capture file.
+  // Returns false if a capture is already running.
+  startCapture(file: string): boolean {
+    if (this.capture) {
+      return false;
+    }
+    
+    this.capture = new PacketCapture(file);
+    console.log(`Packet capture started: ${file}`);
+    return true;
+  }
+  
+  // Stop the running capture, resolving with its final status once the file is complete
+  async stopCapture(): Promise<CaptureStatus | null> {
+    const capture = this.capture;
+    if (!capture) {
+      return null;
+    }
+    
+    this.capture = null;
+    const status = await capture.close();
+    console.log(`Packet capture stopped: ${status.file}, ${status.records} records`);
+    return status;
+  }
+  
+  getCaptureStatus(): CaptureStatus | null {
+    return this.capture ? this.capture.getStatus() : null;
+  }
+  
+  private captureRecord(
+    kind: CaptureRecordKind,
+    address: string,
+    port: number,
+    clientId: string,
+    connection: ClientConnection | undefined,
+    data?: Buffer
+  ): void {
+    const capture = this.capture!;
+    if (!capture.record(kind, connection ? 'stream' : 'udp', address, port, clientId, data)) {
+      console.warn(`Packet capture ${capture.file} stopped at its size limit or on a write error`);
+      this.stopCapture();
+    }
+  }
+  
+  // Client ID in a datagram's header, or empty if it cannot be parsed
+  private peekClientId(msg: Buffer): string {
+    try {
+      return this.serializer.deserializeMessageHeader(msg, 0).value.clientId;
+    } catch (error) {
+      return '';
+    }
+  }
+  
+  // Process traffic without sending anything, for replaying a capture
+  setOutputSuppressed(suppressed: boolean): void {
+    this.outputSuppressed = suppressed;
+  }
+  
+  // Replace how IDs for new clients are made, so a replay can reuse the captured ones
+  setClientIdGenerator(generator: () => string): void {
+    this.createClientId = generator;
+  }
+  
   getSerializer(): BinarySerializer {
     return this.serializer;
   }
@@ -0,0 +1,90 @@
+import { Server, IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import dgram from 'dgram';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { UDPServer, ClientConnection } from './udp';
+
+// Path on the HTTP server that game clients upgrade to a WebSocket on
+export const WEBSOCKET_PATH = '/ws';
+
+// Largest binary frame accepted from a client, in bytes
+const MAX_FRAME_SIZE = 64 * 1024;
+
+// Game transport for browser clients. Each binary WebSocket frame carries one message in the
+// same binary format as a UDP datagram, and is handed to the UDP server so both transports
+// share one client registry, handshake and channel semantics.
+export class WebSocketTransport {
+  private wss: WebSocketServer;
+
+  constructor(httpServer: Server, private udpServer: UDPServer, private path: string = WEBSOCKET_PATH) {
+    this.wss = new WebSocketServer({ noServer: true, maxPayload: MAX_FRAME_SIZE });
+
+    // Other upgrade requests, such as the Vite HMR socket in development, are left alone
+    httpServer.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+      if (this.getPathname(request) !== this.path) {
+        return;
+      }
+
+      this.wss.handleUpgrade(request, socket, head, ws => this.handleConnection(ws, request));
+    });
+  }
+
+  private handleConnection(ws: WebSocket, request: IncomingMessage): void {
+    const address = request.socket.remoteAddress || '';
+    const port = request.socket.remotePort || 0;
+    const family = request.socket.remoteFamily === 'IPv6' ? 'IPv6' : 'IPv4';
+
+    const connection: ClientConnection = {
+      send: (data: Buffer) => {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(data, { binary: true });
+        }
+      },
+      close: (reason: string) => {
+        ws.close(1000, reason);
+      }
+    };
+
+    console.log(`WebSocket client connected from ${address}:${port}`);
+
+    ws.on('message', (data: RawData, isBinary: boolean) => {
+      // The game protocol is binary only
+      if (!isBinary) {
+        return;
+      }
+
+      const msg = this.toBuffer(data);
+      const rinfo: dgram.RemoteInfo = { address, family, port, size: msg.length };
+      this.udpServer.handleDatagram(msg, rinfo, connection);
+    });
+
+    ws.on('close', () => {
+      this.udpServer.connectionClosed(connection);
+    });
+
+    ws.on('error', (error: Error) => {
+      console.warn(`WebSocket error from ${address}:${port}: ${error.message}`);
+    });
+  }
+
+  getConnectionCount(): number {
+    return this.wss.clients.size;
+  }
+
+  close(): void {
+    this.wss.clients.forEach(ws => ws.terminate());
+    this.wss.close();
+  }
+
+  private getPathname(request: IncomingMessage): string {
+    return new URL(request.url || '/', 'http://localhost').pathname;
+  }
+
+  private toBuffer(data: RawData): Buffer {
+    if (Buffer.isBuffer(data)) {
+      return data;
+    }
+
+    return Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data);
+  }
+}
@@ -26,6 +26,11 @@ export class Vector3 {
     return new Vector3(1, 0, 0);
   }
 
+  // A vector from anything with coordinates, e.g. one that lost its class in a structured clone
+  static from(v: { x: number, y: number, z: number }): Vector3 {
+    return new Vector3(v.x, v.y, v.z);
+  }
+
   clone(): Vector3 {
     return new Vector3(this.x, this.y, this.z);
   }
@@ -123,6 +128,10 @@ export class Quaternion {
     return new Quaternion(0, 0, 0, 1);
   }
 
+  static from(q: { x: number, y: number, z: number, w: number }): Quaternion {
+    return new Quaternion(q.x, q.y, q.z, q.w);
+  }
+
   static fromEuler(x: number, y: number, z: number): Quaternion {
     // Convert Euler angles (in radians) to Quaternion
     const cx = Math.cos(x * 0.5);
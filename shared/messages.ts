@@ -0,0 +1,295 @@
+import { MessageType, MissionType, MissionStatus, EntityDeltaField, MissionDeltaField } from './types';
+import {
+  FieldList, WireValue, u8, u16, u32, u64, f32, f64, str, vec3, quat, position, velocity, rotation, rest, bytes,
+  enumOf, arrayOf, struct, fullPrecision, clamped, numeric, flag, mask, exposedMask, padding, origin, trailing,
+  masked, emptyAsAbsent
+} from './wire';
+
+// Binary layout of every message body, in wire order. The message header (type and channel,
+// sequence, timestamp, client ID and order sequence) comes first and is written by the UDP server.
+// Message types in shared/types.ts are derived from these layouts.
+
+// Length of the cookie in SERVER_CONNECT_CHALLENGE
+export const CONNECT_COOKIE_LENGTH = 16;
+
+// Entity basic info for state updates
+export const ENTITY_STATE = struct({
+  entityId: str(),
+  entityType: str<'player' | 'npc'>(),
+  position,
+  velocity,
+  rotation
+});
+
+// The authoritative state of the receiving player. Always sent at full precision
+// since the client replays its inputs from it.
+export const PLAYER_RECONCILIATION = struct({
+  lastProcessedInputSequence: u32,
+  state: fullPrecision(ENTITY_STATE)
+});
+
+// Changed fields of a single entity relative to the client's baseline
+export const ENTITY_DELTA = struct({
+  entityId: str(),
+  fieldMask: exposedMask(), // Combination of EntityDeltaField flags
+  entityType: masked(str<'player' | 'npc'>(), 'fieldMask', EntityDeltaField.ENTITY_TYPE),
+  position: masked(position, 'fieldMask', EntityDeltaField.POSITION),
+  velocity: masked(velocity, 'fieldMask', EntityDeltaField.VELOCITY),
+  rotation: masked(rotation, 'fieldMask', EntityDeltaField.ROTATION)
+});
+
+export const NPC_STATE = struct({
+  entityId: str(),
+  npcType: str<'enemy' | 'transport' | 'civilian' | 'mining'>(),
+  status: str<'hostile' | 'en-route' | 'passive' | 'working'>(),
+  position,
+  velocity,
+  rotation,
+  hasTarget: mask(),
+  targetId: masked(str(), 'hasTarget', 1, { encodeWhenAbsent: true })
+});
+
+export const AREA_OF_INTEREST_STATE = struct({
+  id: str(),
+  name: str(),
+  center: vec3,
+  radius: f32,
+  playerCount: clamped(u16),
+  npcCount: clamped(u16),
+  load: f32,
+  latency: f32
+});
+
+export const CELESTIAL_BODY_STATE = struct({
+  id: u32,
+  radius: f32,
+  mass: f32,
+  orbitProgress: f32, // 0-1 representing percentage of orbit completed
+  reserved: padding(8),
+  name: str(),
+  type: str(),
+  color: str(),
+  position: vec3,
+  velocity: vec3
+});
+
+export const PHYSICS_STATE = struct({
+  gravity: vec3,
+  timeScale: f32
+});
+
+// Values compared by a sanity check, only the ones present are sent
+export const SANITY_CHECK_VALUES = struct({
+  present: mask(),
+  position: masked(vec3, 'present', 1 << 0),
+  velocity: masked(vec3, 'present', 1 << 1),
+  acceleration: masked(vec3, 'present', 1 << 2),
+  collision: masked(flag('present', 1 << 4), 'present', 1 << 3)
+});
+
+export const MISSION_STATE = struct({
+  type: enumOf(Object.values(MissionType)),
+  status: enumOf(Object.values(MissionStatus)),
+  difficulty: u8,
+  optional: mask(),
+  reward: u32,
+  startLocationId: u32,
+  endLocationId: u32,
+  progressValue: f32,
+  progressTarget: f32,
+  startTime: f64, // Seconds since epoch
+  expiryTime: f64,
+  missionId: str(),
+  name: str(),
+  description: str(),
+  assignedFleetId: masked(str(), 'optional', 1 << 0),
+  completeTime: masked(f64, 'optional', 1 << 1)
+});
+
+// Changed fields of a single mission relative to the last update the client received
+export const MISSION_DELTA = struct({
+  missionId: str(),
+  fieldMask: exposedMask(), // Combination of MissionDeltaField flags
+  status: masked(enumOf(Object.values(MissionStatus)), 'fieldMask', MissionDeltaField.STATUS),
+  progressValue: masked(f32, 'fieldMask', MissionDeltaField.PROGRESS),
+  assignedFleetId: masked(str(), 'fieldMask', MissionDeltaField.ASSIGNED_FLEET), // Empty when unassigned
+  expiryTime: masked(f64, 'fieldMask', MissionDeltaField.EXPIRY_TIME),
+  completeTime: masked(f64, 'fieldMask', MissionDeltaField.COMPLETE_TIME)
+});
+
+const PING = {
+  pingId: u32
+};
+
+const RELIABLE_ACK = {
+  acknowledgedSequence: u32,
+  ackBitfield: trailing(u32) // Bit i acknowledges acknowledgedSequence - (i + 1), only from clients with reliable channels
+};
+
+export const MESSAGE_SCHEMAS = {
+  [MessageType.CLIENT_CONNECT]: {
+    username: str(),
+    version: str(),
+    // Omitted by legacy clients (protocol 1), and 0 when a legacy client sends only a token or cookie
+    protocolVersion: trailing(u16, { fill: 0, group: 'handshake' }),
+    capabilities: trailing(u32, { group: 'handshake' }), // Combination of ProtocolCapability flags
+    supportedMessageTypes: trailing(arrayOf(numeric<MessageType>(u8), 'u8'), { group: 'handshake' }), // Empty means all
+    sessionToken: trailing(str(), { emptyAsAbsent: true }), // Token from POST /api/auth/login
+    connectCookie: trailing(bytes(CONNECT_COOKIE_LENGTH)) // Echoed from SERVER_CONNECT_CHALLENGE
+  },
+
+  [MessageType.CLIENT_DISCONNECT]: {
+    reason: str()
+  },
+
+  [MessageType.CLIENT_PING]: PING,
+  [MessageType.CLIENT_PONG]: PING,
+  [MessageType.SERVER_PING]: PING,
+  [MessageType.SERVER_PONG]: PING,
+
+  [MessageType.CLIENT_STATE_UPDATE]: {
+    position: vec3,
+    velocity: vec3,
+    rotation: quat,
+    inputSequence: u32,
+    frameShiftSequence: trailing(u32, { missing: 0 }) // Last SERVER_FRAME_SHIFT applied to this state
+  },
+
+  [MessageType.CLIENT_INPUT]: {
+    inputSequence: u32,
+    duration: clamped(u16), // Milliseconds of simulation this input covers
+    thrust: vec3,           // Ship-local thrust, each axis from -1 to 1
+    rotationInput: vec3     // Pitch, yaw and roll rates, each from -1 to 1
+  },
+
+  // Fires the player's weapon from its current position, at most once per weapon cooldown
+  [MessageType.CLIENT_FIRE]: {
+    direction: vec3 // Aim direction, normalized by the server
+  },
+
+  [MessageType.SERVER_ACCEPT]: {
+    assignedClientId: str(),
+    serverTime: u64,
+    initialPosition: vec3,
+    initialVelocity: vec3,
+    initialRotation: quat,
+    // Negotiated protocol, absent in messages from older servers
+    protocolVersion: trailing(u16, { fill: 1, missing: 1 }),
+    capabilities: trailing(u32, { missing: 0 }),
+    frameShiftSequence: trailing(u32, { missing: 0 }) // Last SERVER_FRAME_SHIFT already in the initial state
+  },
+
+  [MessageType.SERVER_REJECT]: {
+    reason: str()
+  },
+
+  [MessageType.SERVER_CONNECT_CHALLENGE]: {
+    cookie: bytes(CONNECT_COOKIE_LENGTH)
+  },
+
+  [MessageType.SERVER_STATE_UPDATE]: {
+    origin: origin(), // Area center, for quantized positions
+    entities: arrayOf(ENTITY_STATE),
+    areaOfInterestId: str(),
+    serverTime: u64,
+    snapshotId: trailing(u32, { missing: 0 }), // Client acknowledges this to enable delta updates
+    reconciliation: trailing(PLAYER_RECONCILIATION)
+  },
+
+  [MessageType.SERVER_DELTA_STATE_UPDATE]: {
+    origin: origin(),
+    snapshotId: u32,
+    baselineSnapshotId: u32,
+    entities: arrayOf(ENTITY_DELTA),
+    removedEntityIds: arrayOf(str()),
+    areaOfInterestId: str(),
+    serverTime: u64,
+    reconciliation: trailing(PLAYER_RECONCILIATION)
+  },
+
+  [MessageType.CLIENT_SNAPSHOT_ACK]: {
+    snapshotId: u32
+  },
+
+  [MessageType.SERVER_PHYSICS_UPDATE]: {
+    physics: PHYSICS_STATE,
+    nearestCelestialBodyId: u32,
+    distanceToCelestialBody: f32
+  },
+
+  [MessageType.SERVER_NPC_UPDATE]: {
+    origin: origin(),
+    npcs: arrayOf(NPC_STATE)
+  },
+
+  // Sent reliably to every player when an NPC ship's hull reaches 0
+  [MessageType.SERVER_NPC_DESTROYED]: {
+    entityId: str(),
+    npcType: str<'enemy' | 'transport' | 'civilian' | 'mining'>(),
+    position: vec3,
+    destroyedById: str() // Entity ID of the ship that fired the last hit, empty when unknown
+  },
+
+  // Sent reliably to clients that negotiated FRAME_SHIFTS when the receiving player was carried
+  // along with an area following its celestial body. The client adds the offset to its own state.
+  [MessageType.SERVER_FRAME_SHIFT]: {
+    areaId: str(),
+    offset: vec3,
+    shiftSequence: u32 // Echoed in CLIENT_STATE_UPDATE once the shift is applied
+  },
+
+  [MessageType.SERVER_AREA_OF_INTEREST_UPDATE]: {
+    areas: arrayOf(AREA_OF_INTEREST_STATE),
+    currentAreaId: str()
+  },
+
+  // Sent reliably when the receiving player changes area, with the entities that became
+  // relevant or stopped being relevant because of it
+  [MessageType.SERVER_AREA_HANDOFF]: {
+    origin: origin(), // New area center, for quantized positions
+    previousAreaId: str(), // Empty when the player was outside all areas
+    currentAreaId: str(),  // Empty when the player left all areas
+    spawnedEntities: arrayOf(ENTITY_STATE),
+    despawnedEntityIds: arrayOf(str())
+  },
+
+  [MessageType.SERVER_CELESTIAL_UPDATE]: {
+    bodies: arrayOf(CELESTIAL_BODY_STATE),
+    simulationTime: u64
+  },
+
+  [MessageType.SERVER_SANITY_CHECK]: {
+    checkId: u32,
+    checkType: enumOf(['position', 'velocity', 'acceleration', 'collision'] as const),
+    expectedValue: emptyAsAbsent(SANITY_CHECK_VALUES),
+    tolerance: trailing(f32)
+  },
+
+  [MessageType.CLIENT_SANITY_CHECK_RESPONSE]: {
+    checkId: u32,
+    reportedValue: SANITY_CHECK_VALUES
+  },
+
+  [MessageType.SERVER_RELIABLE_ACK]: RELIABLE_ACK,
+  [MessageType.CLIENT_RELIABLE_ACK]: RELIABLE_ACK,
+
+  // One piece of a message too large for a single datagram
+  [MessageType.FRAGMENT]: {
+    fragmentGroupId: u32,
+    fragmentIndex: u16,
+    fragmentCount: u16,
+    payload: rest // Payloads of all fragments in a group, concatenated by index, form the original message
+  },
+
+  [MessageType.SERVER_MISSION_UPDATE]: {
+    missions: arrayOf(MISSION_STATE)
+  },
+
+  [MessageType.SERVER_MISSION_DELTA]: {
+    missions: arrayOf(MISSION_DELTA),
+    removedMissionIds: arrayOf(str())
+  }
+} satisfies Record<MessageType, FieldList>;
+
+// Decoded body of a message type
+export type MessageBody<T extends MessageType> = WireValue<(typeof MESSAGE_SCHEMAS)[T]>;
@@ -1,4 +1,4 @@
-import { Vector3 } from './math';
+import { Vector3, Quaternion } from './math';
 import { CelestialBody } from './schema';
 
 // Gravitational constant (G)
@@ -294,3 +294,70 @@ export function updateCelestialBodyPosition(
   
   return { position, velocity };
 }
+
+// Handling characteristics of a player-controlled ship
+export interface ShipMotionParameters {
+  maxAcceleration: number; // Units/s² at full thrust
+  maxSpeed: number;        // Units/s
+  turnRate: number;        // Radians/s at full rotation input
+}
+
+export const DEFAULT_SHIP_MOTION: ShipMotionParameters = {
+  maxAcceleration: 50,
+  maxSpeed: 500,
+  turnRate: 1.5
+};
+
+// Kinematic state of a ship
+export interface ShipMotionState {
+  position: Vector3;
+  velocity: Vector3;
+  rotation: Quaternion;
+}
+
+// Advance a ship by one control input. Clients run the same function to predict their own
+// movement, so any change here must be mirrored in client builds.
+export function integrateShipMotion(
+  state: ShipMotionState,
+  thrust: Vector3,        // Ship-local, each axis from -1 to 1
+  rotationInput: Vector3, // Pitch, yaw and roll rates, each from -1 to 1
+  deltaTime: number,      // Seconds
+  params: ShipMotionParameters = DEFAULT_SHIP_MOTION,
+  gravity: Vector3 = Vector3.zero()
+): ShipMotionState {
+  const clamp = (value: number) => Math.max(-1, Math.min(1, value));
+  
+  // Rotate in the ship's local frame
+  const angularVelocity = new Vector3(
+    clamp(rotationInput.x),
+    clamp(rotationInput.y),
+    clamp(rotationInput.z)
+  ).multiply(params.turnRate);
+  
+  let rotation = state.rotation;
+  const angle = angularVelocity.magnitude() * deltaTime;
+  if (angle > 1e-9) {
+    const step = Quaternion.fromAxisAngle(angularVelocity.normalize(), angle);
+    rotation = rotation.multiply(step).normalize();
+  }
+  
+  // Thrust is applied along the ship's new orientation
+  const localThrust = new Vector3(clamp(thrust.x), clamp(thrust.y), clamp(thrust.z));
+  const acceleration = rotation.rotateVector(localThrust).multiply(params.maxAcceleration);
+  
+  // Semi-implicit Euler, as used for NPC movement
+  const newVelocity = state.velocity
+    .add(acceleration.multiply(deltaTime))
+    .add(gravity.multiply(deltaTime));
+  
+  const speed = newVelocity.magnitude();
+  const velocity = speed > params.maxSpeed
+    ? newVelocity.normalize().multiply(params.maxSpeed)
+    : newVelocity;
+  
+  return {
+    position: state.position.add(velocity.multiply(deltaTime)),
+    velocity,
+    rotation
+  };
+}
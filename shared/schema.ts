@@ -7,6 +7,7 @@ export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  factionId: text("faction_id"), // Faction the player has joined, null when unaffiliated
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -68,6 +69,9 @@ export const npcShips = pgTable("npc_ships", {
   aiState: text("ai_state").notNull(), // patrolling, attacking, fleeing, mining, etc.
   targetId: text("target_id"), // ID of the target (if any)
   templateId: text("template_id"), // ID of the ship template used, if any
+  // Combat state, the ship is destroyed when its hull reaches 0
+  hull: real("hull").notNull(), // Remaining hull points
+  shield: real("shield").notNull(), // Remaining shield points, absorbed before the hull
   // Advanced navigation properties
   waypointsJson: jsonb("waypoints_json"), // Array of navigation waypoints
   formationPosition: integer("formation_position"), // Position in fleet formation
@@ -92,6 +96,7 @@ export const npcFleets = pgTable("npc_fleets", {
   count: integer("count").notNull(),
   location: text("location").notNull(), // human-readable location
   nearestCelestialBodyId: integer("nearest_celestial_body_id").notNull(),
+  factionId: text("faction_id"), // Faction the fleet flies for, null for the default faction of its type
 });
 
 export const insertNpcFleetSchema = createInsertSchema(npcFleets).omit({
@@ -114,6 +119,7 @@ export const missions = pgTable("missions", {
   startLocationId: integer("start_location_id").notNull(), // celestial body ID
   endLocationId: integer("end_location_id").notNull(), // celestial body ID
   assignedFleetId: text("assigned_fleet_id"),
+  factionId: text("faction_id"), // Faction offering the mission
   progressValue: integer("progress_value").default(0), // percentage, items, etc.
   progressTarget: integer("progress_target").notNull(), // needed for completion
   startTime: real("start_time").notNull(),
@@ -128,6 +134,39 @@ export const insertMissionSchema = createInsertSchema(missions).omit({
 export type InsertMission = z.infer<typeof insertMissionSchema>;
 export type Mission = typeof missions.$inferSelect;
 
+// Factions schema, standings range from -100 (at war) to 100 (allied)
+export const factions = pgTable("factions", {
+  id: serial("id").primaryKey(),
+  factionId: text("faction_id").notNull().unique(),
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  color: text("color").notNull(), // For visualization
+  standings: jsonb("standings").notNull(), // Standing toward other factions, by faction ID
+  defaultStanding: real("default_standing").notNull(), // Toward factions missing from standings and unaffiliated players
+});
+
+export const insertFactionSchema = createInsertSchema(factions).omit({
+  id: true,
+});
+
+export type InsertFaction = z.infer<typeof insertFactionSchema>;
+export type Faction = typeof factions.$inferSelect;
+
+// Player reputation with a faction, added to the faction's standing toward the player
+export const reputations = pgTable("reputations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  factionId: text("faction_id").notNull(),
+  value: real("value").notNull(), // -100 to 100
+});
+
+export const insertReputationSchema = createInsertSchema(reputations).omit({
+  id: true,
+});
+
+export type InsertReputation = z.infer<typeof insertReputationSchema>;
+export type Reputation = typeof reputations.$inferSelect;
+
 // Players (connected clients)
 export const players = pgTable("players", {
   id: serial("id").primaryKey(),
@@ -206,6 +245,8 @@ export const serverStats = pgTable("server_stats", {
   memoryUsage: real("memory_usage").notNull(), // MB
   networkTraffic: real("network_traffic").notNull(), // MB/s
   playerCount: integer("player_count").notNull(),
+  averageRtt: real("average_rtt").notNull(), // ms, averaged over measured clients
+  packetLoss: real("packet_loss").notNull(), // percentage
 });
 
 export const insertServerStatSchema = createInsertSchema(serverStats).omit({
@@ -254,6 +295,14 @@ export const shipTemplates = pgTable("ship_templates", {
   // Combat characteristics
   attackRange: real("attack_range").notNull(),
   fleeThreshold: real("flee_threshold").notNull(),
+  maxHull: real("max_hull").notNull(),
+  maxShield: real("max_shield").notNull(),
+  
+  // Weapon, ships with no damage don't attack
+  weaponDamage: real("weapon_damage").notNull(), // Per hit
+  weaponRange: real("weapon_range").notNull(), // Distance a projectile travels (m)
+  weaponCooldown: real("weapon_cooldown").notNull(), // Between shots (ms)
+  projectileSpeed: real("projectile_speed").notNull(), // m/s
   
   // Navigation characteristics
   waypointArrivalDistance: real("waypoint_arrival_distance").notNull(),
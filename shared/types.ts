@@ -1,4 +1,9 @@
 import { Vector3, Quaternion } from './math';
+import type { WireTypeValue } from './wire';
+import type {
+  MessageBody, ENTITY_STATE, PLAYER_RECONCILIATION, ENTITY_DELTA, PHYSICS_STATE, NPC_STATE, AREA_OF_INTEREST_STATE,
+  CELESTIAL_BODY_STATE, SANITY_CHECK_VALUES, MISSION_STATE, MISSION_DELTA
+} from './messages';
 
 // UDP Message Types
 export enum MessageType {
@@ -17,6 +22,28 @@ export enum MessageType {
   SERVER_SANITY_CHECK = 12,
   SERVER_RELIABLE_ACK = 13,
   CLIENT_RELIABLE_ACK = 14,
+  CLIENT_SNAPSHOT_ACK = 15,
+  SERVER_DELTA_STATE_UPDATE = 16,
+  FRAGMENT = 17,
+  SERVER_PONG = 18,
+  SERVER_PING = 19,
+  CLIENT_INPUT = 20,
+  SERVER_CONNECT_CHALLENGE = 21,
+  SERVER_MISSION_UPDATE = 22,
+  SERVER_MISSION_DELTA = 23,
+  CLIENT_SANITY_CHECK_RESPONSE = 24,
+  SERVER_AREA_HANDOFF = 25,
+  SERVER_NPC_DESTROYED = 26,
+  CLIENT_FIRE = 27,
+  SERVER_FRAME_SHIFT = 28,
+}
+
+// Delivery guarantees, carried in the top two bits of the message type byte
+// for clients that negotiate RELIABLE_CHANNELS
+export enum DeliveryChannel {
+  UNRELIABLE = 0,
+  RELIABLE_UNORDERED = 1,
+  RELIABLE_ORDERED = 2,
 }
 
 // Message header structure shared by all message types
@@ -25,144 +52,211 @@ export interface MessageHeader {
   sequence: number;  // Sequence number for reliable ordering
   timestamp: number; // Timestamp in milliseconds
   clientId: string;  // Unique identifier for the client
+  channel?: DeliveryChannel; // Omitted for legacy clients (unreliable unless acked per message)
+  orderSequence?: number;    // 16-bit position on the ordered channel, only for RELIABLE_ORDERED
 }
 
-// Client connection request
-export interface ClientConnectMessage extends MessageHeader {
-  username: string;
-  version: string;
+// Optional protocol features negotiated during the connect handshake
+export enum ProtocolCapability {
+  QUANTIZED_ENCODING = 1 << 0, // Compact entity transforms (see SerializationOptions)
+  DELTA_SNAPSHOTS = 1 << 1,    // SERVER_DELTA_STATE_UPDATE against acked snapshots
+  FRAGMENTATION = 1 << 2,      // Large messages are split into FRAGMENT datagrams
+  RELIABLE_CHANNELS = 1 << 3,  // DeliveryChannel in the header and ack bitfields
+  SERVER_PINGS = 1 << 4,       // Client answers SERVER_PING with CLIENT_PONG for RTT tracking
+  FRAME_SHIFTS = 1 << 5,       // Client applies SERVER_FRAME_SHIFT and reports it in CLIENT_STATE_UPDATE
 }
 
+// Client connection request
+export type ClientConnectMessage = MessageHeader & MessageBody<MessageType.CLIENT_CONNECT>;
+
+// Sent instead of accepting a CLIENT_CONNECT while the server is challenging connects.
+// The client repeats its connect with the cookie, proving it owns its source address.
+export type ServerConnectChallengeMessage = MessageHeader & MessageBody<MessageType.SERVER_CONNECT_CHALLENGE>;
+
 // Client disconnect notification
-export interface ClientDisconnectMessage extends MessageHeader {
-  reason: string;
-}
+export type ClientDisconnectMessage = MessageHeader & MessageBody<MessageType.CLIENT_DISCONNECT>;
 
 // Client ping message for latency measurement
-export interface ClientPingMessage extends MessageHeader {
-  pingId: number;
-}
+export type ClientPingMessage = MessageHeader & MessageBody<MessageType.CLIENT_PING>;
 
 // Server pong response
-export interface ServerPongMessage extends MessageHeader {
-  pingId: number;
+export type ServerPongMessage = MessageHeader & MessageBody<MessageType.SERVER_PONG>;
+
+// Server ping used to measure latency, answered with CLIENT_PONG
+export type ServerPingMessage = MessageHeader & MessageBody<MessageType.SERVER_PING>;
+
+// Client pong response to a server ping
+export type ClientPongMessage = MessageHeader & MessageBody<MessageType.CLIENT_PONG>;
+
+// Network statistics for one connected client
+export interface ClientNetworkStats {
+  clientId: string;
+  connectedAt: number;     // Milliseconds since epoch
+  bytesIn: number;
+  bytesOut: number;
+  packetsIn: number;
+  packetsOut: number;
+  resends: number;
+  pendingReliable: number; // Reliable datagrams waiting for an ack
+  rtt: number | null;      // Smoothed round trip time in ms, null until measured
+  jitter: number;          // Mean RTT deviation in ms
+  packetLoss: number;      // Estimated loss rate from 0 to 1
 }
 
-// Client state update (position, rotation, etc.)
-export interface ClientStateUpdateMessage extends MessageHeader {
-  position: Vector3;
-  velocity: Vector3;
-  rotation: Quaternion;
-  inputSequence: number;
+// Traffic counters for the whole UDP server
+export interface NetworkTotals {
+  bytesIn: number;
+  bytesOut: number;
+  packetsIn: number;
+  packetsOut: number;
+  resends: number;
+  averageRtt: number | null;
+  averagePacketLoss: number;
 }
 
+// Client state update (position, rotation, etc.)
+export type ClientStateUpdateMessage = MessageHeader & MessageBody<MessageType.CLIENT_STATE_UPDATE>;
+
+// Client control input, integrated by the server when movement is server-authoritative
+export type ClientInputMessage = MessageHeader & MessageBody<MessageType.CLIENT_INPUT>;
+
+// Client firing its ship's weapon
+export type ClientFireMessage = MessageHeader & MessageBody<MessageType.CLIENT_FIRE>;
+
 // Server accept connection
-export interface ServerAcceptMessage extends MessageHeader {
-  assignedClientId: string;
-  serverTime: number;
-  initialPosition: Vector3;
-  initialVelocity: Vector3;
-  initialRotation: Quaternion;
-}
+export type ServerAcceptMessage = MessageHeader & MessageBody<MessageType.SERVER_ACCEPT>;
 
 // Server reject connection
-export interface ServerRejectMessage extends MessageHeader {
-  reason: string;
-}
+export type ServerRejectMessage = MessageHeader & MessageBody<MessageType.SERVER_REJECT>;
 
 // Entity basic info for state updates
-export interface EntityState {
-  entityId: string;
-  entityType: 'player' | 'npc';
-  position: Vector3;
-  velocity: Vector3;
-  rotation: Quaternion;
-}
+export type EntityState = WireTypeValue<typeof ENTITY_STATE>;
 
 // Server state update (other entities in area of interest)
-export interface ServerStateUpdateMessage extends MessageHeader {
-  entities: EntityState[];
-  areaOfInterestId: string;
-  serverTime: number;
+export type ServerStateUpdateMessage = MessageHeader & MessageBody<MessageType.SERVER_STATE_UPDATE>;
+
+// The authoritative state of the receiving player, so a predicting client can replay
+// the inputs the server has not processed yet
+export type PlayerReconciliation = WireTypeValue<typeof PLAYER_RECONCILIATION>;
+
+// Bit flags describing which fields are present in an entity delta
+export enum EntityDeltaField {
+  POSITION = 1 << 0,
+  VELOCITY = 1 << 1,
+  ROTATION = 1 << 2,
+  ENTITY_TYPE = 1 << 3, // Entity is new to the client, type is included
 }
 
+// Changed fields of a single entity relative to the client's baseline
+export type EntityDelta = WireTypeValue<typeof ENTITY_DELTA>;
+
+// Server delta state update, relative to a snapshot the client acknowledged
+export type ServerDeltaStateUpdateMessage = MessageHeader & MessageBody<MessageType.SERVER_DELTA_STATE_UPDATE>;
+
+// Client acknowledgement of a received state snapshot
+export type ClientSnapshotAckMessage = MessageHeader & MessageBody<MessageType.CLIENT_SNAPSHOT_ACK>;
+
+// One piece of a message too large for a single datagram. The payloads of all
+// fragments in a group, concatenated by index, form the original serialized message.
+export type FragmentMessage = MessageHeader & MessageBody<MessageType.FRAGMENT>;
+
 // Physics properties for physics update
-export interface PhysicsState {
-  gravity: Vector3;
-  timeScale: number;
-}
+export type PhysicsState = WireTypeValue<typeof PHYSICS_STATE>;
 
 // Server physics update (environmental factors)
-export interface ServerPhysicsUpdateMessage extends MessageHeader {
-  physics: PhysicsState;
-  nearestCelestialBodyId: number;
-  distanceToCelestialBody: number;
-}
+export type ServerPhysicsUpdateMessage = MessageHeader & MessageBody<MessageType.SERVER_PHYSICS_UPDATE>;
 
 // NPC definition for NPC updates
-export interface NPCState {
-  entityId: string;
-  npcType: 'enemy' | 'transport' | 'civilian' | 'mining';
-  status: 'hostile' | 'en-route' | 'passive' | 'working';
-  position: Vector3;
-  velocity: Vector3;
-  rotation: Quaternion;
-  targetId?: string;
-}
+export type NPCState = WireTypeValue<typeof NPC_STATE>;
 
 // Server NPC update
-export interface ServerNPCUpdateMessage extends MessageHeader {
-  npcs: NPCState[];
-}
+export type ServerNPCUpdateMessage = MessageHeader & MessageBody<MessageType.SERVER_NPC_UPDATE>;
+
+// Server notice that an NPC ship was destroyed
+export type ServerNPCDestroyedMessage = MessageHeader & MessageBody<MessageType.SERVER_NPC_DESTROYED>;
+
+// Server notice that the receiving player was carried along with a moving area
+export type ServerFrameShiftMessage = MessageHeader & MessageBody<MessageType.SERVER_FRAME_SHIFT>;
 
 // Area of interest definition
-export interface AreaOfInterestState {
+export type AreaOfInterestState = WireTypeValue<typeof AREA_OF_INTEREST_STATE>;
+
+// Area of interest as tracked by the server
+export interface AreaOfInterest {
   id: string;
   name: string;
   center: Vector3;
   radius: number;
   playerCount: number;
   npcCount: number;
-  load: number;
+  load: number;    // Percentage of capacityLimit in use
   latency: number;
+  capacityLimit: number;
+  updateFrequency: number;
+  dynamic: boolean;  // Created by the server for load, and removed again when no longer needed
+  parentId?: string; // Area this one was split from, which still covers entities outside it
+  celestialBodyId?: number; // Body the area moves with, along with its sub-areas and entities
+  bodyOffset?: Vector3;     // Center relative to that body
 }
 
 // Server area of interest update
-export interface ServerAreaOfInterestUpdateMessage extends MessageHeader {
-  areas: AreaOfInterestState[];
-  currentAreaId: string;
-}
+export type ServerAreaOfInterestUpdateMessage = MessageHeader & MessageBody<MessageType.SERVER_AREA_OF_INTEREST_UPDATE>;
+
+// Server notice that the receiving player changed area
+export type ServerAreaHandoffMessage = MessageHeader & MessageBody<MessageType.SERVER_AREA_HANDOFF>;
 
 // Celestial body definition for celestial updates
-export interface CelestialBodyState {
-  id: number;
-  name: string;
-  type: string;
-  position: Vector3;
-  velocity: Vector3;
-  radius: number;
-  mass: number;
-  orbitProgress: number; // 0-1 representing percentage of orbit completed
-  color: string;
-}
+export type CelestialBodyState = WireTypeValue<typeof CELESTIAL_BODY_STATE>;
 
 // Server celestial body update
-export interface ServerCelestialUpdateMessage extends MessageHeader {
-  bodies: CelestialBodyState[];
-  simulationTime: number;
+export type ServerCelestialUpdateMessage = MessageHeader & MessageBody<MessageType.SERVER_CELESTIAL_UPDATE>;
+
+// Values compared by a sanity check, only the ones present are sent
+export type SanityCheckValues = WireTypeValue<typeof SANITY_CHECK_VALUES>;
+
+// Server sanity check request
+export type ServerSanityCheckMessage = MessageHeader & MessageBody<MessageType.SERVER_SANITY_CHECK>;
+
+// Client answer to a sanity check, reporting its own values
+export type ClientSanityCheckResponseMessage = MessageHeader & MessageBody<MessageType.CLIENT_SANITY_CHECK_RESPONSE>;
+
+// Reliable delivery acknowledgement
+export type ReliableAckMessage = MessageHeader & MessageBody<MessageType.SERVER_RELIABLE_ACK>;
+
+// A temporary ban on a client address
+export interface AddressBan {
+  address: string;
+  reason: string;
+  createdAt: number; // Milliseconds since epoch
+  expiresAt: number;
 }
 
-// Server sanity check request/response
-export interface ServerSanityCheckMessage extends MessageHeader {
-  checkId: number;
-  checkType: 'position' | 'velocity' | 'acceleration' | 'collision';
-  expectedValue?: any;
-  tolerance?: number;
+// A packet capture written by the UDP server
+export interface CaptureStatus {
+  file: string;
+  startedAt: number; // Milliseconds since epoch
+  records: number;
+  bytes: number;
+  active: boolean;   // False once stopped, by an admin or on reaching the size limit
 }
 
-// Reliable delivery acknowledgement
-export interface ReliableAckMessage extends MessageHeader {
-  acknowledgedSequence: number;
+// A shard process simulating players for some areas of interest, as seen by the coordinator
+export interface ShardStatus {
+  shardId: number;
+  pid: number | null;    // Null while the process is restarting
+  running: boolean;
+  areaIds: string[];     // Areas whose players the shard simulates
+  playerCount: number;
+  ghostCount: number;    // Entities owned elsewhere that its players can see
+  tickTime: number;      // Average milliseconds per replication pass
+  updatesPerSecond: number;
+  memoryUsage: number;   // Heap in MB
+  lastReport: number;    // Milliseconds since epoch, 0 before the first report
+}
+
+// Per-client wire encoding options negotiated at connect
+export interface SerializationOptions {
+  quantized: boolean; // AOI-relative fixed-point positions, quantized velocities, smallest-three rotations
 }
 
 // Binary serialization functions
@@ -179,17 +273,26 @@ export interface BinarySerializer {
   serializeMessageHeader(header: MessageHeader): Buffer;
   deserializeMessageHeader(buffer: Buffer, offset: number): { value: MessageHeader, bytesRead: number };
   
-  serializeEntityState(entity: EntityState): Buffer;
-  deserializeEntityState(buffer: Buffer, offset: number): { value: EntityState, bytesRead: number };
+  serializeEntityState(entity: EntityState, origin?: Vector3): Buffer;
+  deserializeEntityState(buffer: Buffer, offset: number, origin?: Vector3): { value: EntityState, bytesRead: number };
+  
+  serializeEntityDelta(delta: EntityDelta, origin?: Vector3): Buffer;
+  deserializeEntityDelta(buffer: Buffer, offset: number, origin?: Vector3): { value: EntityDelta, bytesRead: number };
   
-  serializeNPCState(npc: NPCState): Buffer;
-  deserializeNPCState(buffer: Buffer, offset: number): { value: NPCState, bytesRead: number };
+  serializeNPCState(npc: NPCState, origin?: Vector3): Buffer;
+  deserializeNPCState(buffer: Buffer, offset: number, origin?: Vector3): { value: NPCState, bytesRead: number };
   
   serializeCelestialBodyState(body: CelestialBodyState): Buffer;
   deserializeCelestialBodyState(buffer: Buffer, offset: number): { value: CelestialBodyState, bytesRead: number };
   
-  serializeMessage(message: any): Buffer;
-  deserializeMessage(buffer: Buffer): any;
+  serializeMissionState(mission: MissionState): Buffer;
+  deserializeMissionState(buffer: Buffer, offset: number): { value: MissionState, bytesRead: number };
+  
+  serializeMissionDelta(delta: MissionDelta): Buffer;
+  deserializeMissionDelta(buffer: Buffer, offset: number): { value: MissionDelta, bytesRead: number };
+  
+  serializeMessage(message: any, options?: SerializationOptions): Buffer;
+  deserializeMessage(buffer: Buffer, options?: SerializationOptions): any;
 }
 
 // Mission system types
@@ -212,28 +315,26 @@ export enum MissionStatus {
   ABANDONED = 'abandoned'
 }
 
-export interface MissionState {
-  missionId: string;
-  name: string;
-  description: string;
-  type: MissionType;
-  status: MissionStatus;
-  reward: number;
-  difficulty: number;
-  startLocationId: number;
-  endLocationId: number; 
-  assignedFleetId?: string;
-  progressValue: number;
-  progressTarget: number;
-  startTime: number;
-  expiryTime: number;
-  completeTime?: number;
-}
+export type MissionState = WireTypeValue<typeof MISSION_STATE>;
 
-export interface ServerMissionUpdateMessage extends MessageHeader {
-  missions: MissionState[];
+// Full state of the listed missions, added or replacing what the client has
+export type ServerMissionUpdateMessage = MessageHeader & MessageBody<MessageType.SERVER_MISSION_UPDATE>;
+
+// Fields present in a mission delta
+export enum MissionDeltaField {
+  STATUS = 1 << 0,
+  PROGRESS = 1 << 1,
+  ASSIGNED_FLEET = 1 << 2, // Empty fleet ID means the mission was unassigned
+  EXPIRY_TIME = 1 << 3,
+  COMPLETE_TIME = 1 << 4,
 }
 
+// Changed fields of a single mission relative to the last update the client received
+export type MissionDelta = WireTypeValue<typeof MISSION_DELTA>;
+
+// Changes to missions the client already has
+export type ServerMissionDeltaMessage = MessageHeader & MessageBody<MessageType.SERVER_MISSION_DELTA>;
+
 // Server settings interface
 export interface ServerSettings {
   maxPlayers: number;
@@ -242,9 +343,13 @@ export interface ServerSettings {
   aoiRadius: number;
   aoiMaxEntities: number;
   aoiGridCellSize: number;
+  stateUpdateBudget: number; // Entity bytes per client state update, lower priority entities wait
   sanityCheckFrequency: number;
   reliableResendInterval: number;
   maxReliableResends: number;
   disconnectTimeout: number;
   logLevel: 'debug' | 'info' | 'warn' | 'error';
+  requireAuthentication: boolean; // Require a session token in CLIENT_CONNECT and signed datagrams afterwards
+  movementAuthority: 'client' | 'server'; // Trust CLIENT_STATE_UPDATE, or integrate CLIENT_INPUT on the server
+  reconnectGracePeriod: number; // Milliseconds an authenticated client that lost contact can resume its session, 0 disables
 }
@@ -0,0 +1,166 @@
+import { Vector3, Quaternion } from './math';
+
+// Declarative description of the binary wire format. Message layouts in shared/messages.ts are
+// built from these descriptors, the codec in server/codec.ts walks them to encode and decode,
+// and the TypeScript message types are inferred from them, so the three cannot drift apart.
+// All numbers are little-endian.
+
+export type WireKind =
+  | 'u8' | 'u16' | 'u32' | 'u64' | 'f32' | 'f64'
+  | 'string'                            // u16 byte length + utf8
+  | 'vec3' | 'quat'                     // Full precision floats
+  | 'position' | 'velocity' | 'rotation' // Quantized relative to the message origin when it has one
+  | 'origin'                            // Reference point for quantized transforms, only sent to clients that negotiated it
+  | 'bytes'                             // Fixed length
+  | 'rest'                              // Everything up to the end of the message
+  | 'padding'                           // Reserved zero bytes
+  | 'enum'                              // u8 index into a list of values
+  | 'array'                             // Element count followed by the elements
+  | 'struct'
+  | 'mask'                              // u8 of bits saying which masked fields follow
+  | 'flag';                             // Boolean stored as a bit of a mask, takes no bytes of its own
+
+// A wire type. T is the decoded value type and only exists at the type level.
+export interface WireType<T = unknown> {
+  kind: WireKind;
+  length?: number;             // bytes and padding
+  values?: readonly unknown[]; // enum: new values must be appended so indexes stay stable
+  count?: 'u8' | 'u16';        // array: width of the element count
+  element?: WireType;          // array
+  fields?: FieldList;          // struct
+  fullPrecision?: boolean;     // struct: transforms inside ignore the message's quantization
+  clamp?: boolean;             // Integers: clamp to the type's range instead of failing
+  mask?: string;               // flag: mask field holding the bit
+  bit?: number;                // flag
+  exposed?: boolean;           // mask: part of the decoded value, and taken from the value when encoding
+  readonly __value?: T;
+}
+
+// Whether a field is always in the decoded value, may be missing, or is layout only
+export type Presence = 'required' | 'optional' | 'hidden';
+
+// A struct field with presence rules. Plain wire types in a field list are required fields.
+export interface Field<T = unknown, P extends Presence = Presence> {
+  type: WireType<T>;
+  trailing?: boolean;         // May be cut off at the end of the message (see trailing())
+  group?: string;             // Trailing fields of one group are written together
+  mask?: string;              // Present only when `bit` of the named mask field is set
+  bit?: number;
+  encodeWhenAbsent?: boolean; // Masked field that is always written, the bit only says whether it is meaningful
+  emptyAsAbsent?: boolean;    // An empty string or struct decodes as absent, and absent encodes as empty
+  fill?: T;                   // Written for an absent field the layout still needs
+  missing?: T;                // Decoded when a trailing field was cut off
+  readonly __presence?: P;
+}
+
+export type FieldList = { [name: string]: WireType<any> | Field<any, any> };
+
+type ValueOf<F> = F extends Field<infer T, any> ? T : F extends WireType<infer T> ? T : never;
+type PresenceOf<F> = F extends Field<any, infer P> ? P : 'required';
+type KeysWith<L, P extends Presence> = { [K in keyof L]: PresenceOf<L[K]> extends P ? K : never }[keyof L];
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+// Decoded value of a field list
+export type WireValue<L extends FieldList> = Simplify<
+  { [K in KeysWith<L, 'required'>]: ValueOf<L[K]> } &
+  { [K in KeysWith<L, 'optional'>]?: ValueOf<L[K]> }
+>;
+
+// Decoded value of a wire type
+export type WireTypeValue<W> = W extends WireType<infer T> ? T : never;
+
+function type<T>(kind: WireKind, options: Partial<WireType<any>> = {}): WireType<T> {
+  return { kind, ...options };
+}
+
+export const u8 = type<number>('u8');
+export const u16 = type<number>('u16');
+export const u32 = type<number>('u32');
+export const u64 = type<number>('u64'); // Integers up to 2^53
+export const f32 = type<number>('f32');
+export const f64 = type<number>('f64');
+export const vec3 = type<Vector3>('vec3');
+export const quat = type<Quaternion>('quat');
+export const position = type<Vector3>('position');
+export const velocity = type<Vector3>('velocity');
+export const rotation = type<Quaternion>('rotation');
+export const rest = type<Buffer>('rest');
+
+// String, optionally narrowed to a union of literals (not checked when decoding)
+export function str<T extends string = string>(): WireType<T> {
+  return type<T>('string');
+}
+
+export function bytes(length: number): WireType<Buffer> {
+  return type<Buffer>('bytes', { length });
+}
+
+export function enumOf<T>(values: readonly T[]): WireType<T> {
+  return type<T>('enum', { values });
+}
+
+export function arrayOf<T>(element: WireType<T>, count: 'u8' | 'u16' = 'u16'): WireType<T[]> {
+  return type<T[]>('array', { element, count });
+}
+
+export function struct<L extends FieldList>(fields: L): WireType<WireValue<L>> {
+  return type<WireValue<L>>('struct', { fields });
+}
+
+// Same struct, but its transforms are always sent at full precision
+export function fullPrecision<T>(structType: WireType<T>): WireType<T> {
+  return { ...structType, fullPrecision: true };
+}
+
+// Integer that saturates instead of failing when out of range
+export function clamped(integer: WireType<number>): WireType<number> {
+  return { ...integer, clamp: true };
+}
+
+// Reinterpret an integer as a numeric enum or other number subtype
+export function numeric<T extends number>(integer: WireType<number>): WireType<T> {
+  return integer as WireType<T>;
+}
+
+// Boolean kept in a bit of a mask field
+export function flag(mask: string, bit: number): WireType<boolean> {
+  return type<boolean>('flag', { mask, bit });
+}
+
+// u8 mask computed from which masked fields are set, not part of the decoded value
+export function mask(): Field<never, 'hidden'> {
+  return { type: type<never>('mask') };
+}
+
+// u8 mask that is part of the value (such as a delta's fieldMask) and decides which fields are written
+export function exposedMask(): Field<number, 'required'> {
+  return { type: type<number>('mask', { exposed: true }) };
+}
+
+export function padding(length: number): Field<never, 'hidden'> {
+  return { type: type<never>('padding', { length }) };
+}
+
+// Origin for quantized transforms, written once per message in full precision
+export function origin(): Field<Vector3, 'optional'> {
+  return { type: type<Vector3>('origin') };
+}
+
+// Field appended to an older layout: written only when it or a later trailing field is set, and
+// read only if the message has bytes left. `missing` makes it always present once decoded.
+export function trailing<T>(fieldType: WireType<T>, options: { fill?: T, group?: string, emptyAsAbsent?: boolean }): Field<T, 'optional'>;
+export function trailing<T>(fieldType: WireType<T>, options: { fill?: T, missing: T }): Field<T, 'required'>;
+export function trailing<T>(fieldType: WireType<T>): Field<T, 'optional'>;
+export function trailing<T>(fieldType: WireType<T>, options: Partial<Field<T>> = {}): Field<T, any> {
+  return { type: fieldType, trailing: true, ...options };
+}
+
+// Field present only when `bit` of the named mask is set
+export function masked<T>(fieldType: WireType<T>, maskName: string, bit: number, options: { encodeWhenAbsent?: boolean } = {}): Field<T, 'optional'> {
+  return { type: fieldType, mask: maskName, bit, ...options };
+}
+
+// Field that is absent when empty on the wire
+export function emptyAsAbsent<T>(fieldType: WireType<T>): Field<T, 'optional'> {
+  return { type: fieldType, emptyAsAbsent: true };
+}